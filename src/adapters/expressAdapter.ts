@@ -1,11 +1,24 @@
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import type { Request, Response, Router } from "express";
 import type { Facilitator } from "../facilitator.js";
 import { formatError } from "./shared/errorHandler.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { prefersAsync } from "../payment.js";
+import { serveLedger } from "../ledger.js";
+
+export type ExpressAdapterOptions = {
+  /** Serve Prometheus metrics on `GET /metrics`. */
+  metrics?: boolean;
+  /** Serve the facilitator's `ledger` on `GET /ledger`, with filters, pagination and CSV/JSONL export. */
+  ledger?: boolean;
+};
 
 export function createExpressAdapter(
   facilitator: Facilitator,
   router: Router,
-  basePath: string = ""
+  basePath: string = "",
+  options: ExpressAdapterOptions = {}
 ): void {
   const normalizePath = (path: string) => {
     const normalized = basePath + path;
@@ -23,7 +36,12 @@ export function createExpressAdapter(
 
   router.post(normalizePath("/verify"), async (req: Request, res: Response) => {
     try {
-      const response = await facilitator.handleRequest({ method: "POST", path: "/verify", body: req.body });
+      const response = await facilitator.handleRequest({
+        method: "POST",
+        path: "/verify",
+        body: req.body,
+        requestId: req.get("x-request-id"),
+      });
       res.status(response.status).json(response.body);
     } catch (error) {
       res.status(500).json(formatError(error));
@@ -32,10 +50,65 @@ export function createExpressAdapter(
 
   router.post(normalizePath("/settle"), async (req: Request, res: Response) => {
     try {
-      const response = await facilitator.handleRequest({ method: "POST", path: "/settle", body: req.body });
+      const response = await facilitator.handleRequest({
+        method: "POST",
+        path: "/settle",
+        body: req.body,
+        requestId: req.get("x-request-id"),
+        respondAsync: prefersAsync(req.get("prefer")),
+      });
+      res.status(response.status).json(response.body);
+    } catch (error) {
+      res.status(500).json(formatError(error));
+    }
+  });
+
+  router.get(normalizePath("/settle/:id"), async (req: Request, res: Response) => {
+    try {
+      const path = `/settle/${encodeURIComponent(req.params.id)}`;
+      const response = await facilitator.handleRequest({ method: "GET", path });
+      res.status(response.status).json(response.body);
+    } catch (error) {
+      res.status(500).json(formatError(error));
+    }
+  });
+
+  router.post(normalizePath("/settle/status"), async (req: Request, res: Response) => {
+    try {
+      const response = await facilitator.handleRequest({ method: "POST", path: "/settle/status", body: req.body });
+      res.status(response.status).json(response.body);
+    } catch (error) {
+      res.status(500).json(formatError(error));
+    }
+  });
+
+  router.post(normalizePath("/challenge"), async (req: Request, res: Response) => {
+    try {
+      const response = await facilitator.handleRequest({ method: "POST", path: "/challenge", body: req.body });
       res.status(response.status).json(response.body);
     } catch (error) {
       res.status(500).json(formatError(error));
     }
   });
+
+  if (options.metrics) {
+    router.get(normalizePath("/metrics"), (_req: Request, res: Response) => {
+      res.status(200).type(METRICS_CONTENT_TYPE).send(facilitator.renderMetrics());
+    });
+  }
+
+  if (options.ledger) {
+    router.get(normalizePath("/ledger"), async (req: Request, res: Response) => {
+      try {
+        const query = new URL(req.originalUrl, "http://localhost").searchParams;
+        const response = await serveLedger(facilitator.ledger, query);
+        res.status(response.status).type(response.contentType);
+        if (typeof response.body === "string") res.send(response.body);
+        else await pipeline(Readable.from(response.body), res);
+      } catch (error) {
+        // A failed export stream has already destroyed the response
+        if (!res.headersSent) res.status(500).json(formatError(error));
+      }
+    });
+  }
 }
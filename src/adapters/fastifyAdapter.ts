@@ -0,0 +1,93 @@
+import { Readable } from "node:stream";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import type { Facilitator, HandlerRequest } from "../facilitator.js";
+import { formatError } from "./shared/errorHandler.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { prefersAsync } from "../payment.js";
+import { serveLedger } from "../ledger.js";
+
+export type FastifyAdapterOptions = {
+  /** Serve Prometheus metrics on `GET /metrics`. */
+  metrics?: boolean;
+  /** Serve the facilitator's `ledger` on `GET /ledger`, with filters, pagination and CSV/JSONL export. */
+  ledger?: boolean;
+};
+
+/**
+ * Creates a Fastify plugin wired to the given Facilitator.
+ * Register it with `app.register(createFastifyAdapter(facilitator), { prefix: "/facilitator" })`.
+ *
+ * Routes exposed (relative to the prefix):
+ *   GET  /supported
+ *   POST /verify
+ *   POST /settle (`Prefer: respond-async` answers 202 with a settlement id)
+ *   GET  /settle/:id
+ *   POST /settle/status
+ *   POST /challenge
+ *   GET  /metrics (when `options.metrics` is set)
+ *   GET  /ledger (when `options.ledger` is set)
+ */
+export function createFastifyAdapter(
+  facilitator: Facilitator,
+  options: FastifyAdapterOptions = {}
+): FastifyPluginAsync {
+  return async (app) => {
+    const handle = async (reply: FastifyReply, req: HandlerRequest) => {
+      try {
+        const response = await facilitator.handleRequest(req);
+        return reply.code(response.status).send(response.body);
+      } catch (error) {
+        return reply.code(500).send(formatError(error));
+      }
+    };
+    const header = (req: FastifyRequest, name: string) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const requestId = (req: FastifyRequest) => header(req, "x-request-id");
+
+    app.get("/supported", (_req, reply) => handle(reply, { method: "GET", path: "/supported" }));
+
+    app.post("/verify", (req, reply) =>
+      handle(reply, { method: "POST", path: "/verify", body: req.body, requestId: requestId(req) })
+    );
+
+    app.post("/settle", (req, reply) =>
+      handle(reply, {
+        method: "POST",
+        path: "/settle",
+        body: req.body,
+        requestId: requestId(req),
+        respondAsync: prefersAsync(header(req, "prefer")),
+      })
+    );
+
+    app.get<{ Params: { id: string } }>("/settle/:id", (req, reply) =>
+      handle(reply, { method: "GET", path: `/settle/${encodeURIComponent(req.params.id)}` })
+    );
+
+    app.post("/settle/status", (req, reply) =>
+      handle(reply, { method: "POST", path: "/settle/status", body: req.body })
+    );
+
+    app.post("/challenge", (req, reply) => handle(reply, { method: "POST", path: "/challenge", body: req.body }));
+
+    if (options.metrics) {
+      app.get("/metrics", (_req, reply) =>
+        reply.code(200).header("content-type", METRICS_CONTENT_TYPE).send(facilitator.renderMetrics())
+      );
+    }
+
+    if (options.ledger) {
+      app.get("/ledger", async (req, reply) => {
+        try {
+          const response = await serveLedger(facilitator.ledger, new URL(req.url, "http://localhost").searchParams);
+          const body = typeof response.body === "string" ? response.body : Readable.from(response.body);
+          return reply.code(response.status).header("content-type", response.contentType).send(body);
+        } catch (error) {
+          return reply.code(500).send(formatError(error));
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import type { FastifyPluginAsync, FastifyRequest } from "fastify";
+import {
+  type GatewayOptions,
+  aggregateSupportedKinds,
+  handleGatewayVerify,
+  handleGatewaySettle,
+  handleGatewaySettlementStatus,
+  handleGatewayRegister,
+  handleGatewayDeregister,
+  handleGatewayWebhookSubscribe,
+  type GatewayHandle,
+  createGatewayContext,
+  toGatewayHandle,
+} from "../gateway/core.js";
+import type { ForwardBody } from "../gateway/types.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { serveLedger } from "../ledger.js";
+import { prefersAsync } from "../payment.js";
+
+export type FastifyGatewayOptions = GatewayOptions;
+
+export type FastifyGatewayPlugin = FastifyPluginAsync & {
+  /** Drains or closes the gateway; see `GatewayHandle`. */
+  gateway: GatewayHandle;
+};
+
+function header(req: FastifyRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Creates a Fastify plugin that acts as an HTTP gateway, routing verify/settle
+ * requests across multiple facilitator nodes with sticky routing.
+ *
+ * Register with `app.register(createFastifyGatewayAdapter(opts), { prefix: "/facilitator" })`.
+ * The plugin's `gateway` property drains or closes the gateway; it is closed
+ * when the Fastify instance closes.
+ *
+ * Routes exposed (relative to the prefix):
+ *   GET  /supported   — aggregated kinds from all peers
+ *   POST /verify      — random capable node, sticky selection recorded
+ *   POST /settle      — sticky node from verify, fallback to others; `Prefer: respond-async` answers 202
+ *   GET  /settle/:id  — state of an asynchronous settle, from the node that accepted it
+ *   POST /register    — node self-registration
+ *   POST /deregister  — node removal, e.g. on shutdown
+ *   POST /webhooks    — settlement webhook subscription for a `payTo`, when `webhooks.subscribeAuth` is set
+ *   GET  /peers       — diagnostic: active peers plus each known peer's circuit state
+ *   GET  /metrics     — Prometheus metrics, when `metrics: true`
+ *   GET  /ledger      — recorded verifies and settles, when `serveLedger: true`
+ */
+export function createFastifyGatewayAdapter(options: FastifyGatewayOptions): FastifyGatewayPlugin {
+  const gw = createGatewayContext(options);
+
+  const plugin: FastifyPluginAsync = async (app) => {
+    app.addHook("onClose", () => gw.close());
+
+    // GET /supported — aggregate from peers
+    app.get("/supported", async () => {
+      const kinds = await aggregateSupportedKinds(await gw.peers());
+      return { kinds };
+    });
+
+    // POST /verify — single randomly selected node supporting the network (stick to this node by payer/header)
+    app.post("/verify", async (req, reply) => {
+      const r = await handleGatewayVerify({
+        ...gw,
+        peers: await gw.peers(),
+        inbound: req.body as ForwardBody,
+        requestId: header(req, "x-request-id") ?? randomUUID(),
+      });
+      return reply.code(r.status).send(r.body);
+    });
+
+    // POST /settle — use the same selected node (sticky by payer/header); fallback to others on failure
+    app.post("/settle", async (req, reply) => {
+      const r = await handleGatewaySettle({
+        ...gw,
+        peers: await gw.peers(),
+        inbound: req.body as ForwardBody,
+        idempotencyKey: header(req, "idempotency-key"),
+        respondAsync: prefersAsync(header(req, "prefer")),
+        requestId: header(req, "x-request-id") ?? randomUUID(),
+      });
+      return reply.code(r.status).send(r.body);
+    });
+
+    // GET /settle/:id — asynchronous settle state, from the node that accepted it
+    app.get<{ Params: { id: string } }>("/settle/:id", async (req, reply) => {
+      const r = await handleGatewaySettlementStatus({
+        ...gw,
+        peers: await gw.peers(),
+        settlementId: req.params.id,
+        requestId: header(req, "x-request-id") ?? randomUUID(),
+      });
+      return reply.code(r.status).send(r.body);
+    });
+
+    // POST /register — nodes can self-register with the gateway
+    app.post("/register", async (req, reply) => {
+      const r = await handleGatewayRegister(gw.registry, req.body, options.registrationAuth);
+      return reply.code(r.status).send(r.body);
+    });
+
+    // POST /deregister — nodes leaving the pool are dropped at once instead of after the registry TTL
+    app.post("/deregister", async (req, reply) => {
+      const r = await handleGatewayDeregister(gw.registry, req.body, options.registrationAuth);
+      return reply.code(r.status).send(r.body);
+    });
+
+    // POST /webhooks — merchants subscribe to settlement outcomes for their payTo (with webhooks.subscribeAuth)
+    if (gw.webhooks?.subscribeAuth) {
+      app.post("/webhooks", async (req, reply) => {
+        const r = await handleGatewayWebhookSubscribe(gw.webhooks, req.body);
+        return reply.code(r.status).send(r.body);
+      });
+    }
+
+    // GET /peers — diagnostic endpoint
+    app.get("/peers", async () => ({ peers: await gw.peers(), details: await gw.describePeers() }));
+
+    // GET /metrics — Prometheus scrape endpoint (opt-in)
+    const metrics = gw.metrics;
+    if (metrics) {
+      app.get("/metrics", async (_req, reply) =>
+        reply.code(200).header("content-type", METRICS_CONTENT_TYPE).send(await metrics.render())
+      );
+    }
+
+    // GET /ledger — recorded verifies and settles, with filters and CSV/JSONL export (opt-in)
+    if (options.serveLedger) {
+      app.get("/ledger", async (req, reply) => {
+        const r = await serveLedger(gw.ledger, new URL(req.url, "http://localhost").searchParams);
+        const body = typeof r.body === "string" ? r.body : Readable.from(r.body);
+        return reply.code(r.status).header("content-type", r.contentType).send(body);
+      });
+    }
+  };
+  return Object.assign(plugin, { gateway: toGatewayHandle(gw) });
+}
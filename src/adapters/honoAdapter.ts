@@ -1,6 +1,16 @@
 import { Hono } from "hono";
 import type { Facilitator } from "../facilitator.js";
 import { formatError } from "./shared/errorHandler.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { prefersAsync } from "../payment.js";
+import { serveLedger, toResponseBody } from "../ledger.js";
+
+export type HonoAdapterOptions = {
+  /** Serve Prometheus metrics on `GET /metrics`. */
+  metrics?: boolean;
+  /** Serve the facilitator's `ledger` on `GET /ledger`, with filters, pagination and CSV/JSONL export. */
+  ledger?: boolean;
+};
 
 /**
  * Creates a Hono app wired to the given Facilitator.
@@ -9,9 +19,14 @@ import { formatError } from "./shared/errorHandler.js";
  * Routes exposed (relative to mount point):
  *   GET  /supported
  *   POST /verify
- *   POST /settle
+ *   POST /settle (`Prefer: respond-async` answers 202 with a settlement id)
+ *   GET  /settle/:id
+ *   POST /settle/status
+ *   POST /challenge
+ *   GET  /metrics (when `options.metrics` is set)
+ *   GET  /ledger (when `options.ledger` is set)
  */
-export function createHonoAdapter(facilitator: Facilitator): Hono {
+export function createHonoAdapter(facilitator: Facilitator, options: HonoAdapterOptions = {}): Hono {
   const app = new Hono();
 
   app.get("/supported", async (c) => {
@@ -26,7 +41,12 @@ export function createHonoAdapter(facilitator: Facilitator): Hono {
   app.post("/verify", async (c) => {
     try {
       const body = await c.req.json();
-      const response = await facilitator.handleRequest({ method: "POST", path: "/verify", body });
+      const response = await facilitator.handleRequest({
+        method: "POST",
+        path: "/verify",
+        body,
+        requestId: c.req.header("x-request-id"),
+      });
       return c.json(response.body, response.status as any);
     } catch (error) {
       return c.json(formatError(error), 500);
@@ -36,12 +56,63 @@ export function createHonoAdapter(facilitator: Facilitator): Hono {
   app.post("/settle", async (c) => {
     try {
       const body = await c.req.json();
-      const response = await facilitator.handleRequest({ method: "POST", path: "/settle", body });
+      const response = await facilitator.handleRequest({
+        method: "POST",
+        path: "/settle",
+        body,
+        requestId: c.req.header("x-request-id"),
+        respondAsync: prefersAsync(c.req.header("prefer")),
+      });
+      return c.json(response.body, response.status as any);
+    } catch (error) {
+      return c.json(formatError(error), 500);
+    }
+  });
+
+  app.get("/settle/:id", async (c) => {
+    try {
+      const path = `/settle/${encodeURIComponent(c.req.param("id"))}`;
+      const response = await facilitator.handleRequest({ method: "GET", path });
+      return c.json(response.body, response.status as any);
+    } catch (error) {
+      return c.json(formatError(error), 500);
+    }
+  });
+
+  app.post("/settle/status", async (c) => {
+    try {
+      const body = await c.req.json();
+      const response = await facilitator.handleRequest({ method: "POST", path: "/settle/status", body });
       return c.json(response.body, response.status as any);
     } catch (error) {
       return c.json(formatError(error), 500);
     }
   });
 
+  app.post("/challenge", async (c) => {
+    try {
+      const body = await c.req.json();
+      const response = await facilitator.handleRequest({ method: "POST", path: "/challenge", body });
+      return c.json(response.body, response.status as any);
+    } catch (error) {
+      return c.json(formatError(error), 500);
+    }
+  });
+
+  if (options.metrics) {
+    app.get("/metrics", (c) => c.body(facilitator.renderMetrics(), 200, { "content-type": METRICS_CONTENT_TYPE }));
+  }
+
+  if (options.ledger) {
+    app.get("/ledger", async (c) => {
+      try {
+        const response = await serveLedger(facilitator.ledger, new URL(c.req.url).searchParams);
+        return c.body(toResponseBody(response.body), response.status as any, { "content-type": response.contentType });
+      } catch (error) {
+        return c.json(formatError(error), 500);
+      }
+    });
+  }
+
   return app;
 }
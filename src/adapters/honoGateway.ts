@@ -1,3 +1,4 @@
+import { randomUUID } from "node:crypto";
 import { Hono } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
 import {
@@ -5,13 +6,25 @@ import {
   aggregateSupportedKinds,
   handleGatewayVerify,
   handleGatewaySettle,
+  handleGatewaySettlementStatus,
   handleGatewayRegister,
-  StickyRouter,
-  PeerRegistry,
+  handleGatewayDeregister,
+  handleGatewayWebhookSubscribe,
+  type GatewayHandle,
+  createGatewayContext,
+  toGatewayHandle,
 } from "../gateway/core.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { serveLedger, toResponseBody } from "../ledger.js";
+import { prefersAsync } from "../payment.js";
 
 export type HonoGatewayOptions = GatewayOptions;
 
+export type HonoGateway = Hono & {
+  /** Drains or closes the gateway; see `GatewayHandle`. */
+  gateway: GatewayHandle;
+};
+
 /**
  * Creates a Hono app that acts as an HTTP gateway, routing verify/settle
  * requests across multiple facilitator nodes with sticky routing.
@@ -20,52 +33,106 @@ export type HonoGatewayOptions = GatewayOptions;
  *
  * Routes exposed (relative to mount point):
  *   GET  /supported   — aggregated kinds from all peers
- *   POST /verify      — random node, sticky selection recorded
- *   POST /settle      — sticky node from verify, fallback to others
+ *   POST /verify      — random capable node, sticky selection recorded
+ *   POST /settle      — sticky node from verify, fallback to others; `Prefer: respond-async` answers 202
+ *   GET  /settle/:id  — state of an asynchronous settle, from the node that accepted it
  *   POST /register    — node self-registration
- *   GET  /peers       — diagnostic: list active peers
+ *   POST /deregister  — node removal, e.g. on shutdown
+ *   POST /webhooks    — settlement webhook subscription for a `payTo`, when `webhooks.subscribeAuth` is set
+ *   GET  /peers       — diagnostic: active peers plus each known peer's circuit state
+ *   GET  /metrics     — Prometheus metrics, when `metrics: true`
+ *   GET  /ledger      — recorded verifies and settles, when `serveLedger: true`
+ *
+ * The app's `gateway` property drains or closes the gateway.
  */
-export function createHonoGatewayAdapter(options: HonoGatewayOptions): Hono {
+export function createHonoGatewayAdapter(options: HonoGatewayOptions): HonoGateway {
   const app = new Hono();
-  const sticky = new StickyRouter();
-  const registry = new PeerRegistry();
-  const logPrefix = "[hono-gateway]";
-
-  function peers(): string[] {
-    return registry.getActivePeers(options.httpPeers ?? []);
-  }
+  const gw = createGatewayContext(options);
 
   // GET /supported — aggregate from peers
   app.get("/supported", async (c) => {
-    const kinds = await aggregateSupportedKinds(peers());
+    const kinds = await aggregateSupportedKinds(await gw.peers());
     return c.json({ kinds });
   });
 
-  // POST /verify — single randomly selected node (stick to this node by payer/header)
+  // POST /verify — single randomly selected node supporting the network (stick to this node by payer/header)
   app.post("/verify", async (c) => {
     const inbound = await c.req.json();
-    const r = await handleGatewayVerify({ peers: peers(), inbound, sticky, debug: options.debug, logPrefix });
+    const r = await handleGatewayVerify({
+      ...gw,
+      peers: await gw.peers(),
+      inbound,
+      requestId: c.req.header("x-request-id") ?? randomUUID(),
+    });
     return c.json(r.body, r.status as ContentfulStatusCode);
   });
 
   // POST /settle — use the same selected node (sticky by payer/header); fallback to others on failure
   app.post("/settle", async (c) => {
     const inbound = await c.req.json();
-    const r = await handleGatewaySettle({ peers: peers(), inbound, sticky, debug: options.debug, logPrefix });
+    const r = await handleGatewaySettle({
+      ...gw,
+      peers: await gw.peers(),
+      inbound,
+      idempotencyKey: c.req.header("idempotency-key"),
+      respondAsync: prefersAsync(c.req.header("prefer")),
+      requestId: c.req.header("x-request-id") ?? randomUUID(),
+    });
+    return c.json(r.body, r.status as ContentfulStatusCode);
+  });
+
+  // GET /settle/:id — asynchronous settle state, from the node that accepted it
+  app.get("/settle/:id", async (c) => {
+    const r = await handleGatewaySettlementStatus({
+      ...gw,
+      peers: await gw.peers(),
+      settlementId: c.req.param("id"),
+      requestId: c.req.header("x-request-id") ?? randomUUID(),
+    });
     return c.json(r.body, r.status as ContentfulStatusCode);
   });
 
   // POST /register — nodes can self-register with the gateway
   app.post("/register", async (c) => {
     const inbound = await c.req.json().catch(() => undefined);
-    const r = handleGatewayRegister(registry, inbound);
+    const r = await handleGatewayRegister(gw.registry, inbound, options.registrationAuth);
     return c.json(r.body, r.status as ContentfulStatusCode);
   });
 
+  // POST /deregister — nodes leaving the pool are dropped at once instead of after the registry TTL
+  app.post("/deregister", async (c) => {
+    const inbound = await c.req.json().catch(() => undefined);
+    const r = await handleGatewayDeregister(gw.registry, inbound, options.registrationAuth);
+    return c.json(r.body, r.status as ContentfulStatusCode);
+  });
+
+  // POST /webhooks — merchants subscribe to settlement outcomes for their payTo (with webhooks.subscribeAuth)
+  if (gw.webhooks?.subscribeAuth) {
+    app.post("/webhooks", async (c) => {
+      const inbound = await c.req.json().catch(() => undefined);
+      const r = await handleGatewayWebhookSubscribe(gw.webhooks, inbound);
+      return c.json(r.body, r.status as ContentfulStatusCode);
+    });
+  }
+
   // GET /peers — diagnostic endpoint
-  app.get("/peers", (c) => {
-    return c.json({ peers: peers() });
+  app.get("/peers", async (c) => {
+    return c.json({ peers: await gw.peers(), details: await gw.describePeers() });
   });
 
-  return app;
+  // GET /metrics — Prometheus scrape endpoint (opt-in)
+  const metrics = gw.metrics;
+  if (metrics) {
+    app.get("/metrics", async (c) => c.body(await metrics.render(), 200, { "content-type": METRICS_CONTENT_TYPE }));
+  }
+
+  // GET /ledger — recorded verifies and settles, with filters and CSV/JSONL export (opt-in)
+  if (options.serveLedger) {
+    app.get("/ledger", async (c) => {
+      const r = await serveLedger(gw.ledger, new URL(c.req.url).searchParams);
+      return c.body(toResponseBody(r.body), r.status as ContentfulStatusCode, { "content-type": r.contentType });
+    });
+  }
+
+  return Object.assign(app, { gateway: toGatewayHandle(gw) });
 }
@@ -0,0 +1,110 @@
+import { Readable } from "node:stream";
+import type { Context, Middleware } from "koa";
+import type { Facilitator, HandlerRequest } from "../facilitator.js";
+import { formatError } from "./shared/errorHandler.js";
+import { PayloadTooLargeError, readJsonBody } from "./shared/readJsonBody.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { prefersAsync } from "../payment.js";
+import { serveLedger } from "../ledger.js";
+
+export type KoaAdapterOptions = {
+  /** Serve Prometheus metrics on `GET /metrics`. */
+  metrics?: boolean;
+  /** Serve the facilitator's `ledger` on `GET /ledger`, with filters, pagination and CSV/JSONL export. */
+  ledger?: boolean;
+};
+
+/**
+ * Request body as parsed by a body parser middleware (e.g. `@koa/bodyparser`), else read here
+ * up to 100 kB; larger bodies throw a `PayloadTooLargeError` (see `answerPayloadTooLarge`).
+ */
+export function getKoaRequestBody(ctx: Context): Promise<unknown> {
+  const parsed = (ctx.request as { body?: unknown }).body;
+  return parsed === undefined ? readJsonBody(ctx.req) : Promise.resolve(parsed);
+}
+
+/**
+ * Answers 413 when `error` is a body over the size limit; false for any other error.
+ */
+export function answerPayloadTooLarge(ctx: Context, error: unknown): boolean {
+  if (!(error instanceof PayloadTooLargeError)) return false;
+  ctx.status = 413;
+  ctx.body = { error: error.message };
+  return true;
+}
+
+/**
+ * Creates Koa middleware wired to the given Facilitator; other requests pass through to `next`.
+ * Use it with `app.use(createKoaAdapter(facilitator, "/facilitator"))`.
+ *
+ * Routes exposed (relative to `basePath`):
+ *   GET  /supported
+ *   POST /verify
+ *   POST /settle (`Prefer: respond-async` answers 202 with a settlement id)
+ *   GET  /settle/:id
+ *   POST /settle/status
+ *   POST /challenge
+ *   GET  /metrics (when `options.metrics` is set)
+ *   GET  /ledger (when `options.ledger` is set)
+ */
+export function createKoaAdapter(
+  facilitator: Facilitator,
+  basePath: string = "",
+  options: KoaAdapterOptions = {}
+): Middleware {
+  const normalizePath = (path: string) => {
+    const normalized = basePath + path;
+    return normalized || "/";
+  };
+  const routes = new Map<string, HandlerRequest["path"]>([
+    [`GET ${normalizePath("/supported")}`, "/supported"],
+    [`POST ${normalizePath("/verify")}`, "/verify"],
+    [`POST ${normalizePath("/settle")}`, "/settle"],
+    [`POST ${normalizePath("/settle/status")}`, "/settle/status"],
+    [`POST ${normalizePath("/challenge")}`, "/challenge"],
+  ]);
+  const metricsPath = normalizePath("/metrics");
+  const ledgerPath = normalizePath("/ledger");
+  const settlementPrefix = normalizePath("/settle/");
+
+  return async (ctx, next) => {
+    if (options.metrics && ctx.method === "GET" && ctx.path === metricsPath) {
+      ctx.status = 200;
+      ctx.type = METRICS_CONTENT_TYPE;
+      ctx.body = facilitator.renderMetrics();
+      return;
+    }
+    if (options.ledger && ctx.method === "GET" && ctx.path === ledgerPath) {
+      try {
+        const response = await serveLedger(facilitator.ledger, new URLSearchParams(ctx.querystring));
+        ctx.status = response.status;
+        ctx.type = response.contentType;
+        ctx.body = typeof response.body === "string" ? response.body : Readable.from(response.body);
+      } catch (error) {
+        ctx.status = 500;
+        ctx.body = formatError(error);
+      }
+      return;
+    }
+    let path = routes.get(`${ctx.method} ${ctx.path}`);
+    const settlementId = ctx.path.startsWith(settlementPrefix) ? ctx.path.slice(settlementPrefix.length) : "";
+    if (!path && ctx.method === "GET" && /^[^/]+$/.test(settlementId)) path = `/settle/${settlementId}`;
+    if (!path) return next();
+    try {
+      const method = ctx.method as HandlerRequest["method"];
+      const response = await facilitator.handleRequest({
+        method,
+        path,
+        body: method === "POST" ? await getKoaRequestBody(ctx) : undefined,
+        requestId: path === "/verify" || path === "/settle" ? ctx.get("x-request-id") || undefined : undefined,
+        respondAsync: path === "/settle" && prefersAsync(ctx.get("prefer")),
+      });
+      ctx.status = response.status;
+      ctx.body = response.body;
+    } catch (error) {
+      if (answerPayloadTooLarge(ctx, error)) return;
+      ctx.status = 500;
+      ctx.body = formatError(error);
+    }
+  };
+}
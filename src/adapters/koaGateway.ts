@@ -0,0 +1,167 @@
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import type { Context, Middleware } from "koa";
+import {
+  type GatewayOptions,
+  aggregateSupportedKinds,
+  handleGatewayVerify,
+  handleGatewaySettle,
+  handleGatewaySettlementStatus,
+  handleGatewayRegister,
+  handleGatewayDeregister,
+  handleGatewayWebhookSubscribe,
+  type GatewayHandle,
+  createGatewayContext,
+  toGatewayHandle,
+} from "../gateway/core.js";
+import type { ForwardBody } from "../gateway/types.js";
+import { answerPayloadTooLarge, getKoaRequestBody } from "./koaAdapter.js";
+import { METRICS_CONTENT_TYPE } from "../metrics.js";
+import { serveLedger } from "../ledger.js";
+import { prefersAsync } from "../payment.js";
+
+export type KoaGatewayOptions = GatewayOptions;
+
+export type KoaGatewayMiddleware = Middleware & {
+  /** Drains or closes the gateway; see `GatewayHandle`. */
+  gateway: GatewayHandle;
+};
+
+/**
+ * Creates Koa middleware that acts as an HTTP gateway, routing verify/settle
+ * requests across multiple facilitator nodes with sticky routing. Other requests
+ * pass through to `next`. Use it with `app.use(createKoaGatewayAdapter(opts))`.
+ *
+ * Routes exposed (relative to `options.basePath`):
+ *   GET  /supported   — aggregated kinds from all peers
+ *   POST /verify      — random capable node, sticky selection recorded
+ *   POST /settle      — sticky node from verify, fallback to others; `Prefer: respond-async` answers 202
+ *   GET  /settle/:id  — state of an asynchronous settle, from the node that accepted it
+ *   POST /register    — node self-registration
+ *   POST /deregister  — node removal, e.g. on shutdown
+ *   POST /webhooks    — settlement webhook subscription for a `payTo`, when `webhooks.subscribeAuth` is set
+ *   GET  /peers       — diagnostic: active peers plus each known peer's circuit state
+ *   GET  /metrics     — Prometheus metrics, when `metrics: true`
+ *   GET  /ledger      — recorded verifies and settles, when `serveLedger: true`
+ *
+ * The middleware's `gateway` property drains or closes the gateway.
+ */
+export function createKoaGatewayAdapter(options: KoaGatewayOptions): KoaGatewayMiddleware {
+  const basePath = options.basePath ?? "";
+  const gw = createGatewayContext(options);
+
+  function normalizePath(path: string): string {
+    const p = basePath + path;
+    return p || "/";
+  }
+
+  const routes = new Map<string, (ctx: Context) => Promise<void> | void>();
+
+  // GET /supported — aggregate from peers
+  routes.set(`GET ${normalizePath("/supported")}`, async (ctx) => {
+    ctx.body = { kinds: await aggregateSupportedKinds(await gw.peers()) };
+  });
+
+  // POST /verify — single randomly selected node supporting the network (stick to this node by payer/header)
+  routes.set(`POST ${normalizePath("/verify")}`, async (ctx) => {
+    const r = await handleGatewayVerify({
+      ...gw,
+      peers: await gw.peers(),
+      inbound: (await getKoaRequestBody(ctx)) as ForwardBody,
+      requestId: ctx.get("x-request-id") || randomUUID(),
+    });
+    ctx.status = r.status;
+    ctx.body = r.body;
+  });
+
+  // POST /settle — use the same selected node (sticky by payer/header); fallback to others on failure
+  routes.set(`POST ${normalizePath("/settle")}`, async (ctx) => {
+    const r = await handleGatewaySettle({
+      ...gw,
+      peers: await gw.peers(),
+      inbound: (await getKoaRequestBody(ctx)) as ForwardBody,
+      idempotencyKey: ctx.get("idempotency-key") || undefined,
+      respondAsync: prefersAsync(ctx.get("prefer")),
+      requestId: ctx.get("x-request-id") || randomUUID(),
+    });
+    ctx.status = r.status;
+    ctx.body = r.body;
+  });
+
+  // GET /settle/:id — asynchronous settle state, from the node that accepted it
+  const settlementPrefix = normalizePath("/settle/");
+  const settlementStatus = async (ctx: Context, settlementId: string) => {
+    const r = await handleGatewaySettlementStatus({
+      ...gw,
+      peers: await gw.peers(),
+      settlementId: decodeURIComponent(settlementId),
+      requestId: ctx.get("x-request-id") || randomUUID(),
+    });
+    ctx.status = r.status;
+    ctx.body = r.body;
+  };
+
+  // POST /register — nodes can self-register with the gateway
+  routes.set(`POST ${normalizePath("/register")}`, async (ctx) => {
+    const r = await handleGatewayRegister(gw.registry, await getKoaRequestBody(ctx), options.registrationAuth);
+    ctx.status = r.status;
+    ctx.body = r.body;
+  });
+
+  // POST /deregister — nodes leaving the pool are dropped at once instead of after the registry TTL
+  routes.set(`POST ${normalizePath("/deregister")}`, async (ctx) => {
+    const r = await handleGatewayDeregister(gw.registry, await getKoaRequestBody(ctx), options.registrationAuth);
+    ctx.status = r.status;
+    ctx.body = r.body;
+  });
+
+  // POST /webhooks — merchants subscribe to settlement outcomes for their payTo (with webhooks.subscribeAuth)
+  if (gw.webhooks?.subscribeAuth) {
+    routes.set(`POST ${normalizePath("/webhooks")}`, async (ctx) => {
+      const inbound = await getKoaRequestBody(ctx);
+      const r = await handleGatewayWebhookSubscribe(gw.webhooks, inbound);
+      ctx.status = r.status;
+      ctx.body = r.body;
+    });
+  }
+
+  // GET /peers — diagnostic endpoint
+  routes.set(`GET ${normalizePath("/peers")}`, async (ctx) => {
+    ctx.body = { peers: await gw.peers(), details: await gw.describePeers() };
+  });
+
+  // GET /metrics — Prometheus scrape endpoint (opt-in)
+  const metrics = gw.metrics;
+  if (metrics) {
+    routes.set(`GET ${normalizePath("/metrics")}`, async (ctx) => {
+      ctx.type = METRICS_CONTENT_TYPE;
+      ctx.body = await metrics.render();
+    });
+  }
+
+  // GET /ledger — recorded verifies and settles, with filters and CSV/JSONL export (opt-in)
+  if (options.serveLedger) {
+    routes.set(`GET ${normalizePath("/ledger")}`, async (ctx) => {
+      const r = await serveLedger(gw.ledger, new URLSearchParams(ctx.querystring));
+      ctx.status = r.status;
+      ctx.type = r.contentType;
+      ctx.body = typeof r.body === "string" ? r.body : Readable.from(r.body);
+    });
+  }
+
+  const middleware: Middleware = async (ctx, next) => {
+    const route = routes.get(`${ctx.method} ${ctx.path}`);
+    if (route) {
+      try {
+        return await route(ctx);
+      } catch (error) {
+        if (!answerPayloadTooLarge(ctx, error)) throw error;
+        return;
+      }
+    }
+    const settlementId = ctx.path.startsWith(settlementPrefix) ? ctx.path.slice(settlementPrefix.length) : "";
+    if (ctx.method === "GET" && /^[^/]+$/.test(settlementId)) return settlementStatus(ctx, settlementId);
+    return next();
+  };
+  return Object.assign(middleware, { gateway: toGatewayHandle(gw) });
+}
@@ -0,0 +1,69 @@
+import type { IncomingMessage } from "node:http";
+
+export const BODY_LIMIT_BYTES = 100 * 1024; // as express.json's default
+
+/**
+ * A request body larger than the limit; answered with 413.
+ */
+export class PayloadTooLargeError extends Error {
+  readonly status = 413;
+
+  constructor(readonly limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * Reads a request body of at most `limit` bytes. Larger bodies reject with a
+ * `PayloadTooLargeError` without being buffered; the rest of the body is discarded
+ * as it arrives, so the 413 can still be sent.
+ */
+export function readBody(req: IncomingMessage, limit = BODY_LIMIT_BYTES): Promise<Buffer> {
+  if (Number(req.headers["content-length"]) > limit) return Promise.reject(new PayloadTooLargeError(limit));
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const cleanup = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.off("error", onError);
+    };
+    const onData = (chunk: Buffer | string) => {
+      const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > limit) {
+        cleanup();
+        reject(new PayloadTooLargeError(limit));
+        return;
+      }
+      chunks.push(buffer);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", onError);
+  });
+}
+
+/**
+ * Reads and parses a JSON request body for frameworks without a built-in parser.
+ * An empty or unparseable body reads as undefined, and is rejected by the handler's own validation.
+ * Throws a `PayloadTooLargeError` for bodies over `limit` bytes.
+ */
+export async function readJsonBody(req: IncomingMessage, limit = BODY_LIMIT_BYTES): Promise<unknown> {
+  const body = await readBody(req, limit);
+  if (body.length === 0) return undefined;
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,395 @@
+// Config files for the `x402-open` CLI: YAML or JSON, with `${VAR}` references and
+// environment overrides, validated with zod and mapped onto the library's options.
+
+import fs from "node:fs";
+import { type Tags, parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { type Network, evm } from "x402/types";
+import { type Chain, defineChain } from "viem";
+import type { EvmNetworkConfig, FacilitatorConfig } from "../facilitator.js";
+import type { GatewayOptions } from "../gateway/core.js";
+import type { NodeRegistrarOptions } from "../registrar.js";
+import { FileStateStore } from "../gateway/fileStore.js";
+import { FileScreeningList } from "../screening.js";
+import { JsonlFileLedger } from "../fileLedger.js";
+import { createRemoteSignerProvider } from "../signers.js";
+import { dnsGatewayProvider } from "../discovery.js";
+
+export type Command = "node" | "gateway" | "register";
+
+const url = z.string().url();
+const urls = z.union([url, z.array(url)]);
+const amount = z.union([z.string().regex(/^\d+$/, "Expected an integer amount"), z.number().int().nonnegative()]);
+
+const logging = {
+  logLevel: z.enum(["debug", "info", "warn", "error", "silent"]).default("info"),
+  redactPayers: z.boolean().optional(),
+};
+
+const listen = {
+  port: z.coerce.number().int().min(0).max(65535),
+  host: z.string().optional(),
+  basePath: z.string().default("/facilitator"),
+  metrics: z.boolean().optional(),
+  /** Records verifies and settles in a `JsonlFileLedger`. */
+  ledgerFile: z.string().optional(),
+  /** Serve the ledger on `GET /ledger`. */
+  serveLedger: z.boolean().optional(),
+};
+
+/** Settlement webhooks, see `WebhookDispatcher`. */
+const webhookOptions = {
+  subscriptions: z
+    .array(
+      z
+        .object({
+          id: z.string().min(1).optional(),
+          payTo: z.string().min(1),
+          url,
+          secret: z.string().min(1),
+          events: z.array(z.enum(["settlement.confirmed", "settlement.failed"])).optional(),
+        })
+        .strict()
+    )
+    .optional(),
+  maxAttempts: z.number().int().positive().optional(),
+  initialBackoffMs: z.number().int().positive().optional(),
+  maxBackoffMs: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+};
+const webhooks = z.object(webhookOptions).strict().optional();
+
+const secrets = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+/** Gateways also take subscriptions on `POST /webhooks`. */
+const gatewayWebhooks = z
+  .object({
+    ...webhookOptions,
+    subscribeAuth: z
+      .object({
+        secret: secrets.optional(),
+        payToSecrets: z.record(secrets).optional(),
+        maxSkewMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    maxSubscriptionsPerPayTo: z.number().int().positive().optional(),
+    subscriptionTtlMs: z.number().int().positive().optional(),
+    allowPrivateUrls: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
+const registration = {
+  gatewayUrls: z.array(url).min(1).optional(),
+  /** Gateways listed in DNS, see `dnsGatewayProvider`. */
+  gatewayDns: z
+    .object({
+      name: z.string().min(1),
+      type: z.enum(["srv", "txt"]),
+      protocol: z.enum(["http", "https"]).optional(),
+      path: z.string().optional(),
+    })
+    .strict()
+    .optional(),
+  intervalMs: z.number().int().positive().optional(),
+  registrationSecret: z.string().min(1).optional(),
+};
+
+const requireGateways = (config: { gatewayUrls?: string[]; gatewayDns?: object }, ctx: z.RefinementCtx) => {
+  if (!config.gatewayUrls && !config.gatewayDns) {
+    ctx.addIssue({ code: "custom", path: ["gatewayUrls"], message: "Required unless gatewayDns is set" });
+  }
+};
+
+const customChainSchema = z
+  .object({
+    id: z.number().int().positive(),
+    name: z.string(),
+    /** Network slug; defaults to `eip155:<id>`. */
+    network: z.string().optional(),
+    rpcUrl: url,
+    nativeCurrency: z
+      .object({ name: z.string(), symbol: z.string(), decimals: z.number().int() })
+      .default({ name: "Ether", symbol: "ETH", decimals: 18 }),
+  })
+  .strict();
+
+const nodeSchema = z
+  .object({
+    ...listen,
+    port: listen.port.default(4101),
+    ...logging,
+    evmPrivateKey: z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{64}$/, "Expected a 0x-prefixed 32-byte hex key")
+      .optional(),
+    svmPrivateKey: z.string().min(1).optional(),
+    svmRpcUrl: url.optional(),
+    rpcUrls: z.record(urls).optional(),
+    /** x402 network names (`base-sepolia`) or chains x402 does not know. */
+    evmNetworks: z.array(z.union([z.string(), customChainSchema])).default([]),
+    svmNetworks: z.array(z.string()).optional(),
+    remoteSigner: z
+      .object({
+        url,
+        address: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+        headers: z.record(z.string()).optional(),
+        networks: z.array(z.string()).optional(),
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    policy: z
+      .object({
+        assets: z.record(z.array(z.string())).optional(),
+        allowPayTo: z.array(z.string()).optional(),
+        denyPayTo: z.array(z.string()).optional(),
+        minAmount: amount.optional(),
+        maxAmount: amount.optional(),
+        maxTimeoutSeconds: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    /** Denylist for `FileScreeningList`. */
+    screeningFile: z.string().optional(),
+    webhooks,
+    /** Enables `callbackUrl` on asynchronous settles. */
+    settlementCallbacks: z
+      .object({ secret: z.string().min(1), allowPrivateUrls: z.boolean().optional() })
+      .strict()
+      .optional(),
+    settlementQueue: z
+      .union([
+        z.boolean(),
+        z
+          .object({
+            maxInFlight: z.number().int().positive().optional(),
+            resubmitAfterMs: z.number().int().positive().optional(),
+            maxResubmits: z.number().int().nonnegative().optional(),
+            feeBumpPercent: z.number().int().min(10).optional(),
+            pollingIntervalMs: z.number().int().positive().optional(),
+          })
+          .strict(),
+      ])
+      .optional(),
+    /** Register this node with gateways; `nodeBaseUrl` is the URL gateways reach it on. */
+    register: z
+      .object({ ...registration, nodeBaseUrl: url })
+      .strict()
+      .superRefine(requireGateways)
+      .optional(),
+  })
+  .strict();
+
+const gatewaySchema = z
+  .object({
+    ...listen,
+    port: listen.port.default(8080),
+    ...logging,
+    httpPeers: z.array(url).default([]),
+    /** Shares gateway state between processes on one host through `FileStateStore`. */
+    stateFile: z.string().optional(),
+    healthCheck: z
+      .union([
+        z.literal(false),
+        z
+          .object({
+            intervalMs: z.number().int().positive().optional(),
+            timeoutMs: z.number().int().positive().optional(),
+            path: z.string().optional(),
+            failureThreshold: z.number().int().positive().optional(),
+            openDurationMs: z.number().int().positive().optional(),
+          })
+          .strict(),
+      ])
+      .optional(),
+    registrationAuth: z
+      .object({
+        secret: secrets,
+        maxSkewMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    registrationChallenge: z
+      .union([
+        z.boolean(),
+        z.object({ echo: z.boolean().optional(), timeoutMs: z.number().int().positive().optional() }).strict(),
+      ])
+      .optional(),
+    routing: z.enum(["random", "round-robin", "least-inflight", "ewma-latency", "success-rate"]).optional(),
+    webhooks: gatewayWebhooks,
+  })
+  .strict();
+
+const registerSchema = z
+  .object({ ...logging, ...registration, nodeBaseUrl: url })
+  .strict()
+  .superRefine(requireGateways);
+
+export type NodeConfig = z.infer<typeof nodeSchema>;
+export type GatewayConfig = z.infer<typeof gatewaySchema>;
+export type RegisterConfig = z.infer<typeof registerSchema>;
+
+type ConfigFor<C extends Command> = C extends "node"
+  ? NodeConfig
+  : C extends "gateway"
+    ? GatewayConfig
+    : RegisterConfig;
+
+const schemas = { node: nodeSchema, gateway: gatewaySchema, register: registerSchema };
+
+type Env = Record<string, string | undefined>;
+
+const list = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+/**
+ * Environment variables that override config values, by command. Secrets can
+ * then stay out of config files entirely.
+ */
+const ENV_OVERRIDES: Record<Command, Record<string, (config: Record<string, unknown>, value: string) => void>> = {
+  node: {
+    PORT: (c, v) => (c.port = v),
+    HOST: (c, v) => (c.host = v),
+    X402_LOG_LEVEL: (c, v) => (c.logLevel = v),
+    X402_EVM_PRIVATE_KEY: (c, v) => (c.evmPrivateKey = v),
+    X402_SVM_PRIVATE_KEY: (c, v) => (c.svmPrivateKey = v),
+    X402_SVM_RPC_URL: (c, v) => (c.svmRpcUrl = v),
+  },
+  gateway: {
+    PORT: (c, v) => (c.port = v),
+    HOST: (c, v) => (c.host = v),
+    X402_LOG_LEVEL: (c, v) => (c.logLevel = v),
+    X402_HTTP_PEERS: (c, v) => (c.httpPeers = list(v)),
+    X402_REGISTRATION_SECRET: (c, v) => (c.registrationAuth = { ...(c.registrationAuth as object), secret: v }),
+  },
+  register: {
+    X402_LOG_LEVEL: (c, v) => (c.logLevel = v),
+    X402_GATEWAY_URLS: (c, v) => (c.gatewayUrls = list(v)),
+    X402_NODE_BASE_URL: (c, v) => (c.nodeBaseUrl = v),
+    X402_REGISTRATION_SECRET: (c, v) => (c.registrationSecret = v),
+  },
+};
+
+/**
+ * Replaces `${VAR}` in every string of `value` with the variable's value.
+ */
+function interpolate(value: unknown, env: Env, path: string): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_m, name: string) => {
+      const v = env[name];
+      if (v === undefined) throw new Error(`${path || "config"}: environment variable ${name} is not set`);
+      return v;
+    });
+  }
+  if (Array.isArray(value)) return value.map((v, i) => interpolate(v, env, `${path}.${i}`));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, interpolate(v, env, path ? `${path}.${k}` : k)])
+    );
+  }
+  return value;
+}
+
+const keepHexStrings = (tags: Tags) => tags.filter((tag) => typeof tag === "string" || tag.format !== "HEX");
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join(".") || "config"}: ${i.message}`).join("\n");
+}
+
+/**
+ * Reads and validates the config for `command` from `configPath` (YAML or JSON;
+ * optional) and `env`. Throws an error listing every invalid field.
+ */
+export function loadConfig<C extends Command>(command: C, configPath: string | undefined, env: Env): ConfigFor<C> {
+  let raw: unknown = {};
+  if (configPath) {
+    // YAML is a superset of JSON, so one parser reads both. Hex integers are kept as
+    // strings: unquoted keys and addresses are 0x-prefixed and must not become numbers.
+    raw = parseYaml(fs.readFileSync(configPath, "utf8"), { customTags: keepHexStrings }) ?? {};
+    if (typeof raw !== "object" || Array.isArray(raw)) throw new Error(`${configPath}: expected a mapping of options`);
+  }
+  const config = interpolate(raw, env, "") as Record<string, unknown>;
+  for (const [name, apply] of Object.entries(ENV_OVERRIDES[command])) {
+    const value = env[name];
+    if (value !== undefined && value !== "") apply(config, value);
+  }
+  const parsed = schemas[command].safeParse(config);
+  if (!parsed.success) throw new Error(formatIssues(parsed.error));
+  return parsed.data as ConfigFor<C>;
+}
+
+function toEvmNetwork(entry: NodeConfig["evmNetworks"][number]): EvmNetworkConfig {
+  if (typeof entry === "string") return { chain: evm.getChainFromNetwork(entry as Network), network: entry };
+  const chain: Chain = defineChain({
+    id: entry.id,
+    name: entry.name,
+    nativeCurrency: entry.nativeCurrency,
+    rpcUrls: { default: { http: [entry.rpcUrl] } },
+  });
+  return { chain, network: entry.network };
+}
+
+export function toFacilitatorConfig(config: NodeConfig): FacilitatorConfig {
+  return {
+    logLevel: config.logLevel,
+    redactPayers: config.redactPayers,
+    evmPrivateKey: config.evmPrivateKey as `0x${string}` | undefined,
+    svmPrivateKey: config.svmPrivateKey,
+    svmRpcUrl: config.svmRpcUrl,
+    rpcUrls: config.rpcUrls,
+    evmNetworks: config.evmNetworks.map(toEvmNetwork),
+    svmNetworks: config.svmNetworks,
+    signerProvider: config.remoteSigner
+      ? createRemoteSignerProvider({
+          ...config.remoteSigner,
+          address: config.remoteSigner.address as `0x${string}` | undefined,
+          networks: config.remoteSigner.networks as Network[] | undefined,
+          rpcUrls: config.rpcUrls,
+        })
+      : undefined,
+    policy: config.policy,
+    screening: config.screeningFile ? new FileScreeningList(config.screeningFile).screen : undefined,
+    settlementQueue: config.settlementQueue,
+    ledger: config.ledgerFile ? new JsonlFileLedger(config.ledgerFile) : undefined,
+    webhooks: config.webhooks,
+    settlementCallbacks: config.settlementCallbacks,
+    nodeName: config.register?.nodeBaseUrl,
+    metrics: config.metrics ?? false,
+  };
+}
+
+export function toGatewayOptions(config: GatewayConfig): GatewayOptions {
+  return {
+    logLevel: config.logLevel,
+    redactPayers: config.redactPayers,
+    basePath: config.basePath,
+    httpPeers: config.httpPeers,
+    metrics: config.metrics,
+    store: config.stateFile ? new FileStateStore(config.stateFile) : undefined,
+    healthCheck: config.healthCheck,
+    registrationAuth: config.registrationAuth,
+    registrationChallenge: config.registrationChallenge,
+    routing: config.routing,
+    ledger: config.ledgerFile ? new JsonlFileLedger(config.ledgerFile) : undefined,
+    serveLedger: config.serveLedger,
+    webhooks: config.webhooks,
+  };
+}
+
+export function toRegistrarOptions(
+  config: RegisterConfig | (NonNullable<NodeConfig["register"]> & Pick<RegisterConfig, "logLevel">)
+): NodeRegistrarOptions {
+  return {
+    logLevel: config.logLevel,
+    gatewayUrls: config.gatewayUrls,
+    gatewayProvider: config.gatewayDns ? dnsGatewayProvider(config.gatewayDns) : undefined,
+    nodeBaseUrl: config.nodeBaseUrl,
+    intervalMs: config.intervalMs,
+    registrationSecret: config.registrationSecret,
+  };
+}
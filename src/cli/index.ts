@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+// `x402-open node|gateway|register --config <file>`: runs a facilitator node, a gateway
+// or a standalone registrar from a YAML/JSON config file and environment variables.
+
+import type { Server } from "node:http";
+import { parseArgs } from "node:util";
+import type { SupportedPaymentKind } from "x402/types";
+import { Facilitator } from "../facilitator.js";
+import { createFetchHandler, createGatewayFetchHandler } from "../fetch.js";
+import { type Logger, createConsoleLogger } from "../logger.js";
+import { startGatewayRegistration } from "../registrar.js";
+import {
+  type Command,
+  loadConfig,
+  toFacilitatorConfig,
+  toGatewayOptions,
+  toRegistrarOptions,
+} from "./config.js";
+import { createServer, listen } from "./server.js";
+
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+const USAGE = `Usage: x402-open <command> [--config <file>]
+
+Commands:
+  node       Run a facilitator node
+  gateway    Run a gateway in front of facilitator nodes
+  register   Register an already running node with gateways
+
+Options:
+  -c, --config <file>  YAML or JSON config file (default: $X402_CONFIG)
+  -h, --help           Show this help
+
+Environment variables override the config file: PORT, HOST, X402_LOG_LEVEL,
+X402_EVM_PRIVATE_KEY, X402_SVM_PRIVATE_KEY, X402_SVM_RPC_URL (node),
+X402_HTTP_PEERS, X402_REGISTRATION_SECRET (gateway), X402_GATEWAY_URLS,
+X402_NODE_BASE_URL, X402_REGISTRATION_SECRET (register).
+`;
+
+const COMMANDS: readonly Command[] = ["node", "gateway", "register"];
+
+type Running = {
+  server?: Server;
+  stopRegistration?: () => Promise<void>;
+  drain?: () => Promise<void>;
+  close?: () => Promise<void>;
+};
+
+async function runNode(configPath: string | undefined, log: Logger): Promise<Running> {
+  const config = loadConfig("node", configPath, process.env);
+  const facilitator = new Facilitator(toFacilitatorConfig(config));
+  const server = createServer(
+    createFetchHandler(facilitator, { basePath: config.basePath, metrics: config.metrics, ledger: config.serveLedger }),
+    log
+  );
+  const address = await listen(server, config.port, config.host);
+  log.info({ address, basePath: config.basePath }, "facilitator node listening");
+
+  let stopRegistration: (() => Promise<void>) | undefined;
+  if (config.register) {
+    const kindsProvider = async () => {
+      const r = await facilitator.handleRequest({ method: "GET", path: "/supported" });
+      return (r.body as { kinds: SupportedPaymentKind[] }).kinds;
+    };
+    stopRegistration = startGatewayRegistration({
+      ...toRegistrarOptions({ ...config.register, logLevel: config.logLevel }),
+      kindsProvider,
+    });
+  }
+  return { server, stopRegistration };
+}
+
+async function runGateway(configPath: string | undefined, log: Logger): Promise<Running> {
+  const config = loadConfig("gateway", configPath, process.env);
+  const handler = createGatewayFetchHandler(toGatewayOptions(config));
+  const server = createServer(handler, log);
+  const address = await listen(server, config.port, config.host);
+  log.info({ address, basePath: config.basePath, peers: config.httpPeers.length }, "gateway listening");
+  return { server, drain: handler.gateway.drain, close: handler.gateway.close };
+}
+
+async function runRegister(configPath: string | undefined, log: Logger): Promise<Running> {
+  const config = loadConfig("register", configPath, process.env);
+  const nodeBaseUrl = config.nodeBaseUrl.replace(/\/$/, "");
+  // Kinds are re-read from the node on every heartbeat, so gateways follow its configuration
+  const kindsProvider = async () => {
+    const res = await fetch(`${nodeBaseUrl}/supported`, { signal: AbortSignal.timeout(5_000) });
+    if (!res.ok) throw new Error(`GET /supported answered ${res.status}`);
+    return ((await res.json()) as { kinds: SupportedPaymentKind[] }).kinds;
+  };
+  const gateways = { gateways: config.gatewayUrls, dns: config.gatewayDns?.name };
+  log.info({ nodeBaseUrl, ...gateways }, "registering node with gateways");
+  return { stopRegistration: startGatewayRegistration({ ...toRegistrarOptions(config), kindsProvider }) };
+}
+
+/**
+ * Deregisters from gateways, or drains a gateway for up to `SHUTDOWN_TIMEOUT_MS`,
+ * then lets in-flight requests finish before exiting; exits anyway after a
+ * further `SHUTDOWN_TIMEOUT_MS`.
+ */
+function handleShutdown(running: Running, log: Logger) {
+  let stopping = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (stopping) return;
+    stopping = true;
+    log.info({ signal }, "shutting down");
+    if (running.drain) {
+      // Settles of payments verified here are still served while new verifies get 503
+      const drained = running.drain().catch((e: unknown) => {
+        log.warn({ error: e instanceof Error ? e.message : String(e) }, "gateway drain failed");
+      });
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          log.warn({ timeoutMs: SHUTDOWN_TIMEOUT_MS }, "gateway drain timed out; closing");
+          resolve();
+        }, SHUTDOWN_TIMEOUT_MS);
+      });
+      await Promise.race([drained, timedOut]);
+      clearTimeout(timer);
+    }
+    setTimeout(() => {
+      log.warn({ timeoutMs: SHUTDOWN_TIMEOUT_MS }, "shutdown timed out; exiting");
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+    // Gateways stop routing here before the server stops answering
+    await running.stopRegistration?.();
+    if (!running.server) return process.exit(0);
+    const closed = running.close?.() ?? Promise.resolve();
+    running.server.close(() => closed.then(() => process.exit(0)));
+    running.server.closeIdleConnections();
+  };
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: { config: { type: "string", short: "c" }, help: { type: "boolean", short: "h" } },
+  });
+  const command = positionals[0] as Command | undefined;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 1;
+  }
+  if (!COMMANDS.includes(command) || positionals.length > 1) {
+    process.stderr.write(`Unknown command: ${positionals.join(" ")}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const configPath = values.config ?? process.env.X402_CONFIG;
+  const log = createConsoleLogger({ level: "info", name: "cli" });
+  const run = command === "node" ? runNode : command === "gateway" ? runGateway : runRegister;
+  let running: Running;
+  try {
+    running = await run(configPath, log);
+  } catch (e: unknown) {
+    process.stderr.write(`x402-open ${command}: ${e instanceof Error ? e.message : String(e)}\n`);
+    return 1;
+  }
+  handleShutdown(running, log);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    if (code !== 0) process.exit(code);
+  },
+  (e: unknown) => {
+    process.stderr.write(`${e instanceof Error ? e.stack : String(e)}\n`);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,51 @@
+// Serves a fetch handler over node:http, so the CLI needs no web framework.
+
+import http from "node:http";
+import type { FetchHandler } from "../fetch.js";
+import type { Logger } from "../logger.js";
+import { PayloadTooLargeError, readBody } from "../adapters/shared/readJsonBody.js";
+
+async function toRequest(req: http.IncomingMessage, origin: string): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach((v) => headers.append(name, v));
+    else if (value !== undefined) headers.set(name, value);
+  }
+  const method = req.method ?? "GET";
+  // Request bodies here are JSON, so reading them as text is enough
+  const body = method !== "GET" && method !== "HEAD" ? (await readBody(req)).toString("utf8") : undefined;
+  return new Request(new URL(req.url ?? "/", origin), { method, headers, body });
+}
+
+/**
+ * Creates (without starting) an HTTP server that answers every request with `handler`.
+ */
+export function createServer(handler: FetchHandler, log: Logger): http.Server {
+  return http.createServer(async (req, res) => {
+    try {
+      const response = await handler(await toRequest(req, `http://${req.headers.host ?? "localhost"}`));
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (e: unknown) {
+      if (e instanceof PayloadTooLargeError) {
+        res.writeHead(413, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: e.message }));
+        return;
+      }
+      log.error({ error: e instanceof Error ? e.message : String(e) }, "request failed");
+      if (!res.headersSent) res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: "Internal Server Error" }));
+    }
+  });
+}
+
+export function listen(server: http.Server, port: number, host?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      const address = server.address();
+      resolve(typeof address === "string" ? address : `http://${host ?? "localhost"}:${address?.port ?? port}`);
+    });
+  });
+}
@@ -0,0 +1,47 @@
+// Gateway discovery for the registrar: DNS records listing the gateways a node registers with.
+
+import dns from "node:dns/promises";
+
+export type DnsGatewayDiscoveryOptions = {
+  /** Record name, e.g. `_x402-gateway._tcp.example.com`. */
+  name: string;
+  /**
+   * `srv`: every target becomes `<protocol>://<target>:<port><path>`.
+   * `txt`: every record holds one or more gateway URLs, separated by whitespace or commas.
+   */
+  type: "srv" | "txt";
+  /** Scheme for SRV targets; defaults to `https`. */
+  protocol?: "http" | "https";
+  /** Path appended to SRV targets; defaults to `/facilitator`. */
+  path?: string;
+  /** Defaults to the system resolver; pass a stub in tests or a `dns.promises.Resolver` with custom servers. */
+  resolver?: Pick<typeof dns, "resolveSrv" | "resolveTxt">;
+};
+
+const DEFAULT_PORTS = { http: 80, https: 443 } as const;
+
+/**
+ * A `gatewayProvider` for `startGatewayRegistration` that reads the gateway fleet
+ * from DNS, so nodes follow gateways being added or removed without a restart.
+ */
+export function dnsGatewayProvider(options: DnsGatewayDiscoveryOptions): () => Promise<string[]> {
+  const resolver = options.resolver ?? dns;
+  const protocol = options.protocol ?? "https";
+  const path = options.path ?? "/facilitator";
+
+  return async () => {
+    if (options.type === "srv") {
+      const records = await resolver.resolveSrv(options.name);
+      return records.map(({ name, port }) => {
+        const host = name.replace(/\.$/, "");
+        const authority = port === DEFAULT_PORTS[protocol] ? host : `${host}:${port}`;
+        return `${protocol}://${authority}${path}`;
+      });
+    }
+    const records = await resolver.resolveTxt(options.name);
+    // Long TXT records arrive split into chunks of at most 255 characters
+    return records
+      .flatMap((chunks) => chunks.join("").split(/[\s,]+/))
+      .filter((url) => /^https?:\/\//i.test(url));
+  };
+}
@@ -0,0 +1,227 @@
+// The `exact` EVM scheme (EIP-3009 transferWithAuthorization) for chains x402 has no built-in config for.
+// Mirrors x402's own implementation, but takes the chain and token domain from the client and the token.
+
+import type { ExactEvmPayload, PaymentPayload, PaymentRequirements, SettleResponse, VerifyResponse } from "x402/types";
+import {
+  type Account,
+  type Address,
+  type Chain,
+  type Client,
+  type Hex,
+  type PublicActions,
+  type RpcSchema,
+  type Transport,
+  type WalletActions,
+  getAddress,
+  parseErc6492Signature,
+} from "viem";
+import type { ContractCall, MinedTransaction } from "./settlementQueue.js";
+
+/** Wallet client with public actions, as built by the signer providers. */
+export type ExactEvmSigner = Client<
+  Transport,
+  Chain,
+  Account,
+  RpcSchema,
+  PublicActions<Transport, Chain, Account> & WalletActions<Chain, Account>
+>;
+
+export type ExactEvmClient = Pick<PublicActions<Transport, Chain>, "readContract" | "verifyTypedData"> & {
+  chain: Chain;
+};
+
+const eip3009Abi = [
+  { type: "function", name: "name", stateMutability: "view", inputs: [], outputs: [{ type: "string" }] },
+  { type: "function", name: "version", stateMutability: "view", inputs: [], outputs: [{ type: "string" }] },
+  {
+    type: "function",
+    name: "balanceOf",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "transferWithAuthorization",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+const authorizationTypes = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+// EIP-712 domains read from token contracts, by chain id and token address
+const domains = new Map<string, { name: string; version: string }>();
+
+/**
+ * EIP-712 domain name and version of the token: from `extra` when the requirements
+ * carry them (as x402 clients sign with), else read from the contract.
+ */
+async function getTokenDomain(
+  client: ExactEvmClient,
+  asset: Address,
+  extra: PaymentRequirements["extra"]
+): Promise<{ name: string; version: string }> {
+  if (typeof extra?.name === "string" && typeof extra?.version === "string") {
+    return { name: extra.name, version: extra.version };
+  }
+  const key = `${client.chain.id}:${getAddress(asset)}`;
+  let domain = domains.get(key);
+  if (!domain) {
+    const [name, version] = await Promise.all([
+      client.readContract({ address: asset, abi: eip3009Abi, functionName: "name" }),
+      client.readContract({ address: asset, abi: eip3009Abi, functionName: "version" }),
+    ]);
+    domain = { name, version };
+    domains.set(key, domain);
+  }
+  return {
+    name: typeof extra?.name === "string" ? extra.name : domain.name,
+    version: typeof extra?.version === "string" ? extra.version : domain.version,
+  };
+}
+
+function getExactEvmPayload(payload: PaymentPayload): ExactEvmPayload | undefined {
+  return "authorization" in payload.payload ? payload.payload : undefined;
+}
+
+/**
+ * Verifies an `exact` EVM payment against the chain `client` is connected to.
+ * Answers with the same invalid reasons as x402.
+ */
+export async function verifyExactEvm(
+  client: ExactEvmClient,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<VerifyResponse> {
+  const exact = getExactEvmPayload(payload);
+  if (!exact) return { isValid: false, invalidReason: "invalid_payload" };
+  const { authorization } = exact;
+  const payer = authorization.from;
+  if (payload.scheme !== "exact" || requirements.scheme !== "exact") {
+    return { isValid: false, invalidReason: "unsupported_scheme", payer };
+  }
+
+  const asset = requirements.asset as Address;
+  let domain: { name: string; version: string };
+  try {
+    domain = await getTokenDomain(client, asset, requirements.extra);
+  } catch {
+    return { isValid: false, invalidReason: "invalid_network", payer };
+  }
+
+  const signed = await client.verifyTypedData({
+    address: authorization.from as Address,
+    types: authorizationTypes,
+    primaryType: "TransferWithAuthorization",
+    domain: { ...domain, chainId: client.chain.id, verifyingContract: asset },
+    message: {
+      from: authorization.from as Address,
+      to: authorization.to as Address,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as Hex,
+    },
+    signature: exact.signature as Hex,
+  });
+  if (!signed) return { isValid: false, invalidReason: "invalid_exact_evm_payload_signature", payer };
+
+  if (getAddress(authorization.to) !== getAddress(requirements.payTo)) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_recipient_mismatch", payer };
+  }
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  // Leave a few seconds for the settlement transaction to land
+  if (BigInt(authorization.validBefore) < now + 6n) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_before", payer };
+  }
+  if (BigInt(authorization.validAfter) > now) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_after", payer };
+  }
+  const required = BigInt(requirements.maxAmountRequired);
+  const balance = await client.readContract({
+    address: asset,
+    abi: eip3009Abi,
+    functionName: "balanceOf",
+    args: [authorization.from as Address],
+  });
+  if (balance < required) return { isValid: false, invalidReason: "insufficient_funds", payer };
+  if (BigInt(authorization.value) < required) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_value", payer };
+  }
+  return { isValid: true, invalidReason: undefined, payer };
+}
+
+/** Submits a contract call and resolves once it is mined, e.g. through a `SettlementQueue`. */
+export type SubmitContractCall = (call: ContractCall) => Promise<MinedTransaction>;
+
+/**
+ * Re-verifies an `exact` EVM payment, then submits its `transferWithAuthorization`
+ * from `wallet` and waits for the receipt. `submit` replaces the plain submission.
+ */
+export async function settleExactEvm(
+  wallet: ExactEvmSigner,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  submit: SubmitContractCall = (call) => submitFrom(wallet, call)
+): Promise<SettleResponse> {
+  const valid = await verifyExactEvm(wallet, payload, requirements);
+  const exact = getExactEvmPayload(payload);
+  if (!valid.isValid || !exact) {
+    return {
+      success: false,
+      network: payload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer: valid.payer,
+    };
+  }
+  const { authorization } = exact;
+  // A counterfactual (ERC-6492) wallet's signature is submitted unwrapped
+  const { signature } = parseErc6492Signature(exact.signature as Hex);
+  const { transaction, status } = await submit({
+    address: requirements.asset as Address,
+    abi: eip3009Abi,
+    functionName: "transferWithAuthorization",
+    args: [
+      authorization.from as Address,
+      authorization.to as Address,
+      BigInt(authorization.value),
+      BigInt(authorization.validAfter),
+      BigInt(authorization.validBefore),
+      authorization.nonce as Hex,
+      signature,
+    ],
+  });
+  return {
+    success: status === "success",
+    errorReason: status === "success" ? undefined : "invalid_transaction_state",
+    transaction,
+    network: payload.network,
+    payer: authorization.from,
+  };
+}
+
+async function submitFrom(wallet: ExactEvmSigner, call: ContractCall): Promise<MinedTransaction> {
+  const transaction = await wallet.writeContract({ ...call, chain: wallet.chain } as never);
+  const { status } = await wallet.waitForTransactionReceipt({ hash: transaction });
+  return { transaction, status };
+}
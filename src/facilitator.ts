@@ -4,33 +4,136 @@ import {
   type PaymentPayload,
   PaymentPayloadSchema,
   createConnectedClient,
-  createSigner,
   SupportedEVMNetworks,
   SupportedSVMNetworks,
   Signer,
   ConnectedClient,
   SupportedPaymentKind,
-  isSvmSignerWallet,
   type X402Config,
+  type Network,
+  ChainIdToNetwork,
+  evm,
 } from "x402/types";
 import { verify, settle } from "x402/facilitator";
+import { createPublicClient, http } from "viem";
 import type { Chain } from "viem/chains";
+import { z } from "zod";
+import {
+  type AsyncSettlementBody,
+  SCREENING_DENIED,
+  getAuthorizationPayer,
+  getPaymentPayer,
+  getSettleKeys,
+  isSettleAttempted,
+  isSettleSuccess,
+  type SettlementStatusBody,
+} from "./payment.js";
+import { MetricsRegistry, getNetworkLabel } from "./metrics.js";
+import { type Logger, type LoggingOptions, resolveLogger, redactPayer } from "./logger.js";
+import { type SignerProvider, createRawKeySignerProvider } from "./signers.js";
+import { type RpcUrls, RpcPool, createRpcTransport } from "./rpc.js";
+import { type ExactEvmSigner, settleExactEvm, verifyExactEvm } from "./exactEvm.js";
+import { type PaymentPolicy, checkPolicy, describePolicy } from "./policy.js";
+import type { ScreeningHook } from "./screening.js";
+import { type SettlementClient, type SettlementQueueOptions, SettlementQueue } from "./settlementQueue.js";
+import {
+  type LedgerEntry,
+  type LedgerOutcome,
+  type SettlementLedger,
+  createLedgerEntry,
+  getLedgerOutcome,
+} from "./ledger.js";
+import { type WebhookOptions, WebhookDispatcher, signWebhookBody } from "./webhooks.js";
+import { checkPublicUrl } from "./publicUrl.js";
+import { type FacilitatorHookContext, type FacilitatorHooks, runBeforeHooks, runAfterHooks } from "./hooks.js";
+
+export const SETTLEMENT_RECORD_TTL_MS = 10 * 60_000; // settle outcomes are remembered for 10 minutes
+export const SETTLEMENT_CALLBACK_TIMEOUT_MS = 5_000;
+
+export type SettlementCallbackOptions = {
+  /** Key of the `X-Webhook-Signature` on callbacks, checked with `verifyWebhookSignature`. */
+  secret: string;
+  /** Allow callback urls on private, loopback and link-local addresses, e.g. for local testing. */
+  allowPrivateUrls?: boolean;
+};
+
+/**
+ * An EVM chain to serve under a chosen network slug. By default a chain is served as
+ * its x402 network name when x402 knows its id, else as `eip155:<chain id>`.
+ */
+export type EvmNetworkConfig = { chain: Chain; network?: string };
 
-export type FacilitatorConfig = {
+export type FacilitatorConfig = LoggingOptions & {
   evmPrivateKey?: `0x${string}`;
   svmPrivateKey?: string;
   svmRpcUrl?: string;
+  /**
+   * RPC endpoints per network, e.g. `{ "base-sepolia": [primary, backup] }`. Requests
+   * fail over to the next endpoint, and failing endpoints are tried last for a while.
+   */
+  rpcUrls?: RpcUrls;
   // New, clearer options:
-  evmNetworks?: readonly Chain[]; // EVM chains (viem)
+  evmNetworks?: readonly (Chain | EvmNetworkConfig)[]; // EVM chains (viem), any chain with an EIP-3009 token
   svmNetworks?: readonly string[]; // e.g. ["solana-devnet"]
   // Back-compat: previously used 'networks' for EVM only
   networks?: readonly Chain[];
+  /** Supplies settlement signers instead of `evmPrivateKey`/`svmPrivateKey` (e.g. a remote signer). */
+  signerProvider?: SignerProvider;
+  /**
+   * Payments to refuse before verifying or settling them. Refusals answer with a
+   * `policy_*` reason, and the limits are advertised in `/supported`.
+   */
+  policy?: PaymentPolicy;
+  /**
+   * Screens the payer and `payTo` of every payment before verify and settle, e.g.
+   * `new FileScreeningList(path).screen`. Denials answer 403 with `screening_denied`.
+   */
+  screening?: ScreeningHook;
+  /**
+   * Sends EVM settlements through a queue per (network, signer) that assigns nonces
+   * locally, caps transactions in flight and resubmits stuck ones with higher fees.
+   * Recommended when one key settles concurrently. `true` uses the defaults; pass a
+   * `SettlementQueue` to inspect its lanes.
+   */
+  settlementQueue?: SettlementQueueOptions | SettlementQueue | boolean;
+  /**
+   * Records every verify and settle (payer, payTo, asset, amount, transaction, latency
+   * and outcome), e.g. `new JsonlFileLedger(path)`. Adapters serve it on `GET /ledger`
+   * when their `ledger` option is set.
+   */
+  ledger?: SettlementLedger;
+  /** Recorded as the `node` of ledger entries and webhook events, e.g. the node's public URL. */
+  nodeName?: string;
+  /**
+   * Tells subscribers of a `payTo` when a settlement confirms or fails, with signed
+   * deliveries that are retried. Pass a `WebhookDispatcher` to add subscriptions later.
+   */
+  webhooks?: WebhookOptions | WebhookDispatcher;
+  /**
+   * Accepts `callbackUrl` on asynchronous settles, posting the outcome there signed like a
+   * webhook delivery. Without it a settle with `callbackUrl` is answered 400.
+   */
+  settlementCallbacks?: SettlementCallbackOptions;
+  /**
+   * Runs before and after verify and settle, and on errors; hooks can answer a request
+   * themselves, replace its response or attach metadata. Several are run in order.
+   */
+  hooks?: FacilitatorHooks | readonly FacilitatorHooks[];
+  /**
+   * Record request and settlement metrics for the adapters' `/metrics` route (default
+   * `true`). With `false` nothing is recorded, and `/metrics` serves only the gauges.
+   */
+  metrics?: boolean;
 };
 
 export type HandlerRequest = {
   method: "GET" | "POST";
   path: string;
   body?: unknown;
+  /** Inbound `X-Request-Id`, included in log records. */
+  requestId?: string;
+  /** Inbound `Prefer: respond-async`: `/settle` answers `202` at once (as with `async: true` in the body). */
+  respondAsync?: boolean;
 };
 
 export type HandlerResponse<TBody = unknown> = {
@@ -38,24 +141,160 @@ export type HandlerResponse<TBody = unknown> = {
   body: TBody;
 };
 
+type SettlementRecord = {
+  state: "pending" | "settled" | "failed";
+  response?: unknown;
+  expiresAt: number;
+};
+
+type AsyncSettlementRecord = { body: AsyncSettlementBody; expiresAt: number };
+
+/** Settle responses carry the result they were counted under, for the ledger. */
+type RoutedResponse = HandlerResponse & { settleResult?: LedgerOutcome };
+
 export class Facilitator {
-  private readonly evmPrivateKey?: `0x${string}`;
-  private readonly svmPrivateKey?: string;
+  private readonly signers: SignerProvider;
   private readonly svmRpcUrl?: string;
-  private readonly evmNetworks: readonly Chain[];
+  private readonly rpc: RpcPool;
+  private readonly evmNetworks: readonly { network: string; chain: Chain }[];
+  /** Configured chains x402 has no built-in config for, by network slug; served by `exactEvm`. */
+  private readonly customChains = new Map<string, Chain>();
   private readonly svmNetworks: readonly string[];
-  private readonly x402Config: X402Config | undefined;
+  private readonly settlements = new Map<string, SettlementRecord>();
+  /** Settles accepted with `Prefer: respond-async`, by settlement id. */
+  private readonly asyncSettlements = new Map<string, AsyncSettlementRecord>();
+  private readonly logger: Logger;
+  private readonly redactPayers: boolean;
+  private readonly policy?: PaymentPolicy;
+  private readonly screening?: ScreeningHook;
+  private readonly settlementQueue?: SettlementQueue;
+  private readonly nodeName?: string;
+  private readonly hooks: readonly FacilitatorHooks[];
+  readonly ledger?: SettlementLedger;
+  readonly webhooks?: WebhookDispatcher;
+  private readonly settlementCallbacks?: SettlementCallbackOptions;
+  private readonly recordMetrics: boolean;
+  private readonly metrics = new MetricsRegistry();
+  private readonly requestCount = this.metrics.counter(
+    "x402_facilitator_requests_total",
+    "Verify and settle requests handled by the node, by route, network and status."
+  );
+  private readonly requestDuration = this.metrics.histogram(
+    "x402_facilitator_request_duration_seconds",
+    "Time to handle verify and settle requests, by route and network."
+  );
+  private readonly settlementCount = this.metrics.counter(
+    "x402_facilitator_settlements_total",
+    "Settle outcomes by network and result (success, failure, error, replayed, rejected, denied)."
+  );
 
   constructor(config: FacilitatorConfig) {
-    this.evmPrivateKey = config.evmPrivateKey;
-    this.svmPrivateKey = config.svmPrivateKey;
+    this.rpc = new RpcPool(config.rpcUrls);
+    this.signers =
+      config.signerProvider ??
+      createRawKeySignerProvider({
+        evmPrivateKey: config.evmPrivateKey,
+        svmPrivateKey: config.svmPrivateKey,
+        rpc: this.rpc,
+      });
     this.svmRpcUrl = config.svmRpcUrl;
-    this.evmNetworks = (config.evmNetworks ?? config.networks) ?? [];
-    this.svmNetworks = config.svmNetworks ?? (this.svmPrivateKey ? ["solana-devnet"] : []);
-    this.x402Config = this.svmRpcUrl ? { svmConfig: { rpcUrl: this.svmRpcUrl } } : undefined;
+    this.evmNetworks = ((config.evmNetworks ?? config.networks) ?? []).map((entry) => {
+      const chain = "chain" in entry ? entry.chain : entry;
+      return { network: ("chain" in entry && entry.network) || this.getEvmNetworkName(chain), chain };
+    });
+    for (const { network, chain } of this.evmNetworks) {
+      if (!SupportedEVMNetworks.includes(network as Network)) this.customChains.set(network, chain);
+    }
+    this.svmNetworks = config.svmNetworks ?? (config.svmPrivateKey ? ["solana-devnet"] : []);
+    this.logger = resolveLogger(config, "facilitator");
+    this.redactPayers = config.redactPayers ?? false;
+    this.policy = config.policy;
+    this.screening = config.screening;
+    this.ledger = config.ledger;
+    this.nodeName = config.nodeName;
+    this.hooks = config.hooks ? ([] as FacilitatorHooks[]).concat(config.hooks) : [];
+    this.recordMetrics = config.metrics ?? true;
+    this.settlementCallbacks = config.settlementCallbacks;
+    if (config.webhooks) {
+      this.webhooks =
+        config.webhooks instanceof WebhookDispatcher
+          ? config.webhooks
+          : new WebhookDispatcher({ logger: config.logger, logLevel: config.logLevel, ...config.webhooks });
+    }
+    this.metrics.gauge(
+      "x402_facilitator_tracked_settlements",
+      "Settle outcomes remembered for deduplication.",
+      () => this.settlements.size
+    );
+    if (config.settlementQueue) {
+      const options = config.settlementQueue === true ? {} : config.settlementQueue;
+      const queue =
+        options instanceof SettlementQueue
+          ? options
+          : new SettlementQueue({ logger: config.logger, logLevel: config.logLevel, ...options });
+      this.settlementQueue = queue;
+      this.metrics.gauge(
+        "x402_facilitator_settlement_queue_depth",
+        "EVM settles waiting in the settlement queue or with a transaction in flight.",
+        () => queue.depth
+      );
+    }
   }
 
   async handleRequest(req: HandlerRequest): Promise<HandlerResponse> {
+    if (req.path !== "/verify" && req.path !== "/settle") return this.route(req);
+    const started = performance.now();
+    const metadata: Record<string, unknown> = {};
+    const { settleResult, ...response } = await this.route(req, started, metadata);
+    const durationMs = Math.round(performance.now() - started);
+    const route = req.path.slice(1);
+    if (this.recordMetrics) {
+      const labels = { route, network: getNetworkLabel(req.body, (n) => this.isConfiguredNetwork(n)) };
+      this.requestDuration.observe(labels, durationMs / 1000);
+      this.requestCount.inc({ ...labels, status: response.status });
+    }
+    const fields = {
+      requestId: req.requestId,
+      route,
+      network: getNetworkLabel(req.body),
+      payer: redactPayer(getAuthorizationPayer((req.body ?? {}) as Record<string, unknown>), this.redactPayers),
+      status: response.status,
+      durationMs,
+      error: response.status >= 400 ? (response.body as { error?: unknown } | undefined)?.error : undefined,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    };
+    this.logger[response.status >= 400 ? "warn" : "info"](fields, `${route} handled`);
+    const kind = req.path === "/verify" ? "verify" : "settle";
+    const outcome = getLedgerOutcome(kind, response.status, response.body);
+    // An asynchronous settle is recorded once it completes
+    if (outcome && outcome.outcome !== "accepted") {
+      await this.recordLedger(req, kind, { ...outcome, outcome: settleResult ?? outcome.outcome }, durationMs);
+    }
+    return response;
+  }
+
+  /**
+   * Metrics in Prometheus text format, served by the adapters' `/metrics` route.
+   */
+  renderMetrics(): string {
+    return this.metrics.render();
+  }
+
+  private isConfiguredNetwork(network: string): boolean {
+    return this.evmNetworks.some((e) => e.network === network) || this.svmNetworks.includes(network);
+  }
+
+  private countSettlement(network: string, result: string): void {
+    if (!this.recordMetrics) return;
+    this.settlementCount.inc({ network: this.isConfiguredNetwork(network) ? network : "other", result });
+  }
+
+  private async route(
+    req: HandlerRequest,
+    started = performance.now(),
+    metadata: Record<string, unknown> = {}
+  ): Promise<RoutedResponse> {
+    let ctx: FacilitatorHookContext | undefined;
     try {
       if (req.method === "GET" && req.path === "/supported") {
         const kinds = await this.getSupportedKinds();
@@ -64,51 +303,408 @@ export class Facilitator {
 
       if (req.method === "POST" && req.path === "/verify") {
         const { paymentPayload, paymentRequirements } = this.parseBody(req.body);
-        const client = await this.getVerifyClient(paymentRequirements);
-        const valid = await verify(client, paymentPayload, paymentRequirements, this.x402Config);
-        return { status: 200, body: valid };
+        ctx = this.getHookContext(req, "verify", paymentPayload, paymentRequirements, metadata);
+        const violation = this.policy && checkPolicy(this.policy, paymentRequirements);
+        if (violation) {
+          const payer = getAuthorizationPayer({ paymentPayload });
+          return { status: 200, body: { isValid: false, invalidReason: violation, payer } };
+        }
+        const denied = await this.screen(req, paymentPayload, paymentRequirements);
+        if (denied) {
+          return { status: 403, body: { isValid: false, invalidReason: SCREENING_DENIED, payer: denied.payer } };
+        }
+        const answered = await runBeforeHooks(this.hooks, "beforeVerify", ctx);
+        if (answered) return answered;
+        let valid: unknown;
+        const chain = this.customChains.get(paymentRequirements.network);
+        if (chain) {
+          const client = this.getCustomChainClient(paymentRequirements.network, chain);
+          valid = await verifyExactEvm(client, paymentPayload, paymentRequirements);
+        } else {
+          const client = await this.getVerifyClient(paymentRequirements);
+          valid = await this.withX402Config(paymentRequirements.network, true, (config) =>
+            verify(client, paymentPayload, paymentRequirements, config)
+          );
+        }
+        return await runAfterHooks(this.hooks, "afterVerify", ctx, { status: 200, body: valid });
       }
 
       if (req.method === "POST" && req.path === "/settle") {
         const { paymentPayload, paymentRequirements } = this.parseBody(req.body);
-        const signer = await this.getSettleSigner(paymentRequirements);
-        const response = await settle(signer, paymentPayload, paymentRequirements, this.x402Config);
-        return { status: 200, body: response };
+        ctx = this.getHookContext(req, "settle", paymentPayload, paymentRequirements, metadata);
+        const options = (req.body ?? {}) as { async?: unknown; callbackUrl?: unknown };
+        const respondAsync = req.respondAsync || options.async === true;
+        const callbackUrl = await this.getCallbackUrl(options.callbackUrl);
+        const keys = getSettleKeys({ paymentPayload, paymentRequirements });
+        const network = paymentRequirements.network;
+        // Rejected before any gas is spent; not recorded, so a changed policy applies to a retry
+        const violation = this.policy && checkPolicy(this.policy, paymentRequirements);
+        if (violation) {
+          this.countSettlement(network, "rejected");
+          const payer = getAuthorizationPayer({ paymentPayload });
+          const body = { success: false, errorReason: violation, transaction: "", network, payer };
+          return { status: 200, body, settleResult: "rejected" };
+        }
+        const denied = await this.screen(req, paymentPayload, paymentRequirements);
+        if (denied) {
+          this.countSettlement(network, "denied");
+          const body = { success: false, errorReason: SCREENING_DENIED, transaction: "", network, payer: denied.payer };
+          return { status: 403, body, settleResult: "denied" };
+        }
+        const existing = this.findSettlement(keys);
+        if (existing?.state === "settled") {
+          this.countSettlement(network, "replayed");
+          return { status: 200, body: existing.response, settleResult: "replayed" };
+        }
+        if (existing?.state === "pending") return { status: 409, body: { error: "Settlement already in progress" } };
+        const answered = await runBeforeHooks(this.hooks, "beforeSettle", ctx);
+        if (answered) return answered;
+        this.recordSettlement(keys, "pending");
+        const settling = (async () => {
+          try {
+            const signer = await this.getSettleSigner(paymentRequirements);
+            const response = await this.settle(signer, paymentPayload, paymentRequirements);
+            const success = isSettleSuccess(response);
+            this.recordSettlement(keys, success ? "settled" : "failed", response);
+            this.countSettlement(network, success ? "success" : "failure");
+            const { transaction, errorReason } = (response ?? {}) as { transaction?: unknown; errorReason?: unknown };
+            // A payment that did not verify sent nothing; its payTo is not told
+            if (success || isSettleAttempted(response)) {
+              void this.webhooks?.notify(success ? "settlement.confirmed" : "settlement.failed", req.body, {
+                transaction: typeof transaction === "string" && transaction ? transaction : undefined,
+                errorReason: typeof errorReason === "string" ? errorReason : undefined,
+                node: this.nodeName,
+              });
+            }
+            return response;
+          } catch (error) {
+            // Whether a transaction went out is unknown, so subscribers are not told it failed
+            this.recordSettlement(keys, "failed");
+            this.countSettlement(network, "error");
+            throw error;
+          }
+        })();
+        if (!respondAsync) {
+          return await this.runSettledHooks("afterSettle", ctx, { status: 200, body: await settling });
+        }
+        const pending: AsyncSettlementBody = {
+          id: crypto.randomUUID(),
+          status: "pending",
+          network,
+          payer: getPaymentPayer({ paymentPayload }),
+        };
+        this.asyncSettlements.set(pending.id, { body: pending, expiresAt: Date.now() + SETTLEMENT_RECORD_TTL_MS });
+        void this.completeAsyncSettlement(pending, settling, callbackUrl, req, started);
+        return await this.runSettledHooks("afterSettle", ctx, { status: 202, body: pending });
+      }
+
+      if (req.method === "GET" && req.path.startsWith("/settle/")) {
+        const record = this.asyncSettlements.get(decodeURIComponent(req.path.slice("/settle/".length)));
+        if (!record || record.expiresAt <= Date.now()) return { status: 404, body: { error: "Unknown settlement" } };
+        return { status: 200, body: record.body };
+      }
+
+      // Lets a gateway whose settle request timed out learn the outcome before failing over
+      if (req.method === "POST" && req.path === "/settle/status") {
+        const record = this.findSettlement(getSettleKeys((req.body ?? {}) as Record<string, unknown>));
+        const body: SettlementStatusBody = record
+          ? { status: record.state, response: record.response }
+          : { status: "unknown" };
+        return { status: 200, body };
+      }
+
+      // Reachability challenge from a gateway this node registered with
+      if (req.method === "POST" && req.path === "/challenge") {
+        const nonce = (req.body as { nonce?: unknown } | undefined)?.nonce;
+        if (typeof nonce !== "string" || !nonce) return { status: 400, body: { error: "Missing nonce" } };
+        return { status: 200, body: { nonce } };
       }
 
       return { status: 404, body: { error: "Not Found" } };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
-      return { status: 400, body: { error: message } };
+      const response = { status: 400, body: { error: message } };
+      return ctx ? await this.runSettledHooks("onError", ctx, response, error) : response;
+    }
+  }
+
+  private getHookContext(
+    req: HandlerRequest,
+    route: FacilitatorHookContext["route"],
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    metadata: Record<string, unknown>
+  ): FacilitatorHookContext {
+    const payer = getPaymentPayer({ paymentPayload });
+    return { route, paymentPayload, paymentRequirements, payer, requestId: req.requestId, body: req.body, metadata };
+  }
+
+  /**
+   * Passes `response` through the `afterSettle` or `onError` hooks; one that throws is logged
+   * and skipped. After a settle was submitted, a failing hook must not turn its result into an
+   * error: a gateway would fail over and settle the payment again on another node.
+   */
+  private async runSettledHooks(
+    name: "afterSettle" | "onError",
+    ctx: FacilitatorHookContext,
+    response: HandlerResponse,
+    error?: unknown
+  ): Promise<HandlerResponse> {
+    for (const hook of this.hooks) {
+      try {
+        const next = name === "onError" ? hook.onError?.(ctx, error, response) : hook[name]?.(ctx, response);
+        response = (await next) ?? response;
+      } catch (hookError) {
+        const message = hookError instanceof Error ? hookError.message : String(hookError);
+        this.logger.error({ requestId: ctx.requestId, route: ctx.route, error: message }, `${name} hook failed`);
+      }
     }
+    return response;
+  }
+
+  /**
+   * Runs the screening hook; returns the payer when it denies the payment, after logging the denial.
+   */
+  private async screen(
+    req: HandlerRequest,
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements
+  ): Promise<{ payer?: string } | undefined> {
+    if (!this.screening) return undefined;
+    const { network, payTo } = paymentRequirements;
+    const payer = getPaymentPayer({ paymentPayload });
+    const decision = await this.screening({ network, payer, payTo });
+    if (decision.allow) return undefined;
+    this.logger.warn(
+      {
+        requestId: req.requestId,
+        route: req.path.slice(1),
+        network,
+        payer: redactPayer(payer, this.redactPayers),
+        payTo,
+        reason: decision.reason,
+      },
+      "payment denied by screening"
+    );
+    return { payer };
+  }
+
+  /**
+   * `callbackUrl` of a settle body. Refused unless `settlementCallbacks` is configured, and
+   * when it points into the node's own network unless that is allowed.
+   */
+  private async getCallbackUrl(value: unknown): Promise<string | undefined> {
+    const url = parseCallbackUrl(value);
+    if (url === undefined) return undefined;
+    if (!this.settlementCallbacks) throw new Error("callbackUrl is not enabled on this node");
+    if (!this.settlementCallbacks.allowPrivateUrls) await checkPublicUrl(url, "callbackUrl");
+    return url;
+  }
+
+  /**
+   * Records the outcome of a settle answered with `202`, then posts it to `callbackUrl`.
+   */
+  private async completeAsyncSettlement(
+    pending: AsyncSettlementBody,
+    settling: Promise<unknown>,
+    callbackUrl: string | undefined,
+    req: HandlerRequest,
+    started: number
+  ): Promise<void> {
+    const requestId = req.requestId;
+    let body: AsyncSettlementBody;
+    try {
+      const response = await settling;
+      const { transaction, errorReason } = (response ?? {}) as { transaction?: unknown; errorReason?: unknown };
+      body = {
+        ...pending,
+        status: isSettleSuccess(response) ? "confirmed" : "failed",
+        transaction: typeof transaction === "string" && transaction ? transaction : undefined,
+        errorReason: typeof errorReason === "string" ? errorReason : undefined,
+        response,
+      };
+    } catch (error) {
+      body = { ...pending, status: "failed", error: error instanceof Error ? error.message : "Unknown error" };
+    }
+    this.asyncSettlements.set(body.id, { body, expiresAt: Date.now() + SETTLEMENT_RECORD_TTL_MS });
+    const fields = { requestId, settlementId: body.id, network: body.network, status: body.status };
+    const level = body.status === "confirmed" ? "info" : "warn";
+    this.logger[level]({ ...fields, error: body.error }, "async settle completed");
+    const latencyMs = Math.round(performance.now() - started);
+    const outcome = body.error
+      ? { outcome: "error" as const, reason: body.error }
+      : getLedgerOutcome("settle", 200, body.response);
+    if (outcome) await this.recordLedger(req, "settle", outcome, latencyMs);
+    const callbacks = this.settlementCallbacks;
+    if (!callbackUrl || !callbacks) return;
+    try {
+      // Its host may resolve elsewhere by now than when the settle was accepted
+      if (!callbacks.allowPrivateUrls) await checkPublicUrl(callbackUrl, "callbackUrl");
+      const payload = JSON.stringify(body);
+      const res = await fetch(callbackUrl, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-webhook-id": body.id,
+          ...(await signWebhookBody(callbacks.secret, payload)),
+          ...(requestId && { "x-request-id": requestId }),
+        },
+        body: payload,
+        signal: AbortSignal.timeout(SETTLEMENT_CALLBACK_TIMEOUT_MS),
+      });
+      if (!res.ok) this.logger.warn({ ...fields, callbackStatus: res.status }, "settlement callback rejected");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn({ ...fields, error: message }, "settlement callback failed");
+    }
+  }
+
+  /**
+   * Appends a verify or settle to the ledger; a failing ledger is logged and does not fail the request.
+   */
+  private async recordLedger(
+    req: HandlerRequest,
+    kind: LedgerEntry["kind"],
+    outcome: Pick<LedgerEntry, "outcome" | "transaction" | "reason">,
+    latencyMs: number
+  ): Promise<void> {
+    if (!this.ledger) return;
+    const details = { node: this.nodeName, latencyMs, requestId: req.requestId };
+    const entry = createLedgerEntry(kind, req.body, outcome, details);
+    try {
+      await this.ledger.record(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error({ requestId: req.requestId, route: kind, error: message }, "ledger record failed");
+    }
+  }
+
+  private findSettlement(keys: string[]): SettlementRecord | undefined {
+    const now = Date.now();
+    for (const key of keys) {
+      const record = this.settlements.get(key);
+      if (record && record.expiresAt > now) return record;
+    }
+    return undefined;
+  }
+
+  private recordSettlement(keys: string[], state: SettlementRecord["state"], response?: unknown): void {
+    const now = Date.now();
+    if (state === "pending") {
+      for (const [k, v] of this.settlements) {
+        if (v.expiresAt <= now) this.settlements.delete(k);
+      }
+      for (const [id, v] of this.asyncSettlements) {
+        if (v.expiresAt <= now) this.asyncSettlements.delete(id);
+      }
+    }
+    const record = { state, response, expiresAt: now + SETTLEMENT_RECORD_TTL_MS };
+    for (const key of keys) this.settlements.set(key, record);
   }
 
   private parseBody(body: unknown): { paymentPayload: PaymentPayload; paymentRequirements: PaymentRequirements } {
     const raw = (body ?? {}) as { paymentPayload?: unknown; paymentRequirements?: unknown };
+    const network = (raw.paymentRequirements as { network?: unknown } | undefined)?.network;
+    if (typeof network === "string" && this.customChains.has(network)) {
+      // x402's schemas only accept its built-in networks
+      const networkSchema = z.literal(network);
+      return {
+        paymentRequirements: PaymentRequirementsSchema.extend({ network: networkSchema }).parse(
+          raw.paymentRequirements
+        ) as unknown as PaymentRequirements,
+        paymentPayload: PaymentPayloadSchema.extend({ network: networkSchema }).parse(
+          raw.paymentPayload
+        ) as unknown as PaymentPayload,
+      };
+    }
     const paymentRequirements = PaymentRequirementsSchema.parse(raw.paymentRequirements);
     const paymentPayload = PaymentPayloadSchema.parse(raw.paymentPayload);
     return { paymentPayload, paymentRequirements };
   }
 
+  /**
+   * Runs an x402 call with the SVM RPC endpoint to use for `network` (x402 takes
+   * SVM endpoints through its config; EVM clients carry their own transport).
+   * x402 does not tell RPC failures apart from others, so any error counts against
+   * the endpoint; with `failover` the call is retried on the next one.
+   */
+  private async withX402Config<T>(
+    network: PaymentRequirements["network"],
+    failover: boolean,
+    run: (config: X402Config | undefined) => Promise<T>
+  ): Promise<T> {
+    const urls = SupportedSVMNetworks.includes(network) ? this.rpc.order(network) : [];
+    if (urls.length === 0) return run(this.svmRpcUrl ? { svmConfig: { rpcUrl: this.svmRpcUrl } } : undefined);
+    let lastError: unknown;
+    for (const url of failover ? urls : urls.slice(0, 1)) {
+      try {
+        const result = await run({ svmConfig: { rpcUrl: url } });
+        this.rpc.recordSuccess(url);
+        return result;
+      } catch (error) {
+        this.rpc.recordFailure(url, error instanceof Error ? error.message : String(error));
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  // No failover: the transaction may have been submitted before the endpoint failed
+  private async settle(signer: Signer, paymentPayload: PaymentPayload, paymentRequirements: PaymentRequirements) {
+    const { network } = paymentRequirements;
+    const queue = this.settlementQueue;
+    const isEvm = this.customChains.has(network) || SupportedEVMNetworks.includes(network);
+    if (queue && isEvm) {
+      const client = signer as unknown as SettlementClient;
+      return settleExactEvm(signer as unknown as ExactEvmSigner, paymentPayload, paymentRequirements, (call) =>
+        queue.submit(client, network, call)
+      );
+    }
+    if (this.customChains.has(network)) {
+      return settleExactEvm(signer as unknown as ExactEvmSigner, paymentPayload, paymentRequirements);
+    }
+    return this.withX402Config(network, false, (config) => settle(signer, paymentPayload, paymentRequirements, config));
+  }
+
   private async getVerifyClient(paymentRequirements: PaymentRequirements): Promise<Signer | ConnectedClient> {
+    const { network } = paymentRequirements;
+    if (SupportedEVMNetworks.includes(network) && this.rpc.has(network)) {
+      const chain = evm.getChainFromNetwork(network);
+      return createPublicClient({ chain, transport: createRpcTransport(this.rpc, network, chain) }) as ConnectedClient;
+    }
     if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
       return createConnectedClient(paymentRequirements.network);
     }
     if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      if (!this.svmPrivateKey) throw new Error("Missing svmPrivateKey for SVM verification");
-      return createSigner(paymentRequirements.network, this.svmPrivateKey);
+      if (!this.signers.supports(paymentRequirements.network)) throw new Error("Missing svmPrivateKey for SVM verification");
+      return this.signers.getSigner(paymentRequirements.network);
     }
     throw new Error("Invalid network");
   }
 
+  /**
+   * Public client for a configured chain x402 does not know, through the network's
+   * `rpcUrls` where given, else the chain's default RPC.
+   */
+  private getCustomChainClient(network: string, chain: Chain) {
+    const transport = this.rpc.has(network) ? createRpcTransport(this.rpc, network, chain) : http();
+    return createPublicClient({ chain, transport });
+  }
+
   private async getSettleSigner(paymentRequirements: PaymentRequirements): Promise<Signer> {
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      if (!this.evmPrivateKey) throw new Error("Missing evmPrivateKey for EVM settlement");
-      return createSigner(paymentRequirements.network, this.evmPrivateKey);
+    const { network } = paymentRequirements;
+    const chain = this.customChains.get(network);
+    if (chain) {
+      if (!this.signers.supports(network, chain)) throw new Error("Missing evmPrivateKey for EVM settlement");
+      return this.signers.getSigner(network, chain);
     }
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      if (!this.svmPrivateKey) throw new Error("Missing svmPrivateKey for SVM settlement");
-      return createSigner(paymentRequirements.network, this.svmPrivateKey);
+    if (SupportedEVMNetworks.includes(network)) {
+      if (!this.signers.supports(network)) throw new Error("Missing evmPrivateKey for EVM settlement");
+      return this.signers.getSigner(network);
+    }
+    if (SupportedSVMNetworks.includes(network)) {
+      if (!this.signers.supports(network)) throw new Error("Missing svmPrivateKey for SVM settlement");
+      return this.signers.getSigner(network);
     }
     throw new Error("Invalid network");
   }
@@ -116,30 +712,46 @@ export class Facilitator {
   private async getSupportedKinds(): Promise<SupportedPaymentKind[]> {
     const kinds: SupportedPaymentKind[] = [];
 
-    if (this.evmPrivateKey && this.evmNetworks.length > 0) {
-      for (const chain of this.evmNetworks) {
-        const network = this.getViemChainNetwork(chain) as SupportedPaymentKind["network"];
-        kinds.push({ x402Version: 1, scheme: "exact", network });
-      }
+    for (const { network: name, chain } of this.evmNetworks) {
+      const network = name as SupportedPaymentKind["network"];
+      if (!this.signers.supports(network, this.customChains.get(name))) continue;
+      const policy = this.policy && describePolicy(this.policy, name);
+      kinds.push({ x402Version: 1, scheme: "exact", network, ...(policy && { extra: { policy } }) });
     }
 
-    if (this.svmPrivateKey && this.svmNetworks.length > 0) {
-      for (const network of this.svmNetworks) {
-        if (!SupportedSVMNetworks.includes(network as SupportedPaymentKind["network"])) continue;
-        const signer = await createSigner(network as SupportedPaymentKind["network"], this.svmPrivateKey);
-        const feePayer = isSvmSignerWallet(signer) ? signer.address : undefined;
-        kinds.push({ x402Version: 1, scheme: "exact", network: network as SupportedPaymentKind["network"], extra: { feePayer } });
-      }
+    for (const name of this.svmNetworks) {
+      const network = name as SupportedPaymentKind["network"];
+      if (!SupportedSVMNetworks.includes(network) || !this.signers.supports(network)) continue;
+      const feePayer = await this.signers.getAddress(network);
+      const policy = this.policy && describePolicy(this.policy, name);
+      kinds.push({ x402Version: 1, scheme: "exact", network, extra: { feePayer, ...(policy && { policy }) } });
     }
 
     return kinds;
   }
 
-  private getViemChainNetwork(chain: Chain): string {
-    const network = (chain as unknown as { network?: string }).network;
-    if (!network) {
-      throw new Error("Provided viem Chain is missing the 'network' identifier");
-    }
-    return network;
+  /**
+   * Network slug for a configured chain: its legacy viem `network` field when set,
+   * else x402's name for the chain id, else `eip155:<chain id>`.
+   */
+  private getEvmNetworkName(chain: Chain): string {
+    const legacy = (chain as unknown as { network?: string }).network;
+    if (legacy) return legacy;
+    return ChainIdToNetwork[chain.id] ?? `eip155:${chain.id}`;
+  }
+}
+
+/**
+ * `callbackUrl` of an async settle body: an http(s) URL, posted the outcome once it is known.
+ */
+function parseCallbackUrl(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  let url: URL | undefined;
+  try {
+    url = typeof value === "string" ? new URL(value) : undefined;
+  } catch {
+    url = undefined;
   }
+  if (url?.protocol !== "http:" && url?.protocol !== "https:") throw new Error("Invalid callbackUrl");
+  return url.toString();
 }
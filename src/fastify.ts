@@ -0,0 +1,5 @@
+export { createFastifyAdapter } from "./adapters/fastifyAdapter.js";
+export { createFastifyGatewayAdapter } from "./adapters/fastifyGateway.js";
+export type { FastifyGatewayOptions, FastifyGatewayPlugin } from "./adapters/fastifyGateway.js";
+export type { FastifyAdapterOptions } from "./adapters/fastifyAdapter.js";
+export type { GatewayHandle } from "./gateway/core.js";
@@ -0,0 +1,196 @@
+// WHATWG fetch handlers (Request in, Response out) for Bun, Deno, Workers-style runtimes or node:http.
+
+import type { Facilitator } from "./facilitator.js";
+import {
+  type GatewayContext,
+  type GatewayHandle,
+  type GatewayOptions,
+  aggregateSupportedKinds,
+  createGatewayContext,
+  handleGatewayDeregister,
+  handleGatewayWebhookSubscribe,
+  handleGatewayRegister,
+  handleGatewaySettle,
+  handleGatewaySettlementStatus,
+  handleGatewayVerify,
+} from "./gateway/core.js";
+import type { ForwardBody } from "./gateway/types.js";
+import { formatError } from "./adapters/shared/errorHandler.js";
+import { METRICS_CONTENT_TYPE } from "./metrics.js";
+import { prefersAsync } from "./payment.js";
+import { type LedgerHttpResponse, serveLedger, toResponseBody } from "./ledger.js";
+
+export type { GatewayHandle } from "./gateway/core.js";
+
+export type FetchHandler = (request: Request) => Promise<Response>;
+
+export type FetchHandlerOptions = {
+  /** Path prefix the routes are served under, e.g. `/facilitator`. */
+  basePath?: string;
+  /** Serve Prometheus metrics on `GET /metrics`. */
+  metrics?: boolean;
+  /** Serve the facilitator's `ledger` on `GET /ledger`, with filters, pagination and CSV/JSONL export. */
+  ledger?: boolean;
+};
+
+export type GatewayFetchHandlerOptions = GatewayOptions;
+
+export type GatewayFetchHandler = FetchHandler & {
+  /** Drains or closes the gateway; see `GatewayHandle`. */
+  gateway: GatewayHandle;
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+const notFound = () => json({ error: "Not Found" }, 404);
+
+function ledgerResponse({ status, contentType, body }: LedgerHttpResponse): Response {
+  return new Response(toResponseBody(body), { status, headers: { "content-type": contentType } });
+}
+
+/**
+ * Path of `request` relative to `basePath`, or undefined when it is outside it.
+ */
+function routePath(request: Request, basePath = ""): string | undefined {
+  const { pathname } = new URL(request.url);
+  const base = basePath.replace(/\/+$/, "");
+  if (!base) return pathname;
+  if (pathname !== base && !pathname.startsWith(base + "/")) return undefined;
+  return pathname.slice(base.length) || "/";
+}
+
+// An unparseable body is passed on as missing, and rejected by the handler's own validation
+async function readJson(request: Request): Promise<unknown> {
+  return request.json().catch(() => undefined);
+}
+
+/**
+ * Serves a Facilitator node from a fetch handler:
+ *
+ *   Bun.serve({ fetch: createFetchHandler(facilitator, { basePath: "/facilitator" }) })
+ *
+ * Routes (relative to `basePath`): GET /supported, POST /verify, POST /settle,
+ * GET /settle/:id, POST /settle/status, POST /challenge, GET /metrics when `metrics` is set and
+ * GET /ledger when `ledger` is set.
+ */
+export function createFetchHandler(facilitator: Facilitator, options: FetchHandlerOptions = {}): FetchHandler {
+  return async (request) => {
+    try {
+      const path = routePath(request, options.basePath);
+      const method = request.method;
+      if (path === undefined || (method !== "GET" && method !== "POST")) return notFound();
+      if (options.metrics && method === "GET" && path === "/metrics") {
+        return new Response(facilitator.renderMetrics(), { headers: { "content-type": METRICS_CONTENT_TYPE } });
+      }
+      if (options.ledger && method === "GET" && path === "/ledger") {
+        return ledgerResponse(await serveLedger(facilitator.ledger, new URL(request.url).searchParams));
+      }
+      const response = await facilitator.handleRequest({
+        method,
+        path,
+        body: method === "POST" ? await readJson(request) : undefined,
+        requestId: request.headers.get("x-request-id") ?? undefined,
+        respondAsync: prefersAsync(request.headers.get("prefer")),
+      });
+      return json(response.body, response.status);
+    } catch (error) {
+      return json(formatError(error), 500);
+    }
+  };
+}
+
+/**
+ * Serves a gateway from a fetch handler, with the same routes as the Express and
+ * Hono gateway adapters (relative to `options.basePath`). Peer state and its timers
+ * are created on the first request (or first use of the handler's `gateway` handle), as
+ * some runtimes allow timers only while handling one.
+ */
+export function createGatewayFetchHandler(options: GatewayFetchHandlerOptions): GatewayFetchHandler {
+  let context: GatewayContext | undefined;
+  const getContext = () => (context ??= createGatewayContext(options));
+  const gateway: GatewayHandle = {
+    get registry() {
+      return getContext().registry;
+    },
+    get sticky() {
+      return getContext().sticky;
+    },
+    get webhooks() {
+      return getContext().webhooks;
+    },
+    get state() {
+      return context?.lifecycle.state ?? "running";
+    },
+    drain: () => getContext().drain(),
+    close: () => getContext().close(),
+  };
+
+  const handler: FetchHandler = async (request) => {
+    try {
+      const path = routePath(request, options.basePath);
+      if (path === undefined) return notFound();
+      const gw = getContext();
+      const route = `${request.method} ${path}`;
+      const requestId = request.headers.get("x-request-id") ?? crypto.randomUUID();
+
+      if (route === "GET /supported") return json({ kinds: await aggregateSupportedKinds(await gw.peers()) });
+      if (route === "POST /verify") {
+        const inbound = (await readJson(request)) as ForwardBody;
+        const r = await handleGatewayVerify({ ...gw, peers: await gw.peers(), inbound, requestId });
+        return json(r.body, r.status);
+      }
+      if (route === "POST /settle") {
+        const inbound = (await readJson(request)) as ForwardBody;
+        const idempotencyKey = request.headers.get("idempotency-key") ?? undefined;
+        const respondAsync = prefersAsync(request.headers.get("prefer"));
+        const r = await handleGatewaySettle({
+          ...gw,
+          peers: await gw.peers(),
+          inbound,
+          idempotencyKey,
+          respondAsync,
+          requestId,
+        });
+        return json(r.body, r.status);
+      }
+      const settlementId = /^GET \/settle\/([^/]+)$/.exec(route)?.[1];
+      if (settlementId) {
+        const r = await handleGatewaySettlementStatus({
+          ...gw,
+          peers: await gw.peers(),
+          settlementId: decodeURIComponent(settlementId),
+          requestId,
+        });
+        return json(r.body, r.status);
+      }
+      if (route === "POST /register") {
+        const r = await handleGatewayRegister(gw.registry, await readJson(request), options.registrationAuth);
+        return json(r.body, r.status);
+      }
+      if (route === "POST /deregister") {
+        const r = await handleGatewayDeregister(gw.registry, await readJson(request), options.registrationAuth);
+        return json(r.body, r.status);
+      }
+      if (gw.webhooks?.subscribeAuth && route === "POST /webhooks") {
+        const inbound = await readJson(request);
+        const r = await handleGatewayWebhookSubscribe(gw.webhooks, inbound);
+        return json(r.body, r.status);
+      }
+      if (route === "GET /peers") {
+        return json({ peers: await gw.peers(), details: await gw.describePeers() });
+      }
+      if (gw.metrics && route === "GET /metrics") {
+        return new Response(await gw.metrics.render(), { headers: { "content-type": METRICS_CONTENT_TYPE } });
+      }
+      if (options.serveLedger && route === "GET /ledger") {
+        return ledgerResponse(await serveLedger(gw.ledger, new URL(request.url).searchParams));
+      }
+      return notFound();
+    } catch (error) {
+      return json(formatError(error), 500);
+    }
+  };
+  return Object.assign(handler, { gateway });
+}
@@ -0,0 +1,92 @@
+// JSON Lines file backed SettlementLedger, kept out of ledger.ts so the fetch
+// handlers and gateway core stay free of node:fs.
+
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import {
+  type LedgerEntry,
+  type LedgerPage,
+  type LedgerQuery,
+  type SettlementLedger,
+  getLedgerLimit,
+  matchesLedgerQuery,
+} from "./ledger.js";
+
+/**
+ * Appends entries to a JSON Lines file, one object per line, so the ledger
+ * survives restarts and can be processed with ordinary tools. Several processes
+ * may append to the same file. Queries stream the file, holding at most one page
+ * of entries, and exports read it once; unparseable lines are skipped.
+ */
+export class JsonlFileLedger implements SettlementLedger {
+  /** Appends in the order they were recorded. */
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  record(entry: LedgerEntry): Promise<void> {
+    const write = this.writing.then(() => fs.promises.appendFile(this.filePath, JSON.stringify(entry) + "\n"));
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: LedgerQuery): Promise<LedgerPage> {
+    const limit = getLedgerLimit(query);
+    const cursor = query.cursor === undefined ? Infinity : Number(query.cursor);
+    // The newest `limit` matches below the cursor, oldest first, by sequence number
+    const matched: { seq: number; entry: LedgerEntry }[] = [];
+    let seq = 0;
+    for await (const entry of this.read()) {
+      if (seq >= cursor) break;
+      if (matchesLedgerQuery(entry, query)) {
+        matched.push({ seq, entry });
+        if (matched.length > limit) matched.shift();
+      }
+      seq++;
+    }
+    const oldest = matched.length === limit ? matched[0].seq : 0;
+    return {
+      entries: matched.map((m) => m.entry).reverse(),
+      nextCursor: oldest > 0 ? String(oldest) : undefined,
+    };
+  }
+
+  async *export(query: LedgerQuery): AsyncGenerator<LedgerEntry> {
+    const cursor = query.cursor === undefined ? Infinity : Number(query.cursor);
+    let seq = 0;
+    for await (const entry of this.read()) {
+      if (seq >= cursor) break;
+      if (matchesLedgerQuery(entry, query)) yield entry;
+      seq++;
+    }
+  }
+
+  private async *read(): AsyncGenerator<LedgerEntry> {
+    const input = fs.createReadStream(this.filePath);
+    try {
+      await new Promise((resolve, reject) => input.once("open", resolve).once("error", reject));
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw e;
+    }
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let entry: LedgerEntry;
+        try {
+          entry = JSON.parse(line) as LedgerEntry;
+        } catch {
+          continue; // a torn or edited line
+        }
+        yield entry;
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+}
@@ -0,0 +1,82 @@
+// HMAC signing of node registrations, shared by the registrar (signer) and the gateway (verifier).
+
+import { digestsEqual, hmacSha256Hex } from "../hmac.js";
+
+export const REGISTRATION_MAX_SKEW_MS = 60_000; // signed registrations are accepted for ±1 minute
+
+export type RegistrationAuthOptions = {
+  /** Shared secret(s). Several may be listed to rotate secrets without downtime. */
+  secret: string | string[];
+  /** Accepted clock difference between node and gateway. */
+  maxSkewMs?: number;
+};
+
+/**
+ * Fields added to a registration body by `signRegistration`.
+ */
+export type RegistrationSignature = {
+  timestamp: number;
+  nonce: string;
+  signature: string;
+};
+
+export type RegistrationCheck =
+  | { ok: true; nonce: string }
+  | { ok: false; error: string };
+
+/**
+ * Deterministic JSON with sorted object keys, so signer and verifier hash the same bytes.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return "[" + value.map(canonicalJson).join(",") + "]";
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return "{" + entries.map(([k, v]) => JSON.stringify(k) + ":" + canonicalJson(v)).join(",") + "}";
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hmac(secret: string, body: Record<string, unknown>): Promise<string> {
+  const { signature: _ignored, ...signed } = body;
+  return hmacSha256Hex(secret, canonicalJson(signed));
+}
+
+/**
+ * Adds `timestamp`, a fresh `nonce` and an HMAC-SHA256 `signature` over every other field.
+ */
+export async function signRegistration<T extends Record<string, unknown>>(
+  body: T,
+  secret: string
+): Promise<T & RegistrationSignature> {
+  const signed = { ...body, timestamp: Date.now(), nonce: crypto.randomUUID() };
+  return { ...signed, signature: await hmac(secret, signed) };
+}
+
+/**
+ * Checks signature and timestamp. Replay protection (nonce reuse) is left to the
+ * caller, which owns the state store. `label` names the signed body in errors.
+ */
+export async function verifyRegistration(
+  body: unknown,
+  auth: RegistrationAuthOptions,
+  label = "registration"
+): Promise<RegistrationCheck> {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const { signature, timestamp, nonce } = b;
+  if (typeof signature !== "string" || typeof timestamp !== "number" || typeof nonce !== "string" || !nonce) {
+    return { ok: false, error: `Missing ${label} signature` };
+  }
+  const maxSkew = auth.maxSkewMs ?? REGISTRATION_MAX_SKEW_MS;
+  if (Math.abs(Date.now() - timestamp) > maxSkew) {
+    return { ok: false, error: `${label[0].toUpperCase()}${label.slice(1)} timestamp outside allowed window` };
+  }
+  const given = signature.toLowerCase();
+  const secrets = Array.isArray(auth.secret) ? auth.secret : [auth.secret];
+  const expected = await Promise.all(secrets.map((secret) => hmac(secret, b)));
+  if (!expected.some((digest) => digestsEqual(digest, given))) {
+    return { ok: false, error: `Invalid ${label} signature` };
+  }
+  return { ok: true, nonce };
+}
@@ -0,0 +1,81 @@
+// Reachability challenge run against a newly registered peer before it receives traffic.
+
+import type { SupportedPaymentKind } from "x402/types";
+import { supportedKindsSchema, supportsKind } from "./kinds.js";
+
+export const CHALLENGE_TIMEOUT_MS = 5_000;
+export const CHALLENGE_RETRY_MS = 60_000; // a failed peer is challenged again on a heartbeat after this
+
+export type ChallengeOptions = {
+  /** Also require `POST <url>/challenge` to echo a random nonce. */
+  echo?: boolean;
+  timeoutMs?: number;
+};
+
+export type ChallengeResult =
+  | { ok: true; kinds: SupportedPaymentKind[] }
+  | { ok: false; error: string };
+
+async function request(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+function describe(e: unknown): string {
+  if (e instanceof Error && e.name === "AbortError") return "timed out";
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Calls back the advertised URL: `/supported` must answer with every kind the
+ * peer claimed at registration (any kinds, when it claimed none), and with
+ * `echo` the peer must return the nonce sent to `/challenge`.
+ */
+export async function challengePeer(
+  url: string,
+  claimedKinds: SupportedPaymentKind[] | undefined,
+  options: ChallengeOptions = {}
+): Promise<ChallengeResult> {
+  const timeoutMs = options.timeoutMs ?? CHALLENGE_TIMEOUT_MS;
+
+  let kinds: SupportedPaymentKind[];
+  try {
+    const res = await request(url + "/supported", {}, timeoutMs);
+    if (!res.ok) return { ok: false, error: `/supported returned ${res.status}` };
+    const parsed = supportedKindsSchema.safeParse(((await res.json()) as { kinds?: unknown })?.kinds);
+    if (!parsed.success) return { ok: false, error: "/supported returned no valid kinds" };
+    kinds = parsed.data;
+  } catch (e: unknown) {
+    return { ok: false, error: `/supported unreachable: ${describe(e)}` };
+  }
+
+  const missing = (claimedKinds ?? []).filter((k) => !supportsKind(kinds, k));
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      error: `claimed kinds not served by /supported: ${missing.map((k) => `${k.scheme}/${k.network}`).join(", ")}`,
+    };
+  }
+
+  if (options.echo) {
+    const nonce = crypto.randomUUID();
+    try {
+      const res = await request(
+        url + "/challenge",
+        { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify({ nonce }) },
+        timeoutMs
+      );
+      const body = (await res.json().catch(() => undefined)) as { nonce?: unknown } | undefined;
+      if (!res.ok || body?.nonce !== nonce) return { ok: false, error: "nonce echo challenge failed" };
+    } catch (e: unknown) {
+      return { ok: false, error: `/challenge unreachable: ${describe(e)}` };
+    }
+  }
+
+  return { ok: true, kinds: claimedKinds ?? kinds };
+}
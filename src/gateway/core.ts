@@ -1,26 +1,73 @@
 // Shared gateway logic used by both Express and Hono gateway adapters.
 
-import { z } from "zod";
 import type { SupportedPaymentKind } from "x402/types";
+import {
+  type AsyncSettlementBody,
+  type SettlementStatusBody,
+  getSettleKeys,
+  isScreeningDenial,
+  isSettleAttempted,
+  isSettleSuccess,
+} from "../payment.js";
+import { type GatewayStateStore, type StoreOptions, MemoryStateStore } from "./store.js";
+import { getRequiredKind, supportsKind, describeRequiredKind, supportedKindsSchema } from "./kinds.js";
+import { type RegistrationAuthOptions, REGISTRATION_MAX_SKEW_MS, verifyRegistration } from "./auth.js";
+import { type ChallengeOptions, CHALLENGE_RETRY_MS, challengePeer } from "./challenge.js";
+import { getNetworkLabel } from "../metrics.js";
+import { type Logger, type LoggingOptions, resolveLogger, redactPayer, silentLogger } from "../logger.js";
+import { GatewayMetrics } from "./metrics.js";
+import { type SettlementLedger, createLedgerEntry, getLedgerOutcome } from "../ledger.js";
+import {
+  type WebhookOptions,
+  type WebhookSubscriptionInput,
+  WebhookDispatcher,
+  WebhookSubscriptionLimitError,
+} from "../webhooks.js";
+import { type GatewayLifecycleState, GatewayLifecycle } from "./lifecycle.js";
+import {
+  type RoutingStrategy,
+  type RoutingStrategyName,
+  PeerStatsTracker,
+  createRoutingStrategy,
+} from "./routing.js";
+import {
+  type HealthProberOptions,
+  type PeerHealthOptions,
+  PeerHealth,
+  HealthProber,
+} from "./health.js";
 import type {
   ForwardBody,
   StickyEntry,
+  SettleRecord,
+  SettlementOwner,
+  PeerDetails,
+  PeerStatus,
   RegisteredPeer,
+  ProbedKinds,
+  RequiredKind,
   PeerResponse,
   VerifyResponseBody,
 } from "./types.js";
 
 // Re-export types for convenience
 export type { PeerResponse } from "./types.js";
+export { getRequiredKind, supportsKind } from "./kinds.js";
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 export const VERIFY_TIMEOUT = 10_000;
 export const SETTLE_TIMEOUT = 30_000;
 export const SUPPORTED_TIMEOUT = 5_000;
+export const SETTLE_STATUS_TIMEOUT = 5_000;
+export const SETTLEMENT_LOOKUP_TIMEOUT = 5_000;
 export const SELECTION_TTL_MS = 1 * 60_000; // sticky selection expires after 1 minute
 export const REGISTRY_TTL_MS = 2 * 60_000; // registered peers expire if no heartbeat
 export const CLEANUP_INTERVAL_MS = 30_000; // cleanup runs every 30 seconds
+export const KINDS_TTL_MS = 5 * 60_000; // probed /supported kinds are reused for 5 minutes
+export const KINDS_RETRY_MS = 30_000; // failed /supported probes are retried after 30 seconds
+export const SETTLE_RECORD_TTL_MS = 10 * 60_000; // settle attempts are remembered for 10 minutes
+export const SETTLEMENT_POLL_INTERVAL_MS = 5_000; // asynchronous settles are followed every 5 seconds
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -34,14 +81,15 @@ export function normalizeUrl(url: string): string {
 export async function postJson<T = unknown>(
   url: string,
   body: unknown,
-  timeoutMs: number
+  timeoutMs: number,
+  headers: Record<string, string> = {}
 ): Promise<PeerResponse<T>> {
   const controller = new AbortController();
   const t = setTimeout(() => controller.abort(), timeoutMs);
   try {
     const res = await fetch(url, {
       method: "POST",
-      headers: { "content-type": "application/json" },
+      headers: { "content-type": "application/json", ...headers },
       body: JSON.stringify(body),
       signal: controller.signal,
     });
@@ -72,6 +120,28 @@ export async function getJson<T = unknown>(
   }
 }
 
+export async function getPeerJson<T = unknown>(
+  url: string,
+  timeoutMs: number,
+  headers: Record<string, string> = {}
+): Promise<PeerResponse<T>> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { headers, signal: controller.signal });
+    const text = await res.text();
+    let parsed: T;
+    try {
+      parsed = text ? JSON.parse(text) : (undefined as T);
+    } catch {
+      parsed = text as T;
+    }
+    return { status: res.status, body: parsed };
+  } finally {
+    clearTimeout(t);
+  }
+}
+
 export function pickRandom<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
 }
@@ -148,46 +218,48 @@ export function normalizeForwardBody(inbound: ForwardBody): ForwardBody {
 
 // ─── Sticky Router (payer/header → peer mapping with TTL) ────────────────────
 
+const STICKY_PAYER_PREFIX = "sticky:payer:";
+const STICKY_HEADER_PREFIX = "sticky:header:";
+
 export class StickyRouter {
-  private byPayer = new Map<string, StickyEntry>();
-  private byHeader = new Map<string, StickyEntry>();
+  private readonly store: GatewayStateStore;
+  private readonly ownedStore?: MemoryStateStore;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(autoCleanup = true) {
+  constructor(autoCleanup = true, options: StoreOptions = {}) {
+    if (!options.store) this.ownedStore = new MemoryStateStore();
+    this.store = options.store ?? this.ownedStore!;
     if (autoCleanup) this.startCleanup();
   }
 
   private startCleanup(): void {
-    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    // A failed cleanup (e.g. a store that is briefly unavailable) is retried on the next tick
+    this.cleanupTimer = setInterval(() => void this.cleanup().catch(() => undefined), CLEANUP_INTERVAL_MS);
     // Allow process to exit even if timer is active
     this.cleanupTimer.unref?.();
   }
 
-  recordSelection(
+  async recordSelection(
     peer: string,
     body: ForwardBody,
     verifyResponseBody: VerifyResponseBody | unknown
-  ): void {
-    const now = Date.now();
+  ): Promise<void> {
+    const entry: StickyEntry = { peer, expiresAt: Date.now() + SELECTION_TTL_MS };
     const payer =
       getPayerFromVerifyResponse(verifyResponseBody) ?? getPayerFromBody(body);
     if (payer)
-      this.byPayer.set(payer.toLowerCase(), {
-        peer,
-        expiresAt: now + SELECTION_TTL_MS,
-      });
+      await this.store.set(STICKY_PAYER_PREFIX + payer.toLowerCase(), entry, SELECTION_TTL_MS);
     const key = getHeaderFromBody(body);
-    if (key)
-      this.byHeader.set(key, { peer, expiresAt: now + SELECTION_TTL_MS });
+    if (key) await this.store.set(STICKY_HEADER_PREFIX + key, entry, SELECTION_TTL_MS);
   }
 
-  getPreferredPeer(body: ForwardBody): string | undefined {
+  async getPreferredPeer(body: ForwardBody): Promise<string | undefined> {
     const now = Date.now();
     const payer = getPayerFromBody(body)?.toLowerCase();
-    const byPayer = payer ? this.byPayer.get(payer) : undefined;
+    const byPayer = payer ? await this.store.get<StickyEntry>(STICKY_PAYER_PREFIX + payer) : undefined;
     if (byPayer && byPayer.expiresAt > now) return byPayer.peer;
     const key = getHeaderFromBody(body);
-    const byHeader = key ? this.byHeader.get(key) : undefined;
+    const byHeader = key ? await this.store.get<StickyEntry>(STICKY_HEADER_PREFIX + key) : undefined;
     if (byHeader && byHeader.expiresAt > now) return byHeader.peer;
     return undefined;
   }
@@ -195,93 +267,396 @@ export class StickyRouter {
   /**
    * Remove expired entries from the cache.
    */
-  cleanup(): void {
-    const now = Date.now();
-    for (const [k, v] of this.byPayer) {
-      if (v.expiresAt <= now) this.byPayer.delete(k);
-    }
-    for (const [k, v] of this.byHeader) {
-      if (v.expiresAt <= now) this.byHeader.delete(k);
-    }
+  async cleanup(): Promise<void> {
+    await this.store.purge?.();
   }
 
   /**
-   * Stop cleanup timer and clear all state.
+   * Stop cleanup timer and clear all state. A shared store passed in the
+   * options is left untouched, since other replicas still rely on it.
    */
   destroy(): void {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
-    this.byPayer.clear();
-    this.byHeader.clear();
+    this.ownedStore?.clear();
   }
 
   /**
    * Get current cache sizes for monitoring.
    */
-  get size(): { payers: number; headers: number } {
-    return { payers: this.byPayer.size, headers: this.byHeader.size };
+  async size(): Promise<{ payers: number; headers: number }> {
+    return {
+      payers: (await this.store.scan(STICKY_PAYER_PREFIX)).length,
+      headers: (await this.store.scan(STICKY_HEADER_PREFIX)).length,
+    };
   }
 }
 
 // ─── Peer Registry (static + registered peers with TTL) ──────────────────────
 
+const PEER_PREFIX = "peer:";
+const KINDS_PREFIX = "kinds:";
+const NONCE_PREFIX = "regnonce:";
+
+export type PeerRegistryOptions = StoreOptions & {
+  /** Peers whose circuit is open are left out of `getActivePeers`. */
+  health?: PeerHealth;
+  /** Challenge new registrations (see `challengePeer`) before they receive traffic. */
+  challenge?: ChallengeOptions;
+};
+
 export class PeerRegistry {
-  private registered = new Map<string, RegisteredPeer>();
+  private readonly store: GatewayStateStore;
+  private readonly ownedStore?: MemoryStateStore;
+  private readonly health?: PeerHealth;
+  private readonly challenge?: ChallengeOptions;
+  private probing = new Map<string, Promise<void>>();
+  private challenges = new Map<string, Promise<void>>();
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(autoCleanup = true) {
+  constructor(autoCleanup = true, options: PeerRegistryOptions = {}) {
+    if (!options.store) this.ownedStore = new MemoryStateStore();
+    this.store = options.store ?? this.ownedStore!;
+    this.health = options.health;
+    this.challenge = options.challenge;
     if (autoCleanup) this.startCleanup();
   }
 
   private startCleanup(): void {
-    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    // A failed cleanup (e.g. a store that is briefly unavailable) is retried on the next tick
+    this.cleanupTimer = setInterval(() => void this.cleanup().catch(() => undefined), CLEANUP_INTERVAL_MS);
     // Allow process to exit even if timer is active
     this.cleanupTimer.unref?.();
   }
 
-  register(url: string, kinds?: SupportedPaymentKind[]): void {
+  /**
+   * Records a registration or heartbeat. With challenges enabled, a new peer
+   * (or one whose claimed kinds changed) stays `pending` until its challenge
+   * passes; a `failed` peer is challenged again after `CHALLENGE_RETRY_MS`.
+   * `draining` marks the peer as shutting down until a heartbeat without it.
+   */
+  async register(url: string, kinds?: SupportedPaymentKind[], draining = false): Promise<PeerStatus> {
     const key = normalizeUrl(url);
-    this.registered.set(key, { url: key, kinds, lastSeenMs: Date.now() });
+    const now = Date.now();
+    const drainingField = draining ? { draining } : {};
+    if (!this.challenge) {
+      const peer: RegisteredPeer = { url: key, kinds, lastSeenMs: now, ...drainingField };
+      await this.store.set(PEER_PREFIX + key, peer, REGISTRY_TTL_MS);
+      return "active";
+    }
+    const existing = await this.store.get<RegisteredPeer>(PEER_PREFIX + key);
+    if (existing && !this.needsChallenge(existing, kinds, now)) {
+      const { draining: _previous, ...rest } = existing;
+      await this.store.set(PEER_PREFIX + key, { ...rest, lastSeenMs: now, ...drainingField }, REGISTRY_TTL_MS);
+      return existing.status ?? "active";
+    }
+    const peer: RegisteredPeer = {
+      url: key,
+      kinds,
+      lastSeenMs: now,
+      status: "pending",
+      challengedAtMs: now,
+      ...drainingField,
+    };
+    await this.store.set(PEER_PREFIX + key, peer, REGISTRY_TTL_MS);
+    this.startChallenge(key, kinds);
+    return "pending";
+  }
+
+  private needsChallenge(existing: RegisteredPeer, kinds: SupportedPaymentKind[] | undefined, now: number): boolean {
+    if (existing.status === "pending" || existing.status === "failed") {
+      // pending too, in case the replica running the challenge went away
+      return now - (existing.challengedAtMs ?? 0) >= CHALLENGE_RETRY_MS;
+    }
+    return kinds !== undefined && JSON.stringify(kinds) !== JSON.stringify(existing.kinds);
+  }
+
+  private startChallenge(key: string, kinds: SupportedPaymentKind[] | undefined): void {
+    if (this.challenges.has(key)) return;
+    const run = challengePeer(key, kinds, this.challenge)
+      .then(async (result) => {
+        const current = await this.store.get<RegisteredPeer>(PEER_PREFIX + key);
+        if (!current) return;
+        const next: RegisteredPeer = result.ok
+          ? { ...current, kinds: result.kinds, status: "active", challengeError: undefined }
+          : { ...current, status: "failed", challengeError: result.error };
+        const ttl = current.lastSeenMs + REGISTRY_TTL_MS - Date.now();
+        if (ttl > 0) await this.store.set(PEER_PREFIX + key, next, ttl);
+      })
+      // The peer stays pending and is challenged again on a later heartbeat
+      .catch(() => undefined)
+      .finally(() => this.challenges.delete(key));
+    this.challenges.set(key, run);
+  }
+
+  /**
+   * Forgets a registered peer at once, instead of after `REGISTRY_TTL_MS` without
+   * heartbeats. Static peers stay known. False if the peer was not registered.
+   */
+  async deregister(url: string): Promise<boolean> {
+    const key = PEER_PREFIX + normalizeUrl(url);
+    if ((await this.store.get(key)) === undefined) return false;
+    await this.store.delete(key);
+    return true;
+  }
+
+  /**
+   * Whether a peer announced it is shutting down; such peers get no new verifies.
+   */
+  async isDraining(url: string): Promise<boolean> {
+    return (await this.store.get<RegisteredPeer>(PEER_PREFIX + normalizeUrl(url)))?.draining === true;
   }
 
-  getActivePeers(staticPeers: string[]): string[] {
+  /**
+   * Resolves once any challenge running in this process for `url` has finished.
+   */
+  async whenChallenged(url: string): Promise<void> {
+    await this.challenges.get(normalizeUrl(url));
+  }
+
+  /**
+   * Records a registration nonce; false if it was already used within `ttlMs`.
+   */
+  claimNonce(nonce: string, ttlMs: number): Promise<boolean> {
+    return this.store.setIfAbsent(NONCE_PREFIX + nonce, true, ttlMs);
+  }
+
+  /**
+   * Static peers plus active registered peers with a recent heartbeat, whatever their health.
+   */
+  async getKnownPeers(staticPeers: string[]): Promise<string[]> {
     const out = new Set<string>();
     for (const p of staticPeers) out.add(normalizeUrl(p));
     const now = Date.now();
-    for (const { url, lastSeenMs } of this.registered.values()) {
-      if (now - lastSeenMs <= REGISTRY_TTL_MS) out.add(normalizeUrl(url));
+    for (const [, { url, lastSeenMs, status }] of await this.store.scan<RegisteredPeer>(PEER_PREFIX)) {
+      if (now - lastSeenMs <= REGISTRY_TTL_MS && (status ?? "active") === "active") out.add(normalizeUrl(url));
     }
     return Array.from(out);
   }
 
   /**
-   * Remove stale peers that haven't sent a heartbeat within TTL.
+   * Known peers that may receive traffic (circuit not open).
+   */
+  async getActivePeers(staticPeers: string[]): Promise<string[]> {
+    const known = await this.getKnownPeers(staticPeers);
+    const health = this.health;
+    return health ? known.filter((p) => health.isAvailable(p)) : known;
+  }
+
+  /**
+   * Diagnostics for every known peer.
    */
-  cleanup(): void {
+  async describePeers(staticPeers: string[]): Promise<PeerDetails[]> {
+    const health = (url: string) => this.health?.snapshot(url) ?? { circuit: "closed" as const, consecutiveFailures: 0 };
+    const out = new Map<string, PeerDetails>();
+    for (const p of staticPeers) {
+      const url = normalizeUrl(p);
+      const draining = (await this.isDraining(url)) || undefined;
+      out.set(url, { url, source: "static", status: "active", draining, ...health(url) });
+    }
     const now = Date.now();
-    for (const [k, v] of this.registered) {
-      if (now - v.lastSeenMs > REGISTRY_TTL_MS) this.registered.delete(k);
+    for (const [, peer] of await this.store.scan<RegisteredPeer>(PEER_PREFIX)) {
+      if (now - peer.lastSeenMs > REGISTRY_TTL_MS || out.has(peer.url)) continue;
+      out.set(peer.url, {
+        url: peer.url,
+        source: "registered",
+        status: peer.status ?? "active",
+        challengeError: peer.challengeError,
+        draining: peer.draining,
+        ...health(peer.url),
+      });
+    }
+    return Array.from(out.values());
+  }
+
+  /**
+   * Kinds a peer is known to support: from its registration if it is still
+   * active, otherwise from a cached `/supported` probe. Undefined when unknown.
+   */
+  async getKinds(url: string): Promise<SupportedPaymentKind[] | undefined> {
+    const key = normalizeUrl(url);
+    const reg = await this.store.get<RegisteredPeer>(PEER_PREFIX + key);
+    if (reg?.kinds) return reg.kinds;
+    return (await this.store.get<ProbedKinds>(KINDS_PREFIX + key))?.kinds;
+  }
+
+  /**
+   * Fetches `/supported` from peers whose kinds are neither registered nor cached.
+   * Failed probes are cached as unknown for a shorter period so a dead static
+   * peer does not add a probe timeout to every request.
+   */
+  async probeKinds(peers: string[], timeoutMs: number = SUPPORTED_TIMEOUT): Promise<void> {
+    await Promise.all(
+      peers.map(async (p) => {
+        const key = normalizeUrl(p);
+        if (!(await this.needsProbe(key))) return undefined;
+        let pending = this.probing.get(key);
+        if (!pending) {
+          pending = this.probe(key, timeoutMs).finally(() => this.probing.delete(key));
+          this.probing.set(key, pending);
+        }
+        return pending;
+      })
+    );
+  }
+
+  private async needsProbe(key: string): Promise<boolean> {
+    if ((await this.store.get<RegisteredPeer>(PEER_PREFIX + key))?.kinds) return false;
+    return (await this.store.get<ProbedKinds>(KINDS_PREFIX + key)) === undefined;
+  }
+
+  private async probe(key: string, timeoutMs: number): Promise<void> {
+    let kinds: SupportedPaymentKind[] | undefined;
+    try {
+      const j = await getJson<{ kinds?: unknown }>(key + "/supported", timeoutMs);
+      const parsed = supportedKindsSchema.safeParse(j?.kinds);
+      if (parsed.success) kinds = parsed.data;
+    } catch {
+      // fall through: cache as unknown
     }
+    if (kinds) await this.store.set<ProbedKinds>(KINDS_PREFIX + key, { kinds }, KINDS_TTL_MS);
+    else await this.store.set<ProbedKinds>(KINDS_PREFIX + key, {}, KINDS_RETRY_MS);
+  }
+
+  /**
+   * Remove stale peers that haven't sent a heartbeat within TTL.
+   */
+  async cleanup(): Promise<void> {
+    await this.store.purge?.();
   }
 
   /**
-   * Stop cleanup timer and clear all state.
+   * Stop cleanup timer and clear all state. A shared store passed in the
+   * options is left untouched, since other replicas still rely on it.
    */
   destroy(): void {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
-    this.registered.clear();
+    this.ownedStore?.clear();
   }
 
   /**
    * Get current registry size for monitoring.
    */
-  get size(): number {
-    return this.registered.size;
+  async size(): Promise<number> {
+    return (await this.store.scan(PEER_PREFIX)).length;
+  }
+}
+
+// ─── Settle Tracker (payment → in-flight/completed settle attempt) ───────────
+
+const SETTLE_PREFIX = "settle:";
+const SETTLEMENT_OWNER_PREFIX = "settlement-owner:";
+const SETTLEMENT_NOTIFIED_PREFIX = "settlement-notified:";
+
+export class SettleTracker {
+  private readonly store: GatewayStateStore;
+  private readonly ownedStore?: MemoryStateStore;
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly followers = new Set<ReturnType<typeof setTimeout>>();
+  private destroyed = false;
+
+  constructor(autoCleanup = true, options: StoreOptions = {}) {
+    if (!options.store) this.ownedStore = new MemoryStateStore();
+    this.store = options.store ?? this.ownedStore!;
+    if (autoCleanup) this.startCleanup();
+  }
+
+  private startCleanup(): void {
+    // A failed cleanup (e.g. a store that is briefly unavailable) is retried on the next tick
+    this.cleanupTimer = setInterval(() => void this.cleanup().catch(() => undefined), CLEANUP_INTERVAL_MS);
+    // Allow process to exit even if timer is active
+    this.cleanupTimer.unref?.();
+  }
+
+  /**
+   * Returns the live record stored under any of the payment's keys.
+   */
+  async get(keys: string[]): Promise<SettleRecord | undefined> {
+    for (const key of keys) {
+      const record = await this.store.get<SettleRecord>(SETTLE_PREFIX + key);
+      if (record) return record;
+    }
+    return undefined;
+  }
+
+  async set(keys: string[], record: SettleRecord): Promise<void> {
+    await Promise.all(keys.map((key) => this.store.set(SETTLE_PREFIX + key, record, SETTLE_RECORD_TTL_MS)));
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.store.delete(SETTLE_PREFIX + key)));
+  }
+
+  /**
+   * Records the peer that accepted an asynchronous settle, so `GET /settle/:id` reaches it.
+   */
+  setOwner(settlementId: string, owner: SettlementOwner): Promise<void> {
+    return this.store.set(SETTLEMENT_OWNER_PREFIX + settlementId, owner, SETTLE_RECORD_TTL_MS);
+  }
+
+  async getOwner(settlementId: string): Promise<SettlementOwner | undefined> {
+    const owner = await this.store.get<SettlementOwner | string>(SETTLEMENT_OWNER_PREFIX + settlementId);
+    // Earlier versions stored the peer alone
+    return typeof owner === "string" ? { peer: owner } : owner;
+  }
+
+  /**
+   * True for the first caller only, so webhooks for an asynchronous settlement are sent once.
+   */
+  claimNotification(settlementId: string): Promise<boolean> {
+    return this.store.setIfAbsent(SETTLEMENT_NOTIFIED_PREFIX + settlementId, true, SETTLE_RECORD_TTL_MS);
+  }
+
+  /**
+   * Runs `poll` every `intervalMs` until it returns true or the settle record would have
+   * expired, e.g. to learn the outcome of an asynchronous settle. Stopped by `destroy`.
+   */
+  follow(poll: () => Promise<boolean>, intervalMs = SETTLEMENT_POLL_INTERVAL_MS): void {
+    const until = Date.now() + SETTLE_RECORD_TTL_MS;
+    const schedule = () => {
+      const timer = setTimeout(async () => {
+        this.followers.delete(timer);
+        const done = await poll().catch(() => false);
+        if (!done && !this.destroyed && Date.now() + intervalMs <= until) schedule();
+      }, intervalMs);
+      timer.unref?.();
+      this.followers.add(timer);
+    };
+    schedule();
+  }
+
+  /**
+   * Remove expired entries from the cache.
+   */
+  async cleanup(): Promise<void> {
+    await this.store.purge?.();
+  }
+
+  /**
+   * Stop cleanup timer and clear all state. A shared store passed in the
+   * options is left untouched, since other replicas still rely on it.
+   */
+  destroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.destroyed = true;
+    for (const timer of this.followers) clearTimeout(timer);
+    this.followers.clear();
+    this.ownedStore?.clear();
+  }
+
+  /**
+   * Get current number of tracked keys for monitoring.
+   */
+  async size(): Promise<number> {
+    return (await this.store.scan(SETTLE_PREFIX)).length;
   }
 }
 
@@ -319,45 +694,329 @@ export async function aggregateSupportedKinds(
 
 export type GatewayResult = { status: number; body: unknown };
 
-type GatewayHandlerOptions = {
+/** A verify or settle result with what the ledger records about it. */
+type PeerResult = GatewayResult & {
+  /** Peer whose answer this is. */
+  peer?: string;
+  /** Answered from an earlier settle of the same payment. */
+  replayed?: boolean;
+};
+
+/**
+ * Stateful pieces a handler may use. Only `sticky` is required; the rest
+ * enable network-aware routing, idempotent settles and circuit breaking.
+ */
+export type GatewayComponents = {
+  sticky: StickyRouter;
+  /** When set, peers are filtered to those supporting the request's kind. */
+  registry?: PeerRegistry;
+  /** When set, duplicate settles of the same payment are answered without resubmitting. */
+  settles?: SettleTracker;
+  /** When set, every peer response or failure feeds the peer's circuit breaker. */
+  health?: PeerHealth;
+  /** Orders candidate peers; without it the primary and fallbacks are random. */
+  routing?: RoutingStrategy;
+  /** When set, latency and outcome of every peer request are recorded for `routing`. */
+  stats?: PeerStatsTracker;
+  /** When set, requests, peer responses and fallbacks are counted for `/metrics`. */
+  metrics?: GatewayMetrics;
+  /** When set, verifies are refused while draining, everything once closed, and requests are tracked. */
+  lifecycle?: GatewayLifecycle;
+  /** When set, every verify and settle is recorded with the peer that handled it. */
+  ledger?: SettlementLedger;
+  /** When set, subscribers of a payment's `payTo` are told when its settle confirms or fails. */
+  webhooks?: WebhookDispatcher;
+};
+
+type GatewayHandlerOptions = GatewayComponents & {
   peers: string[];
   inbound: ForwardBody;
-  sticky: StickyRouter;
-  debug?: boolean;
-  logPrefix?: string;
+  /** Value of the inbound `Idempotency-Key` header, if any. */
+  idempotencyKey?: string;
+  /** Inbound `Prefer: respond-async`; forwarded, so the peer answers a settle with `202` and a settlement id. */
+  respondAsync?: boolean;
+  /** Correlates log records; forwarded to peers as `X-Request-Id`. */
+  requestId?: string;
+  logger?: Logger;
+  redactPayers?: boolean;
 };
 
+/**
+ * Narrows `peers` to those that support the kind required by `body`. Peers
+ * whose kinds are unknown (unregistered kinds and a failed probe) are kept.
+ */
+export async function selectPeersForKind(
+  registry: PeerRegistry,
+  peers: string[],
+  body: ForwardBody
+): Promise<{ peers: string[]; required?: RequiredKind }> {
+  const required = getRequiredKind(body);
+  if (!required) return { peers };
+  await registry.probeKinds(peers);
+  const kinds = await Promise.all(peers.map((p) => registry.getKinds(p)));
+  const capable = peers.filter((_p, i) => kinds[i] === undefined || supportsKind(kinds[i]!, required));
+  return { peers: capable, required };
+}
+
+function isTimeout(e: unknown): boolean {
+  return e instanceof Error && e.name === "AbortError";
+}
+
 function describeError(e: unknown): string {
-  if (e instanceof Error && e.name === "AbortError") return "timed out";
+  if (isTimeout(e)) return "timed out";
   return "network error: " + (e instanceof Error ? e.message : String(e));
 }
 
+/**
+ * Asks a peer what became of a settle it may have received. Undefined when the
+ * peer cannot tell us (unreachable, or a node without `/settle/status`).
+ */
+export async function querySettleOutcome(
+  peer: string,
+  body: ForwardBody
+): Promise<SettlementStatusBody | undefined> {
+  try {
+    const r = await postJson<SettlementStatusBody>(normalizeUrl(peer) + "/settle/status", body, SETTLE_STATUS_TIMEOUT);
+    if (r.status !== 200 || typeof r.body?.status !== "string") return undefined;
+    return r.body;
+  } catch {
+    return undefined;
+  }
+}
+
+function recordPeerResponse(health: PeerHealth | undefined, peer: string, status: number): void {
+  if (!health) return;
+  // 4xx means the peer is up and judged the request; only 5xx counts against it
+  if (status >= 500) health.recordFailure(peer, `responded ${status}`);
+  else health.recordSuccess(peer);
+}
+
+/**
+ * Order in which `candidates` are tried; a sticky `preferred` peer goes first.
+ */
+function orderPeers(opts: GatewayHandlerOptions, candidates: string[], preferred?: string): string[] {
+  if (!opts.routing) return rotateToNext(candidates, preferred ?? pickSelectedPeerForVerify(candidates));
+  const order = opts.routing.order(candidates, opts.stats ?? new PeerStatsTracker());
+  if (!preferred || !order.includes(preferred)) return order;
+  return [preferred, ...order.filter((p) => p !== preferred)];
+}
+
+type GatewayRoute = "verify" | "settle";
+
+/**
+ * Starts timing the `attempt`-th request (0 for the first choice) of a route to
+ * `peer`; the returned function records its outcome in `stats` and `metrics`.
+ */
+async function trackPeerRequest(
+  opts: GatewayHandlerOptions,
+  route: GatewayRoute,
+  peer: string,
+  attempt: number
+): Promise<(status: number | "timeout" | "error") => void> {
+  const metrics = opts.metrics;
+  const network = metrics && (await metricsNetworkLabel(opts));
+  const done = opts.stats?.begin(peer);
+  if (!metrics || !network) return (status) => done?.(typeof status === "number" && status < 500);
+  if (attempt > 0) metrics.fallbacks.inc({ route, network });
+  const stopTimer = metrics.peerDuration.startTimer();
+  return (status) => {
+    done?.(typeof status === "number" && status < 500);
+    stopTimer({ route, peer });
+    metrics.peerRequests.inc({ route, network, peer, status });
+  };
+}
+
+/**
+ * Network label for `metrics`: the request's network when one of its peers announced
+ * it in `/supported` or its registration, else `other`.
+ */
+async function metricsNetworkLabel(opts: GatewayHandlerOptions): Promise<string> {
+  const kinds = opts.registry ? await Promise.all(opts.peers.map((p) => opts.registry!.getKinds(p))) : [];
+  return getNetworkLabel(normalizeForwardBody(opts.inbound), (network) =>
+    kinds.some((k) => k?.some((kind) => kind.network === network))
+  );
+}
+
+/**
+ * Logger whose records carry the request's id, route, network and payer.
+ */
+function requestLogger(opts: GatewayHandlerOptions, route: GatewayRoute): Logger {
+  const logger = opts.logger ?? silentLogger;
+  const body = normalizeForwardBody(opts.inbound);
+  const base = {
+    requestId: opts.requestId,
+    route,
+    network: getNetworkLabel(body),
+    payer: redactPayer(getPayerFromBody(body), opts.redactPayers),
+  };
+  return {
+    debug: (fields, msg) => logger.debug({ ...base, ...fields }, msg),
+    info: (fields, msg) => logger.info({ ...base, ...fields }, msg),
+    warn: (fields, msg) => logger.warn({ ...base, ...fields }, msg),
+    error: (fields, msg) => logger.error({ ...base, ...fields }, msg),
+  };
+}
+
+/**
+ * Runs a handler, then records its status and duration in `metrics` and the log,
+ * the request in the `ledger`, and a settle's outcome for `webhooks`.
+ */
+async function observeRequest(
+  opts: GatewayHandlerOptions,
+  route: GatewayRoute,
+  run: (log: Logger) => Promise<PeerResult>
+): Promise<GatewayResult> {
+  const log = requestLogger(opts, route);
+  const started = performance.now();
+  const { peer, replayed, ...result } = await run(log);
+  const durationMs = Math.round(performance.now() - started);
+  if (opts.metrics) {
+    const network = await metricsNetworkLabel(opts);
+    opts.metrics.duration.observe({ route, network }, durationMs / 1000);
+    opts.metrics.requests.inc({ route, network, status: result.status });
+  }
+  log[result.status >= 500 ? "warn" : "info"]({ status: result.status, durationMs }, `${route} completed`);
+  if (opts.ledger) await recordLedger(opts.ledger, opts, route, { ...result, peer, replayed }, durationMs, log);
+  if (opts.webhooks && route === "settle" && !replayed) notifySettle(opts.webhooks, opts, result, peer);
+  return result;
+}
+
+/**
+ * Tells webhook subscribers about a settle a peer answered. Payments the peer refused
+ * by policy or screening, and settles whose outcome is not known yet, are not settlements.
+ */
+function notifySettle(
+  webhooks: WebhookDispatcher,
+  opts: GatewayHandlerOptions,
+  result: GatewayResult,
+  peer: string | undefined
+): void {
+  const outcome = getLedgerOutcome("settle", result.status, result.body);
+  if (outcome?.outcome !== "success" && outcome?.outcome !== "failure") return;
+  if (outcome.outcome === "failure" && !isSettleAttempted(result.body)) return;
+  void webhooks.notify(
+    outcome.outcome === "success" ? "settlement.confirmed" : "settlement.failed",
+    normalizeForwardBody(opts.inbound),
+    { transaction: outcome.transaction, errorReason: outcome.reason, node: peer }
+  );
+}
+
+/**
+ * Tells webhook subscribers about an asynchronous settle the first time it is found
+ * confirmed or failed, by `GET /settle/:id` or by following it; the gateway never sees
+ * the node's own callback.
+ */
+async function notifySettlement(
+  opts: SettlementLookupOptions,
+  payment: ForwardBody,
+  body: unknown,
+  peer: string
+): Promise<void> {
+  const settlement = body as Partial<AsyncSettlementBody> | undefined;
+  if (!opts.webhooks || !opts.settles) return;
+  if (settlement?.status !== "confirmed" && settlement?.status !== "failed") return;
+  if (settlement.status === "failed" && !isSettleAttempted(settlement)) return;
+  if (!(await opts.settles.claimNotification(opts.settlementId))) return;
+  void opts.webhooks.notify(settlement.status === "confirmed" ? "settlement.confirmed" : "settlement.failed", payment, {
+    transaction: settlement.transaction || undefined,
+    errorReason: settlement.errorReason ?? settlement.error,
+    node: peer,
+  });
+}
+
+async function recordLedger(
+  ledger: SettlementLedger,
+  opts: GatewayHandlerOptions,
+  route: GatewayRoute,
+  result: PeerResult,
+  latencyMs: number,
+  log: Logger
+): Promise<void> {
+  const outcome = getLedgerOutcome(route, result.status, result.body);
+  // A 409 is the settle already in progress, which is recorded itself
+  if (!outcome) return;
+  if (result.replayed) outcome.outcome = "replayed";
+  const details = { node: result.peer, latencyMs, requestId: opts.requestId };
+  try {
+    await ledger.record(createLedgerEntry(route, normalizeForwardBody(opts.inbound), outcome, details));
+  } catch (e: unknown) {
+    log.error({ error: e instanceof Error ? e.message : String(e) }, "ledger record failed");
+  }
+}
+
+function peerHeaders(opts: Pick<GatewayHandlerOptions, "requestId" | "respondAsync">): Record<string, string> {
+  return {
+    ...(opts.requestId && { "x-request-id": opts.requestId }),
+    ...(opts.respondAsync && { prefer: "respond-async" }),
+  };
+}
+
+function settleFailure(status: number, error: string): GatewayResult {
+  return { status, body: { success: false, error, txHash: null, networkId: null } };
+}
+
 export async function handleGatewayVerify(opts: GatewayHandlerOptions): Promise<GatewayResult> {
-  const { peers, sticky, debug, logPrefix = "[gateway]" } = opts;
+  const run = () => observeRequest(opts, "verify", (log) => verifyViaPeers(opts, log));
+  return opts.lifecycle ? opts.lifecycle.track(run) : run();
+}
+
+async function verifyViaPeers(opts: GatewayHandlerOptions, log: Logger): Promise<PeerResult> {
+  const { peers, sticky } = opts;
+  if (opts.lifecycle && !opts.lifecycle.acceptsVerify) {
+    return { status: 503, body: { error: `Gateway is ${opts.lifecycle.state}` } };
+  }
   if (!peers || peers.length === 0) return { status: 503, body: { error: "No peers configured" } };
 
   const forwardBody = normalizeForwardBody(opts.inbound);
 
   try {
-    const primary = pickSelectedPeerForVerify(peers);
-    const order = rotateToNext(peers, primary);
-    let lastError: PeerResponse | undefined;
-    for (const base of order) {
+    let candidates = peers;
+    if (opts.registry) {
+      const selected = await selectPeersForKind(opts.registry, peers, forwardBody);
+      if (selected.peers.length === 0 && selected.required) {
+        return { status: 400, body: { error: describeRequiredKind(selected.required) } };
+      }
+      // Draining peers only finish settles of payments they already verified
+      const draining = await Promise.all(selected.peers.map((p) => opts.registry?.isDraining(p)));
+      candidates = selected.peers.filter((_p, i) => !draining[i]);
+      if (candidates.length === 0) return { status: 503, body: { error: "No peers accepting verifies" } };
+    }
+    const order = orderPeers(opts, candidates);
+    let lastError: PeerResult | undefined;
+    for (const [i, base] of order.entries()) {
+      // A half-open peer takes a single trial request; the others go to healthy peers
+      if (opts.health && !opts.health.acquire(base)) continue;
       const url = normalizeUrl(base) + "/verify";
+      const done = await trackPeerRequest(opts, "verify", base, i);
+      let response: { status: number; body: unknown };
       try {
-        if (debug) console.log(logPrefix, "verify via", url);
-        const response = await postJson(url, forwardBody, VERIFY_TIMEOUT);
-        if (response.status === 200) {
-          sticky.recordSelection(base, forwardBody, response.body);
-          return { status: 200, body: response.body };
-        }
-        if (debug) console.log(logPrefix, "verify non-200 from", url, response.status, response.body);
-        lastError = response;
+        log.debug({ peer: base, attempt: i }, "forwarding verify");
+        response = await postJson(url, forwardBody, VERIFY_TIMEOUT, peerHeaders(opts));
       } catch (e: unknown) {
-        if (debug) console.log(logPrefix, "verify failed for", url, describeError(e));
+        done(isTimeout(e) ? "timeout" : "error");
+        opts.health?.recordFailure(base, describeError(e));
+        log.warn({ peer: base, error: describeError(e) }, "verify request to peer failed");
+        continue;
       }
+      done(response.status);
+      recordPeerResponse(opts.health, base, response.status);
+      // Store errors fail the request below rather than counting against the peer
+      if (response.status === 200) {
+        await sticky.recordSelection(base, forwardBody, response.body);
+        opts.lifecycle?.recordVerify();
+        return { status: 200, body: response.body, peer: base };
+      }
+      if (isScreeningDenial(response.status, response.body)) {
+        log.info({ peer: base }, "verify denied by peer screening");
+        return { status: response.status, body: response.body, peer: base };
+      }
+      log[response.status >= 500 ? "warn" : "debug"](
+        { peer: base, status: response.status, body: response.body },
+        "verify not accepted by peer"
+      );
+      lastError = { status: response.status, body: response.body, peer: base };
     }
-    if (lastError) return { status: lastError.status, body: lastError.body };
+    if (lastError) return lastError;
     return { status: 503, body: { error: "Verification unavailable" } };
   } catch (err: unknown) {
     return {
@@ -368,54 +1027,470 @@ export async function handleGatewayVerify(opts: GatewayHandlerOptions): Promise<
 }
 
 export async function handleGatewaySettle(opts: GatewayHandlerOptions): Promise<GatewayResult> {
-  const { peers, sticky, debug, logPrefix = "[gateway]" } = opts;
+  const run = () =>
+    observeRequest(opts, "settle", (log) =>
+      // e.g. the state store failing; a retry is answered by the nodes' own settle records
+      settleViaPeers(opts, log).catch((err: unknown) => {
+        log.error({ error: describeError(err) }, "settle failed");
+        return settleFailure(500, err instanceof Error ? err.message : "Unknown error");
+      })
+    );
+  return opts.lifecycle ? opts.lifecycle.track(run) : run();
+}
+
+async function settleViaPeers(opts: GatewayHandlerOptions, log: Logger): Promise<PeerResult> {
+  const { peers, sticky } = opts;
+  if (opts.lifecycle && !opts.lifecycle.acceptsSettle) return settleFailure(503, "Gateway is closed");
   if (!peers || peers.length === 0) {
     return { status: 503, body: { success: false, error: "No peers configured", txHash: null, networkId: null } };
   }
 
   const forwardBody = normalizeForwardBody(opts.inbound);
-  const preferred = sticky.getPreferredPeer(forwardBody) ?? pickSelectedPeerForVerify(peers);
-  const order = rotateToNext(peers, preferred);
+  let candidates = peers;
+  if (opts.registry) {
+    const selected = await selectPeersForKind(opts.registry, peers, forwardBody);
+    if (selected.peers.length === 0 && selected.required) {
+      return {
+        status: 400,
+        body: { success: false, error: describeRequiredKind(selected.required), txHash: null, networkId: null },
+      };
+    }
+    candidates = selected.peers;
+  }
+  const keys = opts.settles ? getSettleKeys(forwardBody, opts.idempotencyKey) : [];
+  const settles = keys.length > 0 ? opts.settles : undefined;
+  if (settles) {
+    const existing = await settles.get(keys);
+    if (existing) {
+      const replay = await replaySettle(settles, keys, existing, forwardBody);
+      if (replay) return replay;
+      log.info({ peer: existing.peer }, "previous settle attempt did not complete; resubmitting");
+    }
+    await settles.set(keys, { state: "pending" });
+  }
 
-  for (const peer of order) {
+  const order = orderPeers(opts, candidates, await sticky.getPreferredPeer(forwardBody));
+
+  for (const [i, peer] of order.entries()) {
+    if (opts.health && !opts.health.acquire(peer)) continue;
     const url = normalizeUrl(peer) + "/settle";
+    const done = await trackPeerRequest(opts, "settle", peer, i);
+    let response: { status: number; body: unknown };
     try {
-      if (debug) console.log(logPrefix, "settling via", url);
-      const response = await postJson(url, forwardBody, SETTLE_TIMEOUT);
-      if (response.status === 200) return { status: 200, body: response.body };
-      if (debug) console.log(logPrefix, "settle non-200 from", url, response.status, response.body);
+      log.debug({ peer, attempt: i }, "forwarding settle");
+      response = await postJson(url, forwardBody, SETTLE_TIMEOUT, peerHeaders(opts));
     } catch (err: unknown) {
-      if (debug) console.log(logPrefix, "settle failed for", url, describeError(err));
+      done(isTimeout(err) ? "timeout" : "error");
+      opts.health?.recordFailure(peer, describeError(err));
+      log.warn({ peer, error: describeError(err) }, "settle request to peer failed");
+      if (!isTimeout(err)) continue;
+      // The peer may have submitted the transaction before timing out: only fail over
+      // once it confirms the settle failed or never arrived.
+      const outcome = await querySettleOutcome(peer, forwardBody);
+      log.info({ peer, outcome: outcome?.status ?? "unavailable" }, "queried settle outcome after timeout");
+      if (outcome?.status === "settled") {
+        const result = { status: 200, body: outcome.response };
+        await settles?.set(keys, { state: "settled", peer, result });
+        return { ...result, peer };
+      }
+      if (!outcome || outcome.status === "pending") {
+        await settles?.set(keys, { state: "unresolved", peer });
+        return { ...settleFailure(504, "Settle outcome unknown; retry later"), peer };
+      }
+      continue;
+    }
+    done(response.status);
+    recordPeerResponse(opts.health, peer, response.status);
+    // Outside the try: a store error must not make another peer settle the payment as well
+    if (response.status === 200) {
+      if (isSettleSuccess(response.body)) await settles?.set(keys, { state: "settled", peer, result: response });
+      else await settles?.delete(keys);
+      return { status: 200, body: response.body, peer };
+    }
+    if (response.status === 202) {
+      // Accepted for asynchronous settlement: a retry asks the peer for the outcome
+      await settles?.set(keys, { state: "unresolved", peer });
+      const id = (response.body as Partial<AsyncSettlementBody> | undefined)?.id;
+      const payment = opts.webhooks ? forwardBody : undefined;
+      if (typeof id === "string") {
+        await opts.settles?.setOwner(id, { peer, payment });
+        // Subscribers are told the outcome even if nobody asks the gateway for it
+        if (payment) opts.settles?.follow(() => followSettlement({ ...opts, peers: [peer], settlementId: id }));
+      }
+      return { status: 202, body: response.body, peer };
+    }
+    if (isScreeningDenial(response.status, response.body)) {
+      log.info({ peer }, "settle denied by peer screening");
+      await settles?.delete(keys);
+      return { status: response.status, body: response.body, peer };
+    }
+    if (response.status === 409) {
+      // The node is already settling this payment; another node must not try as well
+      await settles?.set(keys, { state: "unresolved", peer });
+      return { status: 409, body: response.body, peer };
+    }
+    log[response.status >= 500 ? "warn" : "debug"](
+      { peer, status: response.status, body: response.body },
+      "settle not accepted by peer"
+    );
+  }
+  await settles?.delete(keys);
+  return settleFailure(503, "Settle unavailable");
+}
+
+type SettlementLookupOptions = GatewayComponents & {
+  peers: string[];
+  settlementId: string;
+  requestId?: string;
+  logger?: Logger;
+};
+
+/**
+ * `GET /settle/:id`: asks the peer that accepted the asynchronous settle for its
+ * state. When the owner is unknown (e.g. its record expired), every peer is asked.
+ */
+export async function handleGatewaySettlementStatus(opts: SettlementLookupOptions): Promise<GatewayResult> {
+  const run = () => lookupSettlement(opts);
+  return opts.lifecycle ? opts.lifecycle.track(run) : run();
+}
+
+/**
+ * One poll of an asynchronous settle the gateway follows for its webhooks; true once the
+ * settle is final (and subscribers were told) or the peer no longer knows it.
+ */
+async function followSettlement(opts: SettlementLookupOptions): Promise<boolean> {
+  const result = await lookupSettlement(opts);
+  if (result.status === 404) return true;
+  const status = (result.body as Partial<AsyncSettlementBody> | undefined)?.status;
+  return result.status === 200 && (status === "confirmed" || status === "failed");
+}
+
+async function lookupSettlement(opts: SettlementLookupOptions): Promise<GatewayResult> {
+  if (opts.lifecycle && !opts.lifecycle.acceptsSettle) return { status: 503, body: { error: "Gateway is closed" } };
+  const owner = await opts.settles?.getOwner(opts.settlementId);
+  const candidates = owner ? [owner.peer] : opts.peers;
+  const log = opts.logger ?? silentLogger;
+  let unavailable = false;
+  for (const peer of candidates) {
+    const url = `${normalizeUrl(peer)}/settle/${encodeURIComponent(opts.settlementId)}`;
+    try {
+      const response = await getPeerJson(url, SETTLEMENT_LOOKUP_TIMEOUT, peerHeaders(opts));
+      recordPeerResponse(opts.health, peer, response.status);
+      if (response.status === 404) continue;
+      if (response.status === 200) {
+        await opts.settles?.setOwner(opts.settlementId, { peer, payment: owner?.payment });
+        if (owner?.payment) await notifySettlement(opts, owner.payment, response.body, peer);
+      }
+      return { status: response.status, body: response.body };
+    } catch (e: unknown) {
+      unavailable = true;
+      opts.health?.recordFailure(peer, describeError(e));
+      log.warn({ requestId: opts.requestId, peer, error: describeError(e) }, "settlement lookup on peer failed");
+    }
+  }
+  if (unavailable) return { status: 503, body: { error: "Settlement status unavailable" } };
+  return { status: 404, body: { error: "Unknown settlement" } };
+}
+
+/**
+ * Answers a settle for a payment the gateway has already seen. Returns undefined
+ * when the earlier attempt is known not to have settled, so it may be retried.
+ */
+async function replaySettle(
+  settles: SettleTracker,
+  keys: string[],
+  existing: SettleRecord,
+  body: ForwardBody
+): Promise<PeerResult | undefined> {
+  if (existing.state === "settled" && existing.result) {
+    return { ...existing.result, peer: existing.peer, replayed: true };
+  }
+  if (existing.state === "pending" || !existing.peer) return settleFailure(409, "Settlement already in progress");
+  const outcome = await querySettleOutcome(existing.peer, body);
+  if (outcome?.status === "settled") {
+    const result = { status: 200, body: outcome.response };
+    await settles.set(keys, { state: "settled", peer: existing.peer, result });
+    return { ...result, peer: existing.peer, replayed: true };
+  }
+  if (!outcome || outcome.status === "pending") return settleFailure(409, "Settlement already in progress");
+  return undefined;
+}
+
+/**
+ * Checks a `/register` or `/deregister` body's url and, with `auth`, its HMAC
+ * signature (see `signRegistration`) and nonce. Returns the url, or the error to answer.
+ */
+async function checkRegistration(
+  registry: PeerRegistry,
+  inbound: unknown,
+  auth: RegistrationAuthOptions | undefined
+): Promise<{ url: string } | { error: GatewayResult }> {
+  const body = inbound as { url?: string };
+  const url = String(body?.url || "").trim();
+  if (!url || !/^https?:\/\//i.test(url)) return { error: { status: 400, body: { error: "Invalid url" } } };
+  if (auth) {
+    const check = await verifyRegistration(inbound, auth);
+    if (!check.ok) return { error: { status: 401, body: { error: check.error } } };
+    // Nonces only need remembering while their timestamp is still inside the window
+    const window = 2 * (auth.maxSkewMs ?? REGISTRATION_MAX_SKEW_MS);
+    if (!(await registry.claimNonce(check.nonce, window))) {
+      return { error: { status: 401, body: { error: "Replayed registration" } } };
     }
   }
-  return { status: 503, body: { success: false, error: "Settle unavailable", txHash: null, networkId: null } };
+  return { url };
 }
 
-// Intentionally looser than x402's SupportedPaymentKindSchema: its network enum
-// is pinned to the installed x402 version, and peers may support newer networks.
-const registerKindsSchema = z.array(
-  z
-    .object({ x402Version: z.number(), scheme: z.string(), network: z.string() })
-    .passthrough()
-) as z.ZodType<SupportedPaymentKind[]>;
+/**
+ * Registers (or refreshes) a node. With `auth`, the body must carry a valid
+ * HMAC signature (see `signRegistration`) and an unused nonce. A body with
+ * `status: "draining"` marks the node as shutting down.
+ */
+export async function handleGatewayRegister(
+  registry: PeerRegistry,
+  inbound: unknown,
+  auth?: RegistrationAuthOptions
+): Promise<GatewayResult> {
+  try {
+    const checked = await checkRegistration(registry, inbound, auth);
+    if ("error" in checked) return checked.error;
+    const body = inbound as { kinds?: unknown; status?: unknown };
+    const parsedKinds = supportedKindsSchema.safeParse(body?.kinds);
+    const draining = body?.status === "draining";
+    const status = await registry.register(checked.url, parsedKinds.success ? parsedKinds.data : undefined, draining);
+    return { status: 200, body: { ok: true, status, ...(draining ? { draining } : {}) } };
+  } catch (e: unknown) {
+    return { status: 400, body: { error: e instanceof Error ? e.message : "Invalid request" } };
+  }
+}
 
-export function handleGatewayRegister(registry: PeerRegistry, inbound: unknown): GatewayResult {
+/**
+ * Removes a registered node, authenticated like `handleGatewayRegister`. Signed
+ * bodies must say `action: "deregister"`, so a captured registration cannot be
+ * replayed here to take a node out of rotation.
+ */
+export async function handleGatewayDeregister(
+  registry: PeerRegistry,
+  inbound: unknown,
+  auth?: RegistrationAuthOptions
+): Promise<GatewayResult> {
   try {
-    const body = inbound as { url?: string; kinds?: unknown };
-    const url = String(body?.url || "").trim();
-    if (!url || !/^https?:\/\//i.test(url)) return { status: 400, body: { error: "Invalid url" } };
-    const parsedKinds = registerKindsSchema.safeParse(body?.kinds);
-    registry.register(url, parsedKinds.success ? parsedKinds.data : undefined);
-    return { status: 200, body: { ok: true } };
+    if (auth && (inbound as { action?: unknown })?.action !== "deregister") {
+      return { status: 400, body: { error: "Not a deregistration" } };
+    }
+    const checked = await checkRegistration(registry, inbound, auth);
+    if ("error" in checked) return checked.error;
+    return { status: 200, body: { ok: true, removed: await registry.deregister(checked.url) } };
   } catch (e: unknown) {
     return { status: 400, body: { error: e instanceof Error ? e.message : "Invalid request" } };
   }
 }
 
+/**
+ * `POST /webhooks`: subscribes `{ payTo, url, secret?, events? }` and answers `201`
+ * with the subscription, including its (possibly generated) secret and its expiry.
+ * The body must be signed for the dispatcher's `subscribeAuth` (see `signRegistration`);
+ * without `subscribeAuth` there is no such route.
+ */
+export async function handleGatewayWebhookSubscribe(
+  webhooks: WebhookDispatcher | undefined,
+  inbound: unknown
+): Promise<GatewayResult> {
+  if (!webhooks?.subscribeAuth) return { status: 404, body: { error: "Webhooks not configured" } };
+  try {
+    const auth = await webhooks.authorizeSubscription(inbound);
+    if (!auth.ok) return { status: 401, body: { error: auth.error } };
+    const { payTo, url, secret, events } = inbound as Partial<WebhookSubscriptionInput>;
+    const subscription = await webhooks.subscribe({ payTo: payTo as string, url: url as string, secret, events });
+    return { status: 201, body: subscription };
+  } catch (e: unknown) {
+    const status = e instanceof WebhookSubscriptionLimitError ? e.status : 400;
+    return { status, body: { error: e instanceof Error ? e.message : "Invalid request" } };
+  }
+}
+
 // ─── Shared gateway options type ─────────────────────────────────────────────
 
-export type GatewayOptions = {
+export type GatewayOptions = LoggingOptions & {
   basePath?: string;
   httpPeers: string[];
+  /** Shorthand for `logLevel: "debug"` with the built-in console logger. */
   debug?: boolean;
+  /**
+   * Where sticky selections, registrations and settle attempts are kept.
+   * Share one store between replicas behind a load balancer; defaults to per-process memory.
+   */
+  store?: GatewayStateStore;
+  /**
+   * Background health checks and circuit breaking. Peers are probed every
+   * `intervalMs` (default 15s) on `path` (default `/supported`); `false`
+   * disables probing, leaving only live request errors to open circuits.
+   */
+  healthCheck?: false | (HealthProberOptions & PeerHealthOptions);
+  /**
+   * Require `/register` calls to be HMAC-signed with a shared secret. Nodes sign
+   * automatically when `startGatewayRegistration` is given the same secret.
+   */
+  registrationAuth?: RegistrationAuthOptions;
+  /**
+   * Keep newly registered nodes `pending` until the gateway has called back their
+   * `/supported` (and, with `echo`, their `/challenge`). `true` uses the defaults.
+   */
+  registrationChallenge?: boolean | ChallengeOptions;
+  /**
+   * How the primary peer and fallbacks are chosen: `random` (default), `round-robin`,
+   * `least-inflight`, `ewma-latency`, `success-rate`, or a custom `RoutingStrategy`.
+   * A sticky peer from a previous verify is still preferred for settle.
+   */
+  routing?: RoutingStrategyName | RoutingStrategy;
+  /** Serve Prometheus metrics on `GET /metrics`. */
+  metrics?: boolean;
+  /** Records every verify and settle with the peer that handled it, e.g. `new JsonlFileLedger(path)`. */
+  ledger?: SettlementLedger;
+  /** Serve the `ledger` on `GET /ledger`, with filters, pagination and CSV/JSONL export. */
+  serveLedger?: boolean;
+  /**
+   * Settlement webhooks per `payTo`, from `subscriptions` and, with `subscribeAuth`, `POST /webhooks`.
+   * Subscriptions added at runtime are kept in `store`. Pass a `WebhookDispatcher` to manage them yourself.
+   */
+  webhooks?: WebhookOptions | WebhookDispatcher;
+};
+
+// ─── Gateway context (state shared by a gateway adapter's routes) ───────────
+
+export type GatewayContext = Required<Omit<GatewayComponents, "metrics" | "ledger" | "webhooks">> & {
+  /** Set when `metrics` is, so nothing is recorded that is never served. */
+  metrics?: GatewayMetrics;
+  ledger?: SettlementLedger;
+  webhooks?: WebhookDispatcher;
+  prober?: HealthProber;
+  logger: Logger;
+  redactPayers: boolean;
+  /** Peers that may currently receive traffic. */
+  peers(): Promise<string[]>;
+  /** Diagnostics for every known peer, served by `GET /peers`. */
+  describePeers(): Promise<PeerDetails[]>;
+  /** Stops background timers and releases per-process state. */
+  destroy(): void;
+  /** See `GatewayHandle.drain`. */
+  drain(): Promise<void>;
+  /** See `GatewayHandle.close`. */
+  close(): Promise<void>;
+};
+
+/**
+ * Returned by the gateway adapters, to stop a gateway from tests or during a rolling deploy.
+ */
+export type GatewayHandle = {
+  registry: PeerRegistry;
+  sticky: StickyRouter;
+  /** Subscriptions and dead letters, when `webhooks` is set. */
+  webhooks?: WebhookDispatcher;
+  /** `running`, `draining` after `drain()`, or `closed` after `close()`. */
+  readonly state: GatewayLifecycleState;
+  /**
+   * Answers new verifies with `503` while settles of payments already verified
+   * here are still served. Resolves once their sticky selections have expired
+   * (`SELECTION_TTL_MS` after the last verify) and no request is in flight.
+   */
+  drain(): Promise<void>;
+  /**
+   * Answers every verify and settle with `503`, waits for in-flight requests,
+   * then stops the gateway's timers and releases its per-process state.
+   */
+  close(): Promise<void>;
 };
+
+/**
+ * The public handle on a gateway context.
+ */
+export function toGatewayHandle(gw: GatewayContext): GatewayHandle {
+  return {
+    registry: gw.registry,
+    sticky: gw.sticky,
+    webhooks: gw.webhooks,
+    get state() {
+      return gw.lifecycle.state;
+    },
+    drain: gw.drain,
+    close: gw.close,
+  };
+}
+
+/**
+ * Creates the routing state behind a gateway adapter and starts its health prober.
+ */
+export function createGatewayContext(options: GatewayOptions): GatewayContext {
+  const store = options.store;
+  const healthOptions = options.healthCheck === false ? {} : options.healthCheck ?? {};
+  const health = new PeerHealth(healthOptions);
+  const sticky = new StickyRouter(true, { store });
+  const challenge = options.registrationChallenge === true ? {} : options.registrationChallenge || undefined;
+  const registry = new PeerRegistry(true, { store, health, challenge });
+  const settles = new SettleTracker(true, { store });
+  const routing = typeof options.routing === "string" ? createRoutingStrategy(options.routing) : options.routing;
+  const stats = new PeerStatsTracker();
+  const staticPeers = () => options.httpPeers ?? [];
+  const peers = () => registry.getActivePeers(staticPeers());
+  const metrics = options.metrics ? new GatewayMetrics({ sticky, registry, peers }) : undefined;
+  const lifecycle = new GatewayLifecycle(SELECTION_TTL_MS);
+  const logger = resolveLogger(options, "gateway");
+  const webhooks =
+    !options.webhooks || options.webhooks instanceof WebhookDispatcher
+      ? options.webhooks
+      : new WebhookDispatcher({ logger, store, ...options.webhooks });
+
+  let prober: HealthProber | undefined;
+  if (options.healthCheck !== false) {
+    prober = new HealthProber(
+      health,
+      async () => {
+        const known = await registry.getKnownPeers(staticPeers());
+        stats.retain(known);
+        return known;
+      },
+      healthOptions
+    );
+    prober.start();
+  }
+
+  let closing: Promise<void> | undefined;
+  const destroy = () => {
+    prober?.stop();
+    sticky.destroy();
+    registry.destroy();
+    settles.destroy();
+    if (webhooks !== options.webhooks) webhooks?.close();
+  };
+
+  return {
+    sticky,
+    registry,
+    settles,
+    health,
+    routing: routing ?? createRoutingStrategy("random"),
+    stats,
+    metrics,
+    lifecycle,
+    ledger: options.ledger,
+    webhooks,
+    prober,
+    logger,
+    redactPayers: options.redactPayers ?? false,
+    peers,
+    describePeers: async () =>
+      (await registry.describePeers(staticPeers())).map((d) => ({ ...d, stats: stats.get(d.url) })),
+    destroy,
+    async drain() {
+      logger.info({}, "gateway draining");
+      await lifecycle.drain();
+      logger.info({}, "gateway drained");
+    },
+    close() {
+      closing ??= lifecycle.close().then(() => {
+        destroy();
+        logger.info({}, "gateway closed");
+      });
+      return closing;
+    },
+  };
+}
@@ -0,0 +1,187 @@
+// JSON Lines file backed GatewayStateStore for sharing state between local processes.
+
+import fs from "node:fs";
+import path from "node:path";
+import { type GatewayStateStore, type StoredEntry, isLive, toEntry } from "./store.js";
+
+const LOCK_STALE_MS = 5_000; // a lock older than this is assumed abandoned
+const LOCK_RETRY_MS = 2;
+const LOCK_MAX_ATTEMPTS = 1_000;
+
+/** One line of the journal: a write of `key`, or its removal. */
+type JournalRecord = { key: string; deleted?: true } & Partial<StoredEntry>;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stores gateway state in a journal file so several gateway processes on one
+ * host (or a shared volume) see the same sticky selections and peers.
+ *
+ * Every write appends one line under a lock file; reads only parse the lines
+ * appended since the previous read. `purge` compacts the journal to the live
+ * entries. Intended for local and small deployments, not high write volumes.
+ */
+export class FileStateStore implements GatewayStateStore {
+  private readonly lockPath: string;
+  private entries = new Map<string, StoredEntry>();
+  /** Inode and length of the journal read into `entries`. */
+  private ino?: number;
+  private offset = 0;
+  /** Runs this instance's operations one at a time, so journal reads never overlap. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    this.lockPath = filePath + ".lock";
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  get<T>(key: string): Promise<T | undefined> {
+    return this.serialize(async () => {
+      await this.catchUp();
+      const entry = this.entries.get(key);
+      return isLive(entry, Date.now()) ? (entry.value as T) : undefined;
+    });
+  }
+
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    return this.write(async () => this.append({ key, ...toEntry(value, ttlMs) }));
+  }
+
+  setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    return this.write(async () => {
+      if (isLive(this.entries.get(key), Date.now())) return false;
+      await this.append({ key, ...toEntry(value, ttlMs) });
+      return true;
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.write(async () => this.append({ key, deleted: true }));
+  }
+
+  scan<T>(prefix: string): Promise<Array<[string, T]>> {
+    return this.serialize(async () => {
+      await this.catchUp();
+      const now = Date.now();
+      const out: Array<[string, T]> = [];
+      for (const [k, v] of this.entries) {
+        if (k.startsWith(prefix) && isLive(v, now)) out.push([k, v.value as T]);
+      }
+      return out;
+    });
+  }
+
+  /** Rewrites the journal with only the live entries. */
+  purge(): Promise<void> {
+    return this.write(async () => {
+      const now = Date.now();
+      const lines: string[] = [];
+      for (const [key, entry] of this.entries) {
+        if (isLive(entry, now)) lines.push(JSON.stringify({ key, ...entry }) + "\n");
+      }
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, lines.join(""));
+      await fs.promises.rename(tmp, this.filePath);
+    });
+  }
+
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Runs `fn` under the lock, on the latest journal. */
+  private write<T>(fn: () => Promise<T>): Promise<T> {
+    return this.serialize(() =>
+      this.withLock(async () => {
+        await this.catchUp();
+        return fn();
+      })
+    );
+  }
+
+  // Read back by the next catchUp, like other processes' lines
+  private async append(record: JournalRecord): Promise<void> {
+    await fs.promises.appendFile(this.filePath, JSON.stringify(record) + "\n");
+  }
+
+  private async catchUp(): Promise<void> {
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(this.filePath);
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+      this.entries.clear();
+      this.ino = undefined;
+      this.offset = 0;
+      return;
+    }
+    // `purge` renames a new journal into place
+    if (stat.ino !== this.ino || stat.size < this.offset) {
+      this.entries.clear();
+      this.ino = stat.ino;
+      this.offset = 0;
+    }
+    if (stat.size === this.offset) return;
+    const handle = await fs.promises.open(this.filePath, "r");
+    let chunk: Buffer;
+    try {
+      chunk = Buffer.alloc(stat.size - this.offset);
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, this.offset);
+      chunk = chunk.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+    // A line still being written is read next time
+    const end = chunk.lastIndexOf(0x0a) + 1;
+    for (const line of chunk.subarray(0, end).toString("utf8").split("\n")) this.apply(line);
+    this.offset += end;
+  }
+
+  private apply(line: string): void {
+    if (!line) return;
+    let record: JournalRecord;
+    try {
+      record = JSON.parse(line) as JournalRecord;
+    } catch {
+      return; // corrupt line: skipped rather than failing requests
+    }
+    if (typeof record?.key !== "string") return;
+    if (record.deleted) this.entries.delete(record.key);
+    else this.entries.set(record.key, { value: record.value, expiresAt: record.expiresAt ?? null });
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; attempt < LOCK_MAX_ATTEMPTS; attempt++) {
+      let handle: fs.promises.FileHandle;
+      try {
+        handle = await fs.promises.open(this.lockPath, "wx");
+      } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+        await this.breakStaleLock();
+        await sleep(LOCK_RETRY_MS);
+        continue;
+      }
+      try {
+        return await fn();
+      } finally {
+        await handle.close();
+        await fs.promises.rm(this.lockPath, { force: true });
+      }
+    }
+    throw new Error(`Timed out waiting for state store lock ${this.lockPath}`);
+  }
+
+  private async breakStaleLock(): Promise<void> {
+    try {
+      if (Date.now() - (await fs.promises.stat(this.lockPath)).mtimeMs > LOCK_STALE_MS) {
+        await fs.promises.rm(this.lockPath, { force: true });
+      }
+    } catch {
+      // lock released in the meantime
+    }
+  }
+}
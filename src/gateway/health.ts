@@ -0,0 +1,184 @@
+// Per-peer circuit breakers fed by live traffic and a background health prober.
+
+import type { CircuitState, PeerHealthSnapshot } from "./types.js";
+
+export const HEALTH_CHECK_INTERVAL_MS = 15_000;
+export const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+export const FAILURE_THRESHOLD = 3; // consecutive failures that open a circuit
+export const OPEN_DURATION_MS = 30_000; // how long an open circuit rejects traffic before a trial
+export const TRIAL_TIMEOUT_MS = 60_000; // a trial request that never reported back frees its slot after this
+
+export type PeerHealthOptions = {
+  failureThreshold?: number;
+  openDurationMs?: number;
+};
+
+type PeerHealthEntry = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  lastCheckedMs?: number;
+  lastError?: string;
+  /** When the half-open circuit's trial request was sent. */
+  trialStartedAt?: number;
+};
+
+/**
+ * Tracks a closed/open/half-open circuit per peer.
+ *
+ * - closed: traffic flows; `failureThreshold` consecutive failures open the circuit
+ * - open: the peer is skipped until `openDurationMs` has passed
+ * - half-open: a single trial request is allowed (see `acquire`); its success closes the
+ *   circuit and its failure re-opens it, while other requests go to healthy peers
+ */
+export class PeerHealth {
+  private peers = new Map<string, PeerHealthEntry>();
+  private readonly failureThreshold: number;
+  private readonly openDurationMs: number;
+
+  constructor(options: PeerHealthOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? FAILURE_THRESHOLD);
+    this.openDurationMs = options.openDurationMs ?? OPEN_DURATION_MS;
+  }
+
+  recordSuccess(peer: string): void {
+    this.peers.set(peer, { state: "closed", consecutiveFailures: 0, lastCheckedMs: Date.now() });
+  }
+
+  recordFailure(peer: string, error?: string): void {
+    const now = Date.now();
+    const prev = this.entry(peer);
+    const consecutiveFailures = prev.consecutiveFailures + 1;
+    const open = prev.state === "half-open" || consecutiveFailures >= this.failureThreshold;
+    this.peers.set(peer, {
+      state: open ? "open" : prev.state,
+      consecutiveFailures,
+      openedAt: open ? now : prev.openedAt,
+      lastCheckedMs: now,
+      lastError: error,
+    });
+  }
+
+  /**
+   * Current circuit state, moving an open circuit to half-open once its open period has passed.
+   */
+  getState(peer: string): CircuitState {
+    const e = this.entry(peer);
+    if (e.state === "open" && e.openedAt !== undefined && Date.now() - e.openedAt >= this.openDurationMs) {
+      e.state = "half-open";
+      this.peers.set(peer, e);
+    }
+    return e.state;
+  }
+
+  /**
+   * Whether `peer` may be sent a request: its circuit is closed, or half-open with no trial in flight.
+   */
+  isAvailable(peer: string): boolean {
+    const state = this.getState(peer);
+    return state === "closed" || (state === "half-open" && !this.trialInFlight(this.entry(peer)));
+  }
+
+  /**
+   * Claims `peer` for a request about to be sent. Always granted while the circuit is
+   * closed; while it is half-open only the first claim is granted, until the trial's
+   * outcome is recorded (or `TRIAL_TIMEOUT_MS` has passed).
+   */
+  acquire(peer: string): boolean {
+    if (!this.isAvailable(peer)) return false;
+    const e = this.entry(peer);
+    if (e.state === "half-open") this.peers.set(peer, { ...e, trialStartedAt: Date.now() });
+    return true;
+  }
+
+  snapshot(peer: string): PeerHealthSnapshot {
+    const state = this.getState(peer);
+    const { consecutiveFailures, lastCheckedMs, lastError } = this.entry(peer);
+    return { circuit: state, consecutiveFailures, lastCheckedMs, lastError };
+  }
+
+  /**
+   * Forget peers that are no longer known, so the map does not grow unbounded.
+   */
+  retain(peers: string[]): void {
+    const keep = new Set(peers);
+    for (const k of this.peers.keys()) {
+      if (!keep.has(k)) this.peers.delete(k);
+    }
+  }
+
+  private trialInFlight(e: PeerHealthEntry): boolean {
+    return e.trialStartedAt !== undefined && Date.now() - e.trialStartedAt < TRIAL_TIMEOUT_MS;
+  }
+
+  private entry(peer: string): PeerHealthEntry {
+    return this.peers.get(peer) ?? { state: "closed", consecutiveFailures: 0 };
+  }
+}
+
+export type HealthProberOptions = {
+  intervalMs?: number;
+  timeoutMs?: number;
+  /** Path probed on each peer; defaults to `/supported`. */
+  path?: string;
+};
+
+/**
+ * Periodically probes every known peer and feeds the results into `PeerHealth`.
+ */
+export class HealthProber {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly intervalMs: number;
+  private readonly timeoutMs: number;
+  private readonly path: string;
+
+  constructor(
+    private readonly health: PeerHealth,
+    private readonly peers: () => string[] | Promise<string[]>,
+    options: HealthProberOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? HEALTH_CHECK_INTERVAL_MS;
+    this.timeoutMs = options.timeoutMs ?? HEALTH_CHECK_TIMEOUT_MS;
+    this.path = options.path ?? "/supported";
+  }
+
+  start(): void {
+    if (this.timer) return;
+    // A failed peer lookup skips one round of checks
+    const checkAll = () => void this.checkAll().catch(() => undefined);
+    this.timer = setInterval(checkAll, this.intervalMs);
+    // Allow process to exit even if timer is active
+    this.timer.unref?.();
+    checkAll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async checkAll(): Promise<void> {
+    const peers = await this.peers();
+    this.health.retain(peers);
+    await Promise.all(peers.map((p) => this.check(p)));
+  }
+
+  async check(peer: string): Promise<void> {
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const res = await fetch(peer + this.path, { signal: controller.signal });
+      // Drain the body so the connection can be reused
+      await res.arrayBuffer().catch(() => undefined);
+      if (res.ok) this.health.recordSuccess(peer);
+      else this.health.recordFailure(peer, `health check returned ${res.status}`);
+    } catch (e: unknown) {
+      const reason = e instanceof Error && e.name === "AbortError" ? "timed out" : e instanceof Error ? e.message : String(e);
+      this.health.recordFailure(peer, `health check failed: ${reason}`);
+    } finally {
+      clearTimeout(t);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// Matching payment requests against the kinds a peer supports.
+
+import { z } from "zod";
+import type { SupportedPaymentKind } from "x402/types";
+import type { ForwardBody, RequiredKind } from "./types.js";
+
+// Intentionally looser than x402's SupportedPaymentKindSchema: its network enum
+// is pinned to the installed x402 version, and peers may support newer networks.
+export const supportedKindsSchema = z.array(
+  z
+    .object({ x402Version: z.number(), scheme: z.string(), network: z.string() })
+    .passthrough()
+) as z.ZodType<SupportedPaymentKind[]>;
+
+/**
+ * Extracts the (scheme, network, x402Version) a peer must support to serve the body.
+ * Returns undefined when the body does not name a network (e.g. legacy header-only format).
+ */
+export function getRequiredKind(body: ForwardBody): RequiredKind | undefined {
+  const requirements = body?.paymentRequirements as Record<string, unknown> | undefined;
+  const payloadObj = body?.paymentPayload as Record<string, unknown> | undefined;
+  const pick = (key: string): string | undefined => {
+    const v = requirements?.[key] ?? payloadObj?.[key];
+    return typeof v === "string" && v.length > 0 ? v : undefined;
+  };
+  const network = pick("network");
+  if (!network) return undefined;
+  const x402Version = payloadObj?.x402Version;
+  return {
+    network,
+    scheme: pick("scheme"),
+    x402Version: typeof x402Version === "number" ? x402Version : undefined,
+  };
+}
+
+export function supportsKind(kinds: SupportedPaymentKind[], required: RequiredKind): boolean {
+  return kinds.some(
+    (k) =>
+      k.network === required.network &&
+      (required.scheme === undefined || k.scheme === required.scheme) &&
+      (required.x402Version === undefined || k.x402Version === required.x402Version)
+  );
+}
+
+export function describeRequiredKind(required: RequiredKind): string {
+  let msg = `No peer supports network ${required.network}`;
+  if (required.scheme) msg += ` with scheme ${required.scheme}`;
+  if (required.x402Version !== undefined) msg += ` (x402Version ${required.x402Version})`;
+  return msg;
+}
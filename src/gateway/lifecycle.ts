@@ -0,0 +1,95 @@
+// Drain and close for a gateway: refuse new work, then wait for what was already accepted.
+
+export type GatewayLifecycleState = "running" | "draining" | "closed";
+
+/**
+ * Tracks a gateway's in-flight requests and verifies so it can be drained
+ * (no new verifies; settles for payments it verified are still served) and
+ * closed (nothing is served) without cutting off requests it has accepted.
+ */
+export class GatewayLifecycle {
+  private current: GatewayLifecycleState = "running";
+  private inflight = 0;
+  private lastVerifyMs?: number;
+  private idleWaiters: (() => void)[] = [];
+  private readonly closing = new AbortController();
+
+  /**
+   * @param selectionTtlMs how long after a verify its settle may still arrive
+   *   (the sticky selection TTL)
+   */
+  constructor(private readonly selectionTtlMs: number) {}
+
+  get state(): GatewayLifecycleState {
+    return this.current;
+  }
+
+  /** Whether new verifies are refused. */
+  get acceptsVerify(): boolean {
+    return this.current === "running";
+  }
+
+  /** Whether settles are still served. */
+  get acceptsSettle(): boolean {
+    return this.current !== "closed";
+  }
+
+  /**
+   * Counts `run` as in flight until it settles, so `drain` and `close` wait for it.
+   */
+  async track<T>(run: () => Promise<T>): Promise<T> {
+    this.inflight++;
+    try {
+      return await run();
+    } finally {
+      if (--this.inflight === 0) this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  /** Records a verify a peer accepted; its settle is expected within the selection TTL. */
+  recordVerify(): void {
+    this.lastVerifyMs = Date.now();
+  }
+
+  /**
+   * Stops accepting verifies. Resolves once the selection TTL of the last
+   * accepted verify has passed (or the gateway is closed) and no request is in flight.
+   */
+  async drain(): Promise<void> {
+    if (this.current === "running") this.current = "draining";
+    // Verifies accepted before draining may still complete while we wait, pushing the deadline out
+    while (this.current === "draining") {
+      const wait = (this.lastVerifyMs ?? 0) + this.selectionTtlMs - Date.now();
+      if (wait > 0) await this.sleep(wait);
+      await this.whenIdle();
+      if ((this.lastVerifyMs ?? 0) + this.selectionTtlMs <= Date.now()) return;
+    }
+    await this.whenIdle();
+  }
+
+  /**
+   * Stops accepting requests. Resolves once no request is in flight.
+   */
+  async close(): Promise<void> {
+    this.current = "closed";
+    this.closing.abort();
+    await this.whenIdle();
+  }
+
+  // Cut short by `close`
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      const abort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.closing.signal.addEventListener("abort", abort, { once: true });
+    });
+  }
+
+  private whenIdle(): Promise<void> {
+    if (this.inflight === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+}
@@ -0,0 +1,67 @@
+// Prometheus metrics recorded by the gateway request handlers.
+
+import { type Counter, type Histogram, MetricsRegistry } from "../metrics.js";
+
+export type GatewayMetricsSources = {
+  sticky?: { size(): Promise<{ payers: number; headers: number }> };
+  registry?: { size(): Promise<number> };
+  /** Peers currently eligible for traffic. */
+  peers?: () => Promise<string[]>;
+};
+
+export class GatewayMetrics {
+  readonly registry = new MetricsRegistry();
+  readonly requests: Counter;
+  readonly duration: Histogram;
+  readonly peerRequests: Counter;
+  readonly peerDuration: Histogram;
+  readonly fallbacks: Counter;
+  /** Read from the state store before each render; the gauges report the last values read. */
+  private readonly samplers: Array<() => Promise<void>> = [];
+
+  constructor(sources: GatewayMetricsSources = {}) {
+    const r = this.registry;
+    this.requests = r.counter(
+      "x402_gateway_requests_total",
+      "Verify and settle requests answered by the gateway, by route, network and status."
+    );
+    this.duration = r.histogram(
+      "x402_gateway_request_duration_seconds",
+      "Time to answer verify and settle requests, including fallbacks, by route and network."
+    );
+    this.peerRequests = r.counter(
+      "x402_gateway_peer_requests_total",
+      "Requests forwarded to peers, by route, network, peer and status (HTTP status, timeout or error)."
+    );
+    this.peerDuration = r.histogram(
+      "x402_gateway_peer_request_duration_seconds",
+      "Response time of peers, by route and peer."
+    );
+    this.fallbacks = r.counter(
+      "x402_gateway_fallbacks_total",
+      "Requests forwarded to another peer after the previous one failed, by route and network."
+    );
+    const { sticky, registry, peers } = sources;
+    if (sticky) {
+      let size = { payers: 0, headers: 0 };
+      this.samplers.push(async () => void (size = await sticky.size()));
+      r.gauge("x402_gateway_sticky_payers", "Payers with a sticky peer selection.", () => size.payers);
+      r.gauge("x402_gateway_sticky_headers", "Payment headers with a sticky peer selection.", () => size.headers);
+    }
+    if (registry) {
+      let size = 0;
+      this.samplers.push(async () => void (size = await registry.size()));
+      r.gauge("x402_gateway_registered_peers", "Peers in the registration registry.", () => size);
+    }
+    if (peers) {
+      let active = 0;
+      this.samplers.push(async () => void (active = (await peers()).length));
+      r.gauge("x402_gateway_active_peers", "Peers currently eligible for traffic.", () => active);
+    }
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.samplers.map((sample) => sample()));
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,172 @@
+// Peer statistics and the strategies that order peers for verify and settle.
+
+import type { PeerStats } from "./types.js";
+
+export const EWMA_ALPHA = 0.3; // weight of the newest sample in the latency average
+
+/**
+ * Per-process request statistics for each peer. In-flight counts are local to
+ * this gateway replica, so stats are not kept in the shared state store.
+ */
+export class PeerStatsTracker {
+  private peers = new Map<string, PeerStats>();
+
+  /**
+   * Marks a request to `peer` as started. Call the returned function once with
+   * whether the peer answered (a response below 500) when it completes.
+   */
+  begin(peer: string): (ok: boolean) => void {
+    const startedAt = Date.now();
+    const s = this.entry(peer);
+    s.inflight++;
+    let done = false;
+    return (ok) => {
+      if (done) return;
+      done = true;
+      const latency = Date.now() - startedAt;
+      s.inflight = Math.max(0, s.inflight - 1);
+      s.requests++;
+      if (ok) s.successes++;
+      else s.failures++;
+      s.ewmaLatencyMs = s.ewmaLatencyMs === undefined ? latency : EWMA_ALPHA * latency + (1 - EWMA_ALPHA) * s.ewmaLatencyMs;
+    };
+  }
+
+  get(peer: string): PeerStats {
+    return { ...(this.peers.get(peer) ?? { inflight: 0, requests: 0, successes: 0, failures: 0 }) };
+  }
+
+  /**
+   * Forget peers that are no longer known, so the map does not grow unbounded.
+   */
+  retain(peers: string[]): void {
+    const keep = new Set(peers);
+    for (const k of this.peers.keys()) {
+      if (!keep.has(k)) this.peers.delete(k);
+    }
+  }
+
+  private entry(peer: string): PeerStats {
+    let s = this.peers.get(peer);
+    if (!s) {
+      s = { inflight: 0, requests: 0, successes: 0, failures: 0 };
+      this.peers.set(peer, s);
+    }
+    return s;
+  }
+}
+
+/**
+ * Orders the peers able to serve a request: the first is tried first, the rest
+ * are fallbacks in order.
+ */
+export interface RoutingStrategy {
+  readonly name: string;
+  order(peers: string[], stats: PeerStatsTracker): string[];
+}
+
+export type RoutingStrategyName = "random" | "round-robin" | "least-inflight" | "ewma-latency" | "success-rate";
+
+function shuffle<T>(arr: T[]): T[] {
+  const out = arr.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Weighted random order without replacement: each position is drawn in
+ * proportion to the weights of the peers not yet placed.
+ */
+function weightedOrder(peers: string[], weight: (peer: string) => number): string[] {
+  const pool = peers.map((p) => ({ p, w: Math.max(weight(p), Number.EPSILON) }));
+  const out: string[] = [];
+  while (pool.length > 0) {
+    let r = Math.random() * pool.reduce((sum, e) => sum + e.w, 0);
+    let i = 0;
+    while (i < pool.length - 1 && (r -= pool[i].w) > 0) i++;
+    out.push(pool.splice(i, 1)[0].p);
+  }
+  return out;
+}
+
+/** Uniformly random primary and fallbacks. */
+export function randomStrategy(): RoutingStrategy {
+  return { name: "random", order: (peers) => shuffle(peers) };
+}
+
+/** Each request starts one peer further along the (sorted) list. */
+export function roundRobinStrategy(): RoutingStrategy {
+  let next = 0;
+  return {
+    name: "round-robin",
+    order(peers) {
+      if (peers.length === 0) return [];
+      const sorted = peers.slice().sort();
+      const start = next++ % sorted.length;
+      return [...sorted.slice(start), ...sorted.slice(0, start)];
+    },
+  };
+}
+
+/** Fewest requests in flight first; ties are broken randomly. */
+export function leastInflightStrategy(): RoutingStrategy {
+  return {
+    name: "least-inflight",
+    order: (peers, stats) =>
+      shuffle(peers)
+        .map((p) => ({ p, n: stats.get(p).inflight }))
+        .sort((a, b) => a.n - b.n)
+        .map((e) => e.p),
+  };
+}
+
+/**
+ * Picks peers with probability inversely proportional to their latency average.
+ * Peers without samples get the weight of the fastest known peer, so they are tried.
+ */
+export function ewmaLatencyStrategy(): RoutingStrategy {
+  return {
+    name: "ewma-latency",
+    order(peers, stats) {
+      const known = peers.map((p) => stats.get(p).ewmaLatencyMs).filter((l): l is number => l !== undefined);
+      const fallback = known.length > 0 ? Math.min(...known) : 1;
+      return weightedOrder(peers, (p) => 1 / Math.max(1, stats.get(p).ewmaLatencyMs ?? fallback));
+    },
+  };
+}
+
+/**
+ * Picks peers in proportion to their success rate, smoothed so that new peers
+ * start at 50% and one failure does not starve a peer.
+ */
+export function successRateStrategy(): RoutingStrategy {
+  return {
+    name: "success-rate",
+    order(peers, stats) {
+      return weightedOrder(peers, (p) => {
+        const s = stats.get(p);
+        return (s.successes + 1) / (s.requests + 2);
+      });
+    },
+  };
+}
+
+export function createRoutingStrategy(name: RoutingStrategyName): RoutingStrategy {
+  switch (name) {
+    case "random":
+      return randomStrategy();
+    case "round-robin":
+      return roundRobinStrategy();
+    case "least-inflight":
+      return leastInflightStrategy();
+    case "ewma-latency":
+      return ewmaLatencyStrategy();
+    case "success-rate":
+      return successRateStrategy();
+    default:
+      throw new Error(`Unknown routing strategy: ${String(name)}`);
+  }
+}
@@ -0,0 +1,94 @@
+// Key/value state backing the gateway's sticky selections, peer registry and settle tracking.
+
+/**
+ * Storage for gateway state. Pass one instance to every gateway replica
+ * (via `GatewayOptions.store`) to share sticky selections and registrations.
+ *
+ * Methods are async so state can live in Redis or a database; expired entries
+ * must never be returned.
+ */
+export interface GatewayStateStore {
+  get<T>(key: string): Promise<T | undefined>;
+  /** Stores `value`, expiring it after `ttlMs` when given. */
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  /**
+   * Stores `value` unless `key` holds a live entry; false when it did. Must be atomic
+   * across every process sharing the store, as it guards registration nonces.
+   */
+  setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** Returns every live entry whose key starts with `prefix`. */
+  scan<T>(prefix: string): Promise<Array<[string, T]>>;
+  /** Drops expired entries. Optional for stores that expire on their own. */
+  purge?(): Promise<void>;
+}
+
+export type StoreOptions = {
+  /** Shared state store; defaults to a private in-memory store. */
+  store?: GatewayStateStore;
+};
+
+/**
+ * Stored entry with its absolute expiry (epoch ms), or null when it never expires.
+ */
+export interface StoredEntry<T = unknown> {
+  value: T;
+  expiresAt: number | null;
+}
+
+export function isLive(entry: StoredEntry | undefined, now: number): entry is StoredEntry {
+  return !!entry && (entry.expiresAt === null || entry.expiresAt > now);
+}
+
+export function toEntry<T>(value: T, ttlMs?: number): StoredEntry<T> {
+  return { value, expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs };
+}
+
+/**
+ * Default per-process store.
+ */
+export class MemoryStateStore implements GatewayStateStore {
+  private entries = new Map<string, StoredEntry>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    return isLive(entry, Date.now()) ? (entry.value as T) : undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, toEntry(value, ttlMs));
+  }
+
+  async setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    if (isLive(this.entries.get(key), Date.now())) return false;
+    this.entries.set(key, toEntry(value, ttlMs));
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async scan<T>(prefix: string): Promise<Array<[string, T]>> {
+    const now = Date.now();
+    const out: Array<[string, T]> = [];
+    for (const [k, v] of this.entries) {
+      if (k.startsWith(prefix) && isLive(v, now)) out.push([k, v.value as T]);
+    }
+    return out;
+  }
+
+  async purge(): Promise<void> {
+    const now = Date.now();
+    for (const [k, v] of this.entries) {
+      if (!isLive(v, now)) this.entries.delete(k);
+    }
+  }
+
+  /**
+   * Remove every entry.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -38,6 +38,94 @@ export interface RegisteredPeer {
   url: string;
   kinds?: SupportedPaymentKind[];
   lastSeenMs: number;
+  /** Absent when registrations are not challenged (the peer is active). */
+  status?: PeerStatus;
+  challengedAtMs?: number;
+  challengeError?: string;
+  /** The node is shutting down: it gets no new verifies, but settles of payments it verified. */
+  draining?: boolean;
+}
+
+/**
+ * Registration state of a peer: `pending` until its reachability challenge
+ * passes, `failed` if it did not.
+ */
+export type PeerStatus = "pending" | "active" | "failed";
+
+/**
+ * Cached result of probing a peer's `/supported` endpoint.
+ * `kinds` is undefined when the probe failed.
+ */
+export interface ProbedKinds {
+  kinds?: SupportedPaymentKind[];
+}
+
+/**
+ * The payment kind a request needs from the peer that serves it.
+ */
+export interface RequiredKind {
+  network: string;
+  scheme?: string;
+  x402Version?: number;
+}
+
+/**
+ * A settle attempt tracked by the gateway, shared by every key of the payment.
+ * `unresolved` means the request to `peer` timed out and its outcome is not yet known.
+ */
+export interface SettleRecord {
+  state: "pending" | "unresolved" | "settled";
+  peer?: string;
+  result?: PeerResponse;
+}
+
+/**
+ * The peer that accepted an asynchronous settle. With webhooks, the payment is kept
+ * too, so its subscribers are told once `GET /settle/:id` finds the settlement final.
+ */
+export interface SettlementOwner {
+  peer: string;
+  payment?: ForwardBody;
+}
+
+/**
+ * Circuit-breaker state of a peer. Open peers receive no traffic.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Health of a peer as observed by health checks and live requests.
+ */
+export interface PeerHealthSnapshot {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  lastCheckedMs?: number;
+  lastError?: string;
+}
+
+/**
+ * Request statistics the gateway keeps per peer to drive routing strategies.
+ */
+export interface PeerStats {
+  inflight: number;
+  requests: number;
+  /** Requests the peer answered below 500. */
+  successes: number;
+  failures: number;
+  /** Exponentially weighted moving average of response time; absent until the first response. */
+  ewmaLatencyMs?: number;
+}
+
+/**
+ * Diagnostic entry for a known peer, as reported by `GET /peers`.
+ */
+export interface PeerDetails extends PeerHealthSnapshot {
+  url: string;
+  source: "static" | "registered";
+  status: PeerStatus;
+  challengeError?: string;
+  draining?: boolean;
+  stats?: PeerStats;
 }
 
 /**
@@ -0,0 +1,37 @@
+// HMAC-SHA256 and random secrets through WebCrypto, so the gateway, its fetch handler and
+// webhooks run without Node built-ins.
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, "0");
+  return hex;
+}
+
+/** Hex HMAC-SHA256 of `data` keyed with `secret`. */
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data))));
+}
+
+/**
+ * Compares two hex digests in time that does not depend on where they differ.
+ */
+export function digestsEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/** `bytes` random bytes, hex encoded. */
+export function randomHex(bytes: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
@@ -1,3 +1,5 @@
 export { createHonoAdapter } from "./adapters/honoAdapter.js";
 export { createHonoGatewayAdapter } from "./adapters/honoGateway.js";
-export type { HonoGatewayOptions } from "./adapters/honoGateway.js";
+export type { HonoGatewayOptions, HonoGateway } from "./adapters/honoGateway.js";
+export type { HonoAdapterOptions } from "./adapters/honoAdapter.js";
+export type { GatewayHandle } from "./gateway/core.js";
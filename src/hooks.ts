@@ -0,0 +1,82 @@
+// Lifecycle hooks around the Facilitator's verify and settle, for auditing, quotas and
+// custom checks without changing the request handling itself.
+
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
+import type { HandlerResponse } from "./facilitator.js";
+
+export type FacilitatorHookContext = {
+  route: "verify" | "settle";
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  /** Undefined when the payer cannot be read from the payload. */
+  payer?: string;
+  /** Inbound `X-Request-Id`. */
+  requestId?: string;
+  /** The request body as received, for fields beyond the payment (e.g. `callbackUrl`). */
+  body: unknown;
+  /**
+   * Shared by every hook of one request, e.g. a tenant a quota hook resolved for an
+   * audit hook. Included in the request's log record when not empty.
+   */
+  metadata: Record<string, unknown>;
+};
+
+type Awaitable<T> = T | Promise<T>;
+
+/**
+ * Hooks run in the order given; each may be async. `before*` hooks run after the payment
+ * policy and screening, and returning a response answers the request with it without
+ * verifying or settling; later hooks are skipped. `after*` and `onError` hooks get the
+ * response so far and may return another one in its place. An error thrown by another
+ * hook fails the request like any other (`400`), after `onError`.
+ */
+export type FacilitatorHooks = {
+  beforeVerify?: (ctx: FacilitatorHookContext) => Awaitable<HandlerResponse | void>;
+  afterVerify?: (ctx: FacilitatorHookContext, response: HandlerResponse) => Awaitable<HandlerResponse | void>;
+  /** Not run for a replay of a settled payment or while it is in flight. */
+  beforeSettle?: (ctx: FacilitatorHookContext) => Awaitable<HandlerResponse | void>;
+  /**
+   * Gets the settle response, or the `202` of one answered asynchronously. The settle's
+   * outcome is recorded before, so a replay answers what the chain returned. One that
+   * throws is logged and skipped: the payment has settled, and an error would make a
+   * gateway settle it again elsewhere.
+   */
+  afterSettle?: (ctx: FacilitatorHookContext, response: HandlerResponse) => Awaitable<HandlerResponse | void>;
+  /**
+   * Errors after the body was parsed; invalid bodies are answered `400` without hooks.
+   * An `onError` hook that throws is logged and skipped.
+   */
+  onError?: (
+    ctx: FacilitatorHookContext,
+    error: unknown,
+    response: HandlerResponse
+  ) => Awaitable<HandlerResponse | void>;
+};
+
+/**
+ * Runs `beforeVerify` or `beforeSettle` hooks until one answers the request.
+ */
+export async function runBeforeHooks(
+  hooks: readonly FacilitatorHooks[],
+  name: "beforeVerify" | "beforeSettle",
+  ctx: FacilitatorHookContext
+): Promise<HandlerResponse | undefined> {
+  for (const hook of hooks) {
+    const response = await hook[name]?.(ctx);
+    if (response) return response;
+  }
+  return undefined;
+}
+
+/**
+ * Passes `response` through every `afterVerify` hook.
+ */
+export async function runAfterHooks(
+  hooks: readonly FacilitatorHooks[],
+  name: "afterVerify",
+  ctx: FacilitatorHookContext,
+  response: HandlerResponse
+): Promise<HandlerResponse> {
+  for (const hook of hooks) response = (await hook[name]?.(ctx, response)) ?? response;
+  return response;
+}
@@ -1,57 +1,163 @@
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import type { Router, Request, Response } from "express";
 import {
   type GatewayOptions,
   aggregateSupportedKinds,
   handleGatewayVerify,
   handleGatewaySettle,
+  handleGatewaySettlementStatus,
   handleGatewayRegister,
-  StickyRouter,
-  PeerRegistry,
+  handleGatewayDeregister,
+  handleGatewayWebhookSubscribe,
+  type GatewayHandle,
+  createGatewayContext,
+  toGatewayHandle,
 } from "./gateway/core.js";
+import { formatError } from "./adapters/shared/errorHandler.js";
+import { METRICS_CONTENT_TYPE } from "./metrics.js";
+import { prefersAsync } from "./payment.js";
+import { serveLedger } from "./ledger.js";
 
 export type HttpGatewayOptions = GatewayOptions;
 
-export function createHttpGatewayAdapter(router: Router, options: HttpGatewayOptions): void {
+/**
+ * Mounts gateway routes on an Express router. The returned handle drains or
+ * closes the gateway and gives access to its peer registry and sticky router.
+ */
+export function createHttpGatewayAdapter(router: Router, options: HttpGatewayOptions): GatewayHandle {
   const basePath = options.basePath ?? "";
-  const sticky = new StickyRouter();
-  const registry = new PeerRegistry();
-  const logPrefix = "[http-gateway]";
+  const gw = createGatewayContext(options);
 
   function normalizePath(path: string): string {
     const p = basePath + path;
     return p || "/";
   }
 
-  function peers(): string[] {
-    return registry.getActivePeers(options.httpPeers ?? []);
-  }
-
   // GET /supported — aggregate from peers
   router.get(normalizePath("/supported"), async (_req: Request, res: Response) => {
-    const kinds = await aggregateSupportedKinds(peers());
-    return res.status(200).json({ kinds });
+    try {
+      const kinds = await aggregateSupportedKinds(await gw.peers());
+      return res.status(200).json({ kinds });
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
   });
 
-  // POST /verify — single randomly selected node (stick to this node by payer/header)
+  // POST /verify — single randomly selected node supporting the network (stick to this node by payer/header)
   router.post(normalizePath("/verify"), async (req: Request, res: Response) => {
-    const r = await handleGatewayVerify({ peers: peers(), inbound: req.body, sticky, debug: options.debug, logPrefix });
-    return res.status(r.status).json(r.body);
+    try {
+      const r = await handleGatewayVerify({
+        ...gw,
+        peers: await gw.peers(),
+        inbound: req.body,
+        requestId: req.get("x-request-id") ?? randomUUID(),
+      });
+      return res.status(r.status).json(r.body);
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
   });
 
   // POST /settle — use the same selected node (sticky by payer/header); fallback to others on failure
   router.post(normalizePath("/settle"), async (req: Request, res: Response) => {
-    const r = await handleGatewaySettle({ peers: peers(), inbound: req.body, sticky, debug: options.debug, logPrefix });
-    return res.status(r.status).json(r.body);
+    try {
+      const r = await handleGatewaySettle({
+        ...gw,
+        peers: await gw.peers(),
+        inbound: req.body,
+        idempotencyKey: req.get("idempotency-key"),
+        respondAsync: prefersAsync(req.get("prefer")),
+        requestId: req.get("x-request-id") ?? randomUUID(),
+      });
+      return res.status(r.status).json(r.body);
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
+  });
+
+  // GET /settle/:id — asynchronous settle state, from the node that accepted it
+  router.get(normalizePath("/settle/:id"), async (req: Request, res: Response) => {
+    try {
+      const r = await handleGatewaySettlementStatus({
+        ...gw,
+        peers: await gw.peers(),
+        settlementId: req.params.id,
+        requestId: req.get("x-request-id") ?? randomUUID(),
+      });
+      return res.status(r.status).json(r.body);
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
   });
 
   // POST /register — nodes can self-register with the gateway
   router.post(normalizePath("/register"), async (req: Request, res: Response) => {
-    const r = handleGatewayRegister(registry, req.body);
-    return res.status(r.status).json(r.body);
+    try {
+      const r = await handleGatewayRegister(gw.registry, req.body, options.registrationAuth);
+      return res.status(r.status).json(r.body);
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
+  });
+
+  // POST /deregister — nodes leaving the pool are dropped at once instead of after the registry TTL
+  router.post(normalizePath("/deregister"), async (req: Request, res: Response) => {
+    try {
+      const r = await handleGatewayDeregister(gw.registry, req.body, options.registrationAuth);
+      return res.status(r.status).json(r.body);
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
   });
 
-  // Optional: expose current active peers for external load balancers/diagnostics
-  router.get(normalizePath("/peers"), (_req: Request, res: Response) => {
-    return res.status(200).json({ peers: peers() });
+  // POST /webhooks — merchants subscribe to settlement outcomes for their payTo (with webhooks.subscribeAuth)
+  if (gw.webhooks?.subscribeAuth) {
+    router.post(normalizePath("/webhooks"), async (req: Request, res: Response) => {
+      try {
+        const r = await handleGatewayWebhookSubscribe(gw.webhooks, req.body);
+        return res.status(r.status).json(r.body);
+      } catch (error) {
+        return res.status(500).json(formatError(error));
+      }
+    });
+  }
+
+  // Optional: expose current active peers (and every known peer's health) for external load balancers/diagnostics
+  router.get(normalizePath("/peers"), async (_req: Request, res: Response) => {
+    try {
+      return res.status(200).json({ peers: await gw.peers(), details: await gw.describePeers() });
+    } catch (error) {
+      return res.status(500).json(formatError(error));
+    }
   });
+
+  // GET /metrics — Prometheus scrape endpoint (opt-in)
+  const metrics = gw.metrics;
+  if (metrics) {
+    router.get(normalizePath("/metrics"), async (_req: Request, res: Response) => {
+      try {
+        return res.status(200).type(METRICS_CONTENT_TYPE).send(await metrics.render());
+      } catch (error) {
+        return res.status(500).json(formatError(error));
+      }
+    });
+  }
+
+  // GET /ledger — recorded verifies and settles, with filters and CSV/JSONL export (opt-in)
+  if (options.serveLedger) {
+    router.get(normalizePath("/ledger"), async (req: Request, res: Response) => {
+      try {
+        const r = await serveLedger(gw.ledger, new URL(req.originalUrl, "http://localhost").searchParams);
+        res.status(r.status).type(r.contentType);
+        if (typeof r.body === "string") return res.send(r.body);
+        await pipeline(Readable.from(r.body), res);
+      } catch (error) {
+        // A failed export stream has already destroyed the response
+        if (!res.headersSent) return res.status(500).json(formatError(error));
+      }
+    });
+  }
+  return toGatewayHandle(gw);
 }
@@ -1,4 +1,41 @@
 export { Facilitator } from "./facilitator.js";
+export type { EvmNetworkConfig, SettlementCallbackOptions } from "./facilitator.js";
 export { createExpressAdapter } from "./adapters/expressAdapter.js";
+export type { ExpressAdapterOptions } from "./adapters/expressAdapter.js";
 export { createHttpGatewayAdapter } from "./httpGateway.js";
+export type { GatewayHandle } from "./gateway/core.js";
 export { startGatewayRegistration } from "./registrar.js";
+export type { GatewayRegistration, GatewayRegistrationStatus } from "./registrar.js";
+export { dnsGatewayProvider } from "./discovery.js";
+export type { DnsGatewayDiscoveryOptions } from "./discovery.js";
+export { MemoryStateStore } from "./gateway/store.js";
+export type { GatewayStateStore } from "./gateway/store.js";
+export { FileStateStore } from "./gateway/fileStore.js";
+export { signRegistration } from "./gateway/auth.js";
+export { createRoutingStrategy } from "./gateway/routing.js";
+export type { RoutingStrategy, RoutingStrategyName, PeerStatsTracker } from "./gateway/routing.js";
+export { createConsoleLogger } from "./logger.js";
+export type { Logger, LogLevel, LoggingOptions } from "./logger.js";
+export { createRawKeySignerProvider, createRemoteSignerProvider } from "./signers.js";
+export type { SignerProvider, RemoteSignerOptions } from "./signers.js";
+export type { RpcUrls } from "./rpc.js";
+export type { PaymentPolicy, PolicyViolation } from "./policy.js";
+export type { AsyncSettlementBody, AsyncSettlementStatus } from "./payment.js";
+export { FileScreeningList } from "./screening.js";
+export type { ScreeningHook, ScreeningSubject, ScreeningDecision } from "./screening.js";
+export type { FacilitatorHooks, FacilitatorHookContext } from "./hooks.js";
+export { SettlementQueue } from "./settlementQueue.js";
+export type { SettlementQueueOptions, SettlementLaneStatus } from "./settlementQueue.js";
+export { MemoryLedger } from "./ledger.js";
+export { JsonlFileLedger } from "./fileLedger.js";
+export type { SettlementLedger, LedgerEntry, LedgerOutcome, LedgerQuery, LedgerPage } from "./ledger.js";
+export { WebhookDispatcher, WebhookSubscriptionLimitError, verifyWebhookSignature } from "./webhooks.js";
+export type {
+  WebhookOptions,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  WebhookSubscribeAuth,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookDeadLetter,
+} from "./webhooks.js";
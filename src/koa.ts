@@ -0,0 +1,5 @@
+export { createKoaAdapter } from "./adapters/koaAdapter.js";
+export { createKoaGatewayAdapter } from "./adapters/koaGateway.js";
+export type { KoaGatewayOptions, KoaGatewayMiddleware } from "./adapters/koaGateway.js";
+export type { KoaAdapterOptions } from "./adapters/koaAdapter.js";
+export type { GatewayHandle } from "./gateway/core.js";
@@ -0,0 +1,370 @@
+// Record of every verify and settle a node or gateway handled, for reconciliation,
+// with the query and CSV/JSONL export behind the adapters' `GET /ledger` route.
+
+import { getPaymentPayer, isSettleSuccess } from "./payment.js";
+import { normalizeAddress } from "./policy.js";
+
+/**
+ * `success`/`failure` as answered (a settle `failure` is a reverted or refused
+ * transaction); `rejected` by the payment policy; `denied` by screening; `replayed`
+ * from an earlier settle of the same payment; `accepted` for an asynchronous settle
+ * forwarded by a gateway (the node records its outcome); `error` when no answer was given.
+ */
+export type LedgerOutcome = "success" | "failure" | "rejected" | "denied" | "replayed" | "accepted" | "error";
+
+export type LedgerEntry = {
+  id: string;
+  /** ISO 8601. */
+  timestamp: string;
+  kind: "verify" | "settle";
+  outcome: LedgerOutcome;
+  network?: string;
+  payer?: string;
+  payTo?: string;
+  asset?: string;
+  /** Atomic units: the authorization's value, else the required amount. */
+  amount?: string;
+  transaction?: string;
+  /** Node that handled the request: its `nodeName`, or the peer URL on a gateway. */
+  node?: string;
+  latencyMs: number;
+  /** Invalid or error reason, or the error message. */
+  reason?: string;
+  requestId?: string;
+};
+
+export type LedgerQuery = {
+  kind?: LedgerEntry["kind"];
+  outcome?: LedgerOutcome;
+  network?: string;
+  payer?: string;
+  payTo?: string;
+  asset?: string;
+  node?: string;
+  transaction?: string;
+  /** Entries at or after this time (epoch ms). */
+  fromMs?: number;
+  /** Entries before this time (epoch ms). */
+  toMs?: number;
+  /** Page size; defaults to 100, at most 1000. */
+  limit?: number;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+};
+
+/** Matching entries, newest first; `nextCursor` is absent on the last page. */
+export type LedgerPage = { entries: LedgerEntry[]; nextCursor?: string };
+
+/**
+ * Where verify and settle records are kept. Cursors are sequence numbers (decimal
+ * strings), and implementations must be append-only so they stay valid while
+ * entries are added.
+ */
+export interface SettlementLedger {
+  record(entry: LedgerEntry): void | Promise<void>;
+  query(query: LedgerQuery): LedgerPage | Promise<LedgerPage>;
+  /**
+   * Every entry matching `query` below its `cursor`, oldest first, ignoring `limit`.
+   * Read in one pass for exports, without holding the entries in memory.
+   */
+  export(query: LedgerQuery): AsyncIterable<LedgerEntry>;
+}
+
+export const LEDGER_DEFAULT_LIMIT = 100;
+export const LEDGER_MAX_LIMIT = 1_000;
+export const LEDGER_EXPORT_CHUNK_SIZE = 64 * 1024; // characters of an export sent at a time
+
+const sameAddress = (a: string | undefined, b: string) =>
+  a !== undefined && normalizeAddress(a) === normalizeAddress(b);
+
+/**
+ * Whether `entry` passes the filters of `q`.
+ */
+export function matchesLedgerQuery(entry: LedgerEntry, q: LedgerQuery): boolean {
+  if (q.kind && entry.kind !== q.kind) return false;
+  if (q.outcome && entry.outcome !== q.outcome) return false;
+  if (q.network && entry.network !== q.network) return false;
+  if (q.node && entry.node !== q.node) return false;
+  if (q.payer && !sameAddress(entry.payer, q.payer)) return false;
+  if (q.payTo && !sameAddress(entry.payTo, q.payTo)) return false;
+  if (q.asset && !sameAddress(entry.asset, q.asset)) return false;
+  if (q.transaction && !sameAddress(entry.transaction, q.transaction)) return false;
+  const time = Date.parse(entry.timestamp);
+  if (q.fromMs !== undefined && time < q.fromMs) return false;
+  if (q.toMs !== undefined && time >= q.toMs) return false;
+  return true;
+}
+
+/**
+ * Page size of `q`, clamped to 1..`LEDGER_MAX_LIMIT`.
+ */
+export function getLedgerLimit(q: LedgerQuery): number {
+  return Math.min(LEDGER_MAX_LIMIT, Math.max(1, q.limit ?? LEDGER_DEFAULT_LIMIT));
+}
+
+/**
+ * Pages through `entries` (oldest first, the first at sequence number `first`)
+ * newest first. The cursor is the sequence number the next page starts below.
+ */
+function page(entries: readonly LedgerEntry[], first: number, q: LedgerQuery): LedgerPage {
+  const limit = getLedgerLimit(q);
+  const cursor = q.cursor === undefined ? Infinity : Number(q.cursor);
+  const out: LedgerEntry[] = [];
+  let i = Math.min(entries.length, cursor - first) - 1;
+  for (; i >= 0 && out.length < limit; i--) {
+    if (matchesLedgerQuery(entries[i], q)) out.push(entries[i]);
+  }
+  return { entries: out, nextCursor: i >= 0 ? String(first + i + 1) : undefined };
+}
+
+/**
+ * Per-process ledger keeping the latest `maxEntries` (default 100,000) entries.
+ */
+export class MemoryLedger implements SettlementLedger {
+  private entries: LedgerEntry[] = [];
+  private dropped = 0;
+
+  constructor(private readonly maxEntries = 100_000) {}
+
+  record(entry: LedgerEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      const excess = this.entries.length - this.maxEntries;
+      this.entries.splice(0, excess);
+      this.dropped += excess;
+    }
+  }
+
+  query(query: LedgerQuery): LedgerPage {
+    return page(this.entries, this.dropped, query);
+  }
+
+  async *export(query: LedgerQuery): AsyncGenerator<LedgerEntry> {
+    const end = query.cursor === undefined ? this.entries.length : Number(query.cursor) - this.dropped;
+    // A copy of the references, so entries dropped meanwhile do not shift the export
+    for (const entry of this.entries.slice(0, Math.max(0, end))) {
+      if (matchesLedgerQuery(entry, query)) yield entry;
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+}
+
+function asRecord(v: unknown): Record<string, unknown> | undefined {
+  return v && typeof v === "object" ? (v as Record<string, unknown>) : undefined;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === "string" && v.length > 0 ? v : undefined;
+}
+
+/**
+ * Payment fields of a ledger entry, read from a verify or settle body.
+ */
+export function getLedgerPaymentFields(
+  body: unknown
+): Pick<LedgerEntry, "network" | "payer" | "payTo" | "asset" | "amount"> {
+  const b = asRecord(body);
+  const requirements = asRecord(b?.paymentRequirements);
+  const payload = asRecord(asRecord(b?.paymentPayload)?.payload);
+  const authorization = asRecord(payload?.authorization);
+  return {
+    network: asString(requirements?.network) ?? asString(asRecord(b?.paymentPayload)?.network),
+    payer: getPaymentPayer({ paymentPayload: b?.paymentPayload, paymentRequirements: requirements }),
+    payTo: asString(requirements?.payTo),
+    asset: asString(requirements?.asset),
+    amount: asString(authorization?.value) ?? asString(requirements?.maxAmountRequired),
+  };
+}
+
+/**
+ * Outcome of a verify or settle from its HTTP answer; undefined for a `409`
+ * (the settle already in progress is recorded by itself).
+ */
+export function getLedgerOutcome(
+  kind: LedgerEntry["kind"],
+  status: number,
+  body: unknown
+): Pick<LedgerEntry, "outcome" | "transaction" | "reason"> | undefined {
+  const b = asRecord(body);
+  if (status === 409) return undefined;
+  if (status === 202 && kind === "settle") return { outcome: "accepted" };
+  if (status === 403) return { outcome: "denied", reason: asString(b?.invalidReason) ?? asString(b?.errorReason) };
+  if (status !== 200) return { outcome: "error", reason: asString(b?.error) ?? `status ${status}` };
+  const transaction = asString(b?.transaction) ?? asString(b?.txHash);
+  // Legacy nodes answer a verify with a bare boolean
+  const ok = kind === "verify" ? body === true || b?.isValid === true : isSettleSuccess(body);
+  if (ok) return { outcome: "success", transaction };
+  const reason = asString(b?.invalidReason) ?? asString(b?.errorReason);
+  return { outcome: reason?.startsWith("policy_") ? "rejected" : "failure", transaction, reason };
+}
+
+/**
+ * A new ledger entry for a verify or settle of `body` that ended with `outcome`.
+ */
+export function createLedgerEntry(
+  kind: LedgerEntry["kind"],
+  body: unknown,
+  outcome: Pick<LedgerEntry, "outcome" | "transaction" | "reason">,
+  details: Pick<LedgerEntry, "node" | "latencyMs" | "requestId">
+): LedgerEntry {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    kind,
+    ...getLedgerPaymentFields(body),
+    ...outcome,
+    ...details,
+  };
+}
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "kind",
+  "outcome",
+  "network",
+  "payer",
+  "payTo",
+  "asset",
+  "amount",
+  "transaction",
+  "node",
+  "latencyMs",
+  "reason",
+  "requestId",
+  "id",
+] as const satisfies readonly (keyof LedgerEntry)[];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let s = String(value);
+  // Keep spreadsheets from evaluating reasons or other free text as formulas
+  if (/^[=+\-@]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** `body` is a string, or for exports its chunks, to be sent as they are read. */
+export type LedgerHttpResponse = { status: number; contentType: string; body: string | AsyncIterable<string> };
+
+function parseTime(value: string): number {
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid time: ${value}`);
+  return ms;
+}
+
+/**
+ * Parses `GET /ledger` query parameters: the `LedgerQuery` fields, with `from`/`to`
+ * as ISO 8601 or epoch ms.
+ */
+export function parseLedgerQuery(params: URLSearchParams): LedgerQuery {
+  const q: LedgerQuery = {};
+  const kind = params.get("kind");
+  if (kind !== null && kind !== "verify" && kind !== "settle") throw new Error("Invalid kind");
+  if (kind) q.kind = kind;
+  for (const key of ["outcome", "network", "payer", "payTo", "asset", "node", "transaction"] as const) {
+    const value = params.get(key);
+    if (value) (q as Record<string, string>)[key] = value;
+  }
+  const cursor = params.get("cursor");
+  if (cursor) {
+    if (!/^\d+$/.test(cursor)) throw new Error("Invalid cursor");
+    q.cursor = cursor;
+  }
+  const from = params.get("from");
+  const to = params.get("to");
+  if (from) q.fromMs = parseTime(from);
+  if (to) q.toMs = parseTime(to);
+  const limit = params.get("limit");
+  if (limit) {
+    if (!/^\d+$/.test(limit)) throw new Error("Invalid limit");
+    q.limit = Number(limit);
+  }
+  return q;
+}
+
+/**
+ * Answers `GET /ledger`: a page of `{ entries, nextCursor }` as JSON, or with
+ * `format=csv` / `format=jsonl` every matching entry (oldest first) as an export.
+ */
+export async function serveLedger(
+  ledger: SettlementLedger | undefined,
+  params: URLSearchParams
+): Promise<LedgerHttpResponse> {
+  const json = (status: number, body: unknown) => ({
+    status,
+    contentType: "application/json",
+    body: JSON.stringify(body),
+  });
+  if (!ledger) return json(404, { error: "No ledger configured" });
+  let query: LedgerQuery;
+  try {
+    query = parseLedgerQuery(params);
+  } catch (e: unknown) {
+    return json(400, { error: e instanceof Error ? e.message : String(e) });
+  }
+  const format = params.get("format") ?? "json";
+  if (format !== "json" && format !== "csv" && format !== "jsonl") return json(400, { error: "Invalid format" });
+  try {
+    if (format === "json") return json(200, await ledger.query(query));
+    return await exportLedger(ledger, query, format);
+  } catch (e: unknown) {
+    return json(500, { error: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+async function* exportChunks(
+  ledger: SettlementLedger,
+  query: LedgerQuery,
+  format: "csv" | "jsonl"
+): AsyncGenerator<string> {
+  let chunk = format === "csv" ? CSV_COLUMNS.join(",") + "\r\n" : "";
+  for await (const e of ledger.export(query)) {
+    chunk +=
+      format === "jsonl"
+        ? JSON.stringify(e) + "\n"
+        : CSV_COLUMNS.map((column) => csvCell(e[column])).join(",") + "\r\n";
+    if (chunk.length >= LEDGER_EXPORT_CHUNK_SIZE) {
+      yield chunk;
+      chunk = "";
+    }
+  }
+  if (chunk) yield chunk;
+}
+
+async function exportLedger(
+  ledger: SettlementLedger,
+  query: LedgerQuery,
+  format: "csv" | "jsonl"
+): Promise<LedgerHttpResponse> {
+  const chunks = exportChunks(ledger, query, format);
+  // Read before answering, so a ledger that cannot be read still gets a 500
+  const first = await chunks.next();
+  async function* body(): AsyncGenerator<string> {
+    if (first.done) return;
+    yield first.value;
+    yield* chunks;
+  }
+  const contentType = format === "jsonl" ? "application/x-ndjson" : "text/csv; charset=utf-8";
+  return { status: 200, contentType, body: body() };
+}
+
+/**
+ * A `LedgerHttpResponse` body for a fetch-style `Response`: exports become a byte stream.
+ */
+export function toResponseBody(body: LedgerHttpResponse["body"]): string | ReadableStream<Uint8Array> {
+  if (typeof body === "string") return body;
+  const encoder = new TextEncoder();
+  const chunks = body[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const next = await chunks.next();
+      if (next.done) controller.close();
+      else controller.enqueue(encoder.encode(next.value));
+    },
+    async cancel() {
+      await chunks.return?.();
+    },
+  });
+}
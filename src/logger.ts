@@ -0,0 +1,63 @@
+// Structured logging: a pino-compatible Logger interface plus a small console implementation.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * The subset of pino's API used here, so a pino (or compatible) logger can be passed directly.
+ */
+export interface Logger {
+  debug(fields: LogFields, msg?: string): void;
+  info(fields: LogFields, msg?: string): void;
+  warn(fields: LogFields, msg?: string): void;
+  error(fields: LogFields, msg?: string): void;
+}
+
+export type LoggingOptions = {
+  /** Receives structured log records; defaults to no logging. */
+  logger?: Logger;
+  /** Minimum level for the built-in console logger, used when no `logger` is given. */
+  logLevel?: LogLevel | "silent";
+  /** Log payer addresses shortened to their first and last characters. */
+  redactPayers?: boolean;
+};
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 20, info: 30, warn: 40, error: 50, silent: Infinity };
+
+const noop = () => undefined;
+
+export const silentLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop };
+
+/**
+ * Writes one JSON line per record to the console, at or above `level`.
+ */
+export function createConsoleLogger(options: { level?: LogLevel | "silent"; name?: string } = {}): Logger {
+  const min = LEVELS[options.level ?? "info"];
+  const write = (level: LogLevel) => (fields: LogFields, msg?: string) => {
+    if (LEVELS[level] < min) return;
+    const line = JSON.stringify({ level, time: Date.now(), name: options.name, msg, ...fields });
+    if (level === "error" || level === "warn") console.error(line);
+    else console.log(line);
+  };
+  return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+}
+
+/**
+ * Logger for a component: the injected `logger`, else a console logger when a
+ * level is set (`debug: true` is shorthand for `logLevel: "debug"`), else silence.
+ */
+export function resolveLogger(options: LoggingOptions & { debug?: boolean }, name: string): Logger {
+  if (options.logger) return options.logger;
+  const level = options.logLevel ?? (options.debug ? "debug" : undefined);
+  if (!level || level === "silent") return silentLogger;
+  return createConsoleLogger({ level, name });
+}
+
+/**
+ * `0x1234…cdef` for logs that must not carry full payer addresses.
+ */
+export function redactPayer(payer: string | undefined, redact = true): string | undefined {
+  if (!payer || !redact || payer.length <= 12) return payer;
+  return `${payer.slice(0, 6)}…${payer.slice(-4)}`;
+}
@@ -0,0 +1,141 @@
+// Minimal Prometheus metrics registry (text exposition format 0.0.4) shared by nodes and gateways.
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]; // seconds
+
+export type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string[];
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return "{" + entries.map(([k, v]) => `${k}="${escapeLabel(String(v))}"`).join(",") + "}";
+}
+
+/**
+ * Stable key for a label set, so `{a,b}` and `{b,a}` land in the same series.
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)));
+}
+
+export class Counter implements Metric {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const s = this.series.get(key);
+    if (s) s.value += value;
+    else this.series.set(key, { labels, value });
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.series.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines;
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly bounds: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.bounds.forEach((le, i) => {
+      if (value <= le) s!.buckets[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  /**
+   * Starts a timer; the returned function observes the elapsed seconds.
+   */
+  startTimer(): (labels: Labels) => void {
+    const started = performance.now();
+    return (labels) => this.observe(labels, (performance.now() - started) / 1000);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Gauge whose value is read when metrics are scraped.
+ */
+export class Gauge implements Metric {
+  constructor(readonly name: string, readonly help: string, private readonly collect: () => number) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    return this.add(new Gauge(name, help, collect));
+  }
+
+  /**
+   * All metrics in Prometheus text format; serve with `METRICS_CONTENT_TYPE`.
+   */
+  render(): string {
+    return this.metrics.flatMap((m) => m.render()).join("\n") + "\n";
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Network label for a verify/settle body: `paymentRequirements.network`, else `paymentPayload.network`.
+ * The body is untrusted, so networks `isKnown` rejects are labelled `other` to bound the series.
+ */
+export function getNetworkLabel(body: unknown, isKnown?: (network: string) => boolean): string {
+  const b = body as { paymentRequirements?: { network?: unknown }; paymentPayload?: { network?: unknown } } | undefined;
+  const network = b?.paymentRequirements?.network ?? b?.paymentPayload?.network;
+  if (typeof network !== "string" || !network) return "unknown";
+  return !isKnown || isKnown(network) ? network : "other";
+}
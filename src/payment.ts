@@ -0,0 +1,172 @@
+// Helpers for inspecting payment bodies, shared by the facilitator and the gateway.
+
+import { getBase58Decoder, getBase64Encoder, getTransactionDecoder } from "@solana/kit";
+import { svm } from "x402/shared";
+
+/** Reason a node answers with when screening refused the payer or recipient. */
+export const SCREENING_DENIED = "screening_denied";
+
+/**
+ * Minimal view of a verify/settle body: `{ paymentPayload, paymentRequirements }`.
+ */
+export type PaymentBody = {
+  paymentPayload?: unknown;
+  paymentRequirements?: unknown;
+};
+
+type ExactEvmAuthorization = { from?: unknown; nonce?: unknown };
+
+function asRecord(v: unknown): Record<string, unknown> | undefined {
+  return v && typeof v === "object" ? (v as Record<string, unknown>) : undefined;
+}
+
+function asString(v: unknown): string | undefined {
+  return typeof v === "string" && v.length > 0 ? v : undefined;
+}
+
+/**
+ * Returns the signature the payer put on an SVM transaction (base58), i.e. the
+ * first non-empty signature. The facilitator's fee-payer slot is still empty
+ * at this point, so this identifies the payment independently of who settles it.
+ */
+export function getSvmPayerSignature(transaction: string): string | undefined {
+  try {
+    const tx = getTransactionDecoder().decode(getBase64Encoder().encode(transaction));
+    for (const sig of Object.values(tx.signatures)) {
+      if (sig && sig.some((b) => b !== 0)) return getBase58Decoder().decode(sig);
+    }
+  } catch {
+    // not a decodable transaction
+  }
+  return undefined;
+}
+
+/**
+ * Payer of an EIP-3009 authorization (`payload.authorization.from`); undefined for other payloads.
+ */
+export function getAuthorizationPayer(body: PaymentBody): string | undefined {
+  const payload = asRecord(asRecord(body?.paymentPayload)?.payload);
+  return asString(asRecord(payload?.authorization)?.from);
+}
+
+/**
+ * Payer of a payment: the authorization's `from` on EVM, the token transfer's
+ * authority in an SVM transaction; undefined when neither can be read.
+ */
+export function getPaymentPayer(body: PaymentBody): string | undefined {
+  const evmPayer = getAuthorizationPayer(body);
+  if (evmPayer) return evmPayer;
+  const transaction = asString(asRecord(asRecord(body?.paymentPayload)?.payload)?.transaction);
+  if (!transaction) return undefined;
+  try {
+    return asString(svm.getTokenPayerFromTransaction(svm.decodeTransactionFromPayload({ transaction })));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Derives the keys that identify a settlement, so the same authorization is
+ * never submitted twice:
+ *   - `idem:<key>` for an explicit `Idempotency-Key`
+ *   - `evm:<network>:<asset>:<from>:<nonce>` for EIP-3009 authorizations
+ *   - `svm:<network>:<signature>` for SVM transactions (raw transaction if undecodable)
+ */
+export function getSettleKeys(body: PaymentBody, idempotencyKey?: string): string[] {
+  const keys: string[] = [];
+  const idem = idempotencyKey?.trim();
+  if (idem) keys.push(`idem:${idem}`);
+
+  const requirements = asRecord(body?.paymentRequirements);
+  const payloadObj = asRecord(body?.paymentPayload);
+  const network = asString(requirements?.network) ?? asString(payloadObj?.network) ?? "";
+  const payload = asRecord(payloadObj?.payload);
+
+  const auth = asRecord(payload?.authorization) as ExactEvmAuthorization | undefined;
+  const from = asString(auth?.from);
+  const nonce = asString(auth?.nonce);
+  if (from && nonce) {
+    const asset = asString(requirements?.asset) ?? "";
+    keys.push(`evm:${network}:${asset.toLowerCase()}:${from.toLowerCase()}:${nonce.toLowerCase()}`);
+    return keys;
+  }
+
+  const transaction = asString(payload?.transaction);
+  if (transaction) {
+    keys.push(`svm:${network}:${getSvmPayerSignature(transaction) ?? transaction}`);
+  }
+  return keys;
+}
+
+/**
+ * State of a settlement as tracked by a facilitator node.
+ * `unknown` means the node has no record of the payment.
+ */
+export type SettlementStatus = "pending" | "settled" | "failed" | "unknown";
+
+/**
+ * Body of `POST /settle/status`: the tracked state plus the original settle response, if any.
+ */
+export interface SettlementStatusBody {
+  status: SettlementStatus;
+  response?: unknown;
+}
+
+/**
+ * State of a settlement accepted with `Prefer: respond-async`.
+ */
+export type AsyncSettlementStatus = "pending" | "confirmed" | "failed";
+
+/**
+ * Body of the `202` that accepts an asynchronous settle, of `GET /settle/:id`, and of
+ * the callback posted once the settlement completed.
+ */
+export interface AsyncSettlementBody {
+  id: string;
+  status: AsyncSettlementStatus;
+  network: string;
+  payer?: string;
+  /** Transaction hash, once the transaction is mined. */
+  transaction?: string;
+  errorReason?: string;
+  /** Why the settlement could not be attempted at all. */
+  error?: string;
+  /** The settle response, as a synchronous `/settle` would have answered. */
+  response?: unknown;
+}
+
+/**
+ * Whether a `Prefer` header asks for an asynchronous response (RFC 7240 `respond-async`).
+ */
+export function prefersAsync(header: string | null | undefined): boolean {
+  return !!header?.split(",").some((pref) => pref.trim().split(/[\s;=]/)[0].toLowerCase() === "respond-async");
+}
+
+/**
+ * True unless the settle response explicitly reports `success: false`.
+ */
+export function isSettleSuccess(body: unknown): boolean {
+  return asRecord(body)?.success !== false;
+}
+
+/**
+ * Whether a failed settle got as far as sending a transaction: it names one, or failed
+ * for a reason other than the payment not verifying (`invalid_*`), a policy refusal
+ * (`policy_*`) or screening. Anyone can submit a payment that does not verify.
+ */
+export function isSettleAttempted(body: unknown): boolean {
+  const b = asRecord(body);
+  const transaction = b?.transaction ?? b?.txHash;
+  if (typeof transaction === "string" && transaction) return true;
+  const reason = b?.errorReason;
+  return typeof reason === "string" && !/^(invalid_|policy_)/.test(reason) && reason !== SCREENING_DENIED;
+}
+
+/**
+ * Whether a node refused the payment after screening it. Other nodes would be
+ * bound by the same obligations, so the refusal is final.
+ */
+export function isScreeningDenial(status: number, body: unknown): boolean {
+  const b = asRecord(body);
+  return status === 403 && (b?.invalidReason === SCREENING_DENIED || b?.errorReason === SCREENING_DENIED);
+}
@@ -0,0 +1,78 @@
+// Operator policy on which payments a node is willing to verify and settle.
+
+import type { PaymentRequirements } from "x402/types";
+
+type Amount = string | number | bigint;
+
+export type PaymentPolicy = {
+  /** Assets accepted per network; a network without an entry accepts any asset. */
+  assets?: Partial<Record<string, readonly string[]>>;
+  /** Recipients accepted; when set, any other `payTo` is rejected. */
+  allowPayTo?: readonly string[];
+  /** Recipients rejected. */
+  denyPayTo?: readonly string[];
+  /** Bounds on `maxAmountRequired`, in the asset's atomic units. */
+  minAmount?: Amount;
+  maxAmount?: Amount;
+  /** Longest `maxTimeoutSeconds` accepted. */
+  maxTimeoutSeconds?: number;
+};
+
+export type PolicyViolation =
+  | "policy_asset_not_allowed"
+  | "policy_pay_to_not_allowed"
+  | "policy_amount_too_low"
+  | "policy_amount_too_high"
+  | "policy_timeout_too_long";
+
+/** Limits advertised in the `extra.policy` of `/supported` kinds. */
+export type PolicyLimits = {
+  assets?: string[];
+  payTo?: string[];
+  minAmountRequired?: string;
+  maxAmountRequired?: string;
+  maxTimeoutSeconds?: number;
+};
+
+/**
+ * Address in comparable form: EVM addresses compare case-insensitively, Solana's base58 addresses do not.
+ */
+export function normalizeAddress(address: string): string {
+  return address.startsWith("0x") ? address.toLowerCase() : address;
+}
+
+const includesAddress = (list: readonly string[], address: string) =>
+  list.some((a) => normalizeAddress(a) === normalizeAddress(address));
+
+/**
+ * The first rule of `policy` the requirements break, or undefined when they are acceptable.
+ */
+export function checkPolicy(policy: PaymentPolicy, requirements: PaymentRequirements): PolicyViolation | undefined {
+  const assets = policy.assets?.[requirements.network];
+  if (assets && !includesAddress(assets, requirements.asset)) return "policy_asset_not_allowed";
+  if (policy.allowPayTo && !includesAddress(policy.allowPayTo, requirements.payTo)) return "policy_pay_to_not_allowed";
+  if (policy.denyPayTo && includesAddress(policy.denyPayTo, requirements.payTo)) return "policy_pay_to_not_allowed";
+  const amount = BigInt(requirements.maxAmountRequired);
+  if (policy.minAmount !== undefined && amount < BigInt(policy.minAmount)) return "policy_amount_too_low";
+  if (policy.maxAmount !== undefined && amount > BigInt(policy.maxAmount)) return "policy_amount_too_high";
+  if (policy.maxTimeoutSeconds !== undefined && requirements.maxTimeoutSeconds > policy.maxTimeoutSeconds) {
+    return "policy_timeout_too_long";
+  }
+  return undefined;
+}
+
+/**
+ * What `policy` allows on `network`, for clients choosing a facilitator.
+ * Denied recipients are not advertised.
+ */
+export function describePolicy(policy: PaymentPolicy, network: string): PolicyLimits | undefined {
+  const limits: PolicyLimits = {
+    assets: policy.assets?.[network] && [...policy.assets[network]],
+    payTo: policy.allowPayTo && [...policy.allowPayTo],
+    minAmountRequired: policy.minAmount === undefined ? undefined : String(policy.minAmount),
+    maxAmountRequired: policy.maxAmount === undefined ? undefined : String(policy.maxAmount),
+    maxTimeoutSeconds: policy.maxTimeoutSeconds,
+  };
+  const set = Object.entries(limits).filter(([, v]) => v !== undefined);
+  return set.length > 0 ? (Object.fromEntries(set) as PolicyLimits) : undefined;
+}
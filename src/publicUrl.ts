@@ -0,0 +1,53 @@
+// Checks that urls supplied by clients point outside the server's own network.
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+/**
+ * Addresses a url supplied by a client may not point to. IPv4-mapped IPv6
+ * addresses are checked against the IPv4 subnets too.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast, reserved and broadcast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Rejects a url whose host is, or resolves to, a private, loopback or link-local address,
+ * so webhook subscriptions and settle callbacks cannot make a gateway or node call into
+ * its own network. `name` labels the error, e.g. "Invalid callbackUrl: host not found".
+ */
+export async function checkPublicUrl(url: string, name = "url"): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string; family: number }[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) }];
+  } else {
+    try {
+      addresses = await lookup(host, { all: true });
+    } catch {
+      throw new Error(`Invalid ${name}: host not found`);
+    }
+  }
+  if (addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"))) {
+    throw new Error(`Invalid ${name}: private or loopback address`);
+  }
+}
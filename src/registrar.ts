@@ -1,42 +1,240 @@
 import type { SupportedPaymentKind } from "x402/types";
+import { signRegistration } from "./gateway/auth.js";
+import { type LoggingOptions, resolveLogger } from "./logger.js";
 
-export type NodeRegistrarOptions = {
-  gatewayUrls: string[];
+export const REGISTER_TIMEOUT_MS = 5_000;
+export const DEREGISTER_TIMEOUT_MS = 5_000;
+export const BACKOFF_INITIAL_MS = 1_000; // first retry after a failed heartbeat
+
+export type NodeRegistrarOptions = LoggingOptions & {
+  /** Gateways to register with; merged with those from `gatewayProvider`. */
+  gatewayUrls?: string[];
+  /**
+   * Resolves the current gateway URLs, e.g. `dnsGatewayProvider(...)`. Called at
+   * start and every `discoveryIntervalMs`; the last list is kept when it fails.
+   */
+  gatewayProvider?: () => Promise<string[]> | string[];
+  /** How often `gatewayProvider` is called; defaults to `intervalMs`. */
+  discoveryIntervalMs?: number;
   nodeBaseUrl: string; // e.g. http://localhost:4101/facilitator
   intervalMs?: number; // default 30s
   kindsProvider?: () => Promise<SupportedPaymentKind[]>;
+  /** Shared secret matching the gateway's `registrationAuth`; heartbeats are signed when set. */
+  registrationSecret?: string;
+  /**
+   * Retry delays after failed heartbeats, doubling per consecutive failure. Retries are never
+   * further apart than `intervalMs`, so a node is back in rotation soon after a gateway outage.
+   */
+  backoff?: { initialMs?: number; maxMs?: number };
+  /** Called after every heartbeat with that gateway's updated status. */
+  onStatus?: (status: GatewayRegistrationStatus) => void;
+  /** Shorthand for `logLevel: "debug"` with the built-in console logger. */
   debug?: boolean;
 };
 
 /**
- * Starts periodic registration heartbeats to one or more gateways.
+ * Registration state of the node at one gateway.
+ */
+export type GatewayRegistrationStatus = {
+  gateway: string;
+  /** Whether the last heartbeat was accepted. */
+  ok: boolean;
+  /** HTTP status of the last response; absent when the gateway was unreachable. */
+  httpStatus?: number;
+  error?: string;
+  lastAttemptMs?: number;
+  lastSuccessMs?: number;
+  consecutiveFailures: number;
+  /** When the next heartbeat to this gateway is due. */
+  nextAttemptMs: number;
+};
+
+/**
+ * Stops heartbeats and deregisters the node from every gateway, resolving once
+ * each gateway has answered (or `DEREGISTER_TIMEOUT_MS` has passed).
  */
-export function startGatewayRegistration(opts: NodeRegistrarOptions): () => void {
+export type GatewayRegistration = (() => Promise<void>) & {
+  /**
+   * Re-registers as draining: gateways stop sending new verifies but still route
+   * settles of payments this node verified. Later heartbeats stay draining.
+   */
+  drain(): Promise<void>;
+  /** Registration state at every current gateway. */
+  status(): GatewayRegistrationStatus[];
+};
+
+/**
+ * `ms` scaled by a random factor in [1 - spread, 1 + spread), so that nodes
+ * started together do not hit gateways in lockstep.
+ */
+function jitter(ms: number, spread: number): number {
+  return Math.round(ms * (1 - spread + 2 * spread * Math.random()));
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Starts periodic registration heartbeats to one or more gateways. Gateways are
+ * sent heartbeats in parallel, each on its own schedule: every `intervalMs`
+ * while it accepts them, with exponential backoff while it does not.
+ */
+export function startGatewayRegistration(opts: NodeRegistrarOptions): GatewayRegistration {
   const interval = Math.max(5_000, opts.intervalMs ?? 30_000);
+  const discoveryInterval = Math.max(5_000, opts.discoveryIntervalMs ?? interval);
+  const backoffInitial = opts.backoff?.initialMs ?? BACKOFF_INITIAL_MS;
+  const backoffMax = Math.min(interval, opts.backoff?.maxMs ?? interval);
+  const log = resolveLogger(opts, "registrar");
+  const nodeUrl = opts.nodeBaseUrl.replace(/\/$/, "");
+  const staticGateways = opts.gatewayUrls ?? [];
+  const gateways = new Map<string, GatewayRegistrationStatus>();
+  let nextDiscoveryMs = 0;
   let stopped = false;
+  let draining = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Rounds run one after another, whether started by the timer or by `drain`
+  let rounds: Promise<void> = Promise.resolve();
 
-  async function heartbeat() {
-    if (stopped) return;
-    const kinds = opts.kindsProvider ? await safeKinds(opts.kindsProvider) : undefined;
-    const body = JSON.stringify({ url: opts.nodeBaseUrl.replace(/\/$/, ""), kinds });
-    for (const gw of opts.gatewayUrls) {
-      const url = gw.replace(/\/$/, "") + "/register";
+  // Sign per gateway: each send needs its own nonce, since gateways may share replay state
+  async function send(
+    gw: string,
+    path: "/register" | "/deregister",
+    payload: Record<string, unknown>,
+    timeoutMs: number
+  ) {
+    const url = gw.replace(/\/$/, "") + path;
+    const signed = opts.registrationSecret ? await signRegistration(payload, opts.registrationSecret) : payload;
+    const body = JSON.stringify(signed);
+    const signal = AbortSignal.timeout(timeoutMs);
+    const started = performance.now();
+    const res = await fetch(url, { method: "POST", headers: { "content-type": "application/json" }, body, signal });
+    return { gateway: gw, status: res.status, ok: res.ok, durationMs: Math.round(performance.now() - started) };
+  }
+
+  // Best effort: a gateway that is unreachable forgets the node once its registration expires
+  async function deregister(gw: string): Promise<void> {
+    const deregistration = { url: nodeUrl, action: "deregister" };
+    try {
+      const { ok, ...fields } = await send(gw, "/deregister", deregistration, DEREGISTER_TIMEOUT_MS);
+      if (ok) log.info(fields, "deregistered from gateway");
+      else log.warn(fields, "gateway rejected deregistration");
+    } catch (e: unknown) {
+      log.warn({ gateway: gw, error: errorMessage(e) }, "deregistration request failed");
+    }
+  }
+
+  async function discover(): Promise<void> {
+    if (Date.now() < nextDiscoveryMs) return;
+    nextDiscoveryMs = Date.now() + jitter(discoveryInterval, 0.1);
+    let discovered: string[] | undefined;
+    if (opts.gatewayProvider) {
       try {
-        const res = await fetch(url, { method: "POST", headers: { "content-type": "application/json" }, body });
-        if (opts.debug) console.log("[registrar]", url, res.status);
+        discovered = await opts.gatewayProvider();
       } catch (e: unknown) {
-        if (opts.debug) console.log("[registrar] failed", url, e instanceof Error ? e.message : e);
+        log.warn({ error: errorMessage(e) }, "gateway discovery failed; keeping the current gateways");
+        return;
       }
     }
+    const current = new Set([...staticGateways, ...(discovered ?? [])].map((gw) => gw.replace(/\/$/, "")));
+    const dropped = [...gateways.keys()].filter((gw) => !current.has(gw));
+    for (const gw of dropped) {
+      gateways.delete(gw);
+      log.info({ gateway: gw }, "gateway no longer discovered");
+    }
+    await Promise.all(dropped.map(deregister));
+    for (const gw of current) {
+      if (gateways.has(gw)) continue;
+      gateways.set(gw, { gateway: gw, ok: false, consecutiveFailures: 0, nextAttemptMs: 0 });
+      if (opts.gatewayProvider) log.info({ gateway: gw }, "gateway discovered");
+    }
+  }
+
+  async function heartbeat(state: GatewayRegistrationStatus, registration: Record<string, unknown>): Promise<void> {
+    const now = Date.now();
+    state.lastAttemptMs = now;
+    try {
+      const { ok, ...fields } = await send(state.gateway, "/register", registration, REGISTER_TIMEOUT_MS);
+      state.httpStatus = fields.status;
+      state.error = ok ? undefined : `gateway answered ${fields.status}`;
+      if (ok) {
+        if (state.consecutiveFailures > 0) log.info(fields, "registered with gateway again");
+        else log.debug(fields, "registered with gateway");
+      } else {
+        log.warn({ ...fields, failures: state.consecutiveFailures + 1 }, "gateway rejected registration");
+      }
+      state.ok = ok;
+    } catch (e: unknown) {
+      state.ok = false;
+      state.httpStatus = undefined;
+      state.error = errorMessage(e);
+      log.warn(
+        { gateway: state.gateway, error: state.error, failures: state.consecutiveFailures + 1 },
+        "registration request failed"
+      );
+    }
+    if (state.ok) {
+      state.lastSuccessMs = now;
+      state.consecutiveFailures = 0;
+      state.nextAttemptMs = Date.now() + jitter(interval, 0.1);
+    } else {
+      state.consecutiveFailures++;
+      const delay = Math.min(backoffMax, backoffInitial * 2 ** (state.consecutiveFailures - 1));
+      state.nextAttemptMs = Date.now() + Math.min(backoffMax, jitter(delay, 0.5));
+    }
+    try {
+      opts.onStatus?.({ ...state });
+    } catch (e: unknown) {
+      log.warn({ error: errorMessage(e) }, "onStatus callback threw");
+    }
+  }
+
+  async function round(all: boolean): Promise<void> {
+    if (stopped) return;
+    clearTimeout(timer);
+    await discover();
+    const now = Date.now();
+    const due = [...gateways.values()].filter((state) => all || state.nextAttemptMs <= now);
+    if (due.length > 0) {
+      const kinds = opts.kindsProvider ? await safeKinds(opts.kindsProvider) : undefined;
+      const registration = { url: nodeUrl, kinds, status: draining ? "draining" : undefined };
+      await Promise.all(due.map((state) => heartbeat(state, registration)));
+    }
+    schedule();
+  }
+
+  function run(all = false): Promise<void> {
+    rounds = rounds.then(() => round(all)).catch((e: unknown) => {
+      log.error({ error: errorMessage(e) }, "registration round failed");
+      schedule();
+    });
+    return rounds;
+  }
+
+  function schedule(): void {
+    if (stopped) return;
+    clearTimeout(timer);
+    const next = Math.min(nextDiscoveryMs, ...[...gateways.values()].map((state) => state.nextAttemptMs));
+    timer = setTimeout(() => void run(), Math.max(0, next - Date.now()));
   }
 
-  const timer = setInterval(heartbeat, interval);
   // fire immediately
-  heartbeat().catch(() => undefined);
-  return () => {
+  void run();
+
+  const stop = async () => {
+    if (stopped) return;
     stopped = true;
-    clearInterval(timer);
+    clearTimeout(timer);
+    // A heartbeat still in flight must not re-register the node after it deregistered
+    await rounds;
+    await Promise.all([...gateways.keys()].map(deregister));
+  };
+  const drain = async () => {
+    draining = true;
+    await run(true);
   };
+  const status = () => [...gateways.values()].map((state) => ({ ...state }));
+  return Object.assign(stop, { drain, status });
 }
 
 async function safeKinds(fn: () => Promise<SupportedPaymentKind[]>): Promise<SupportedPaymentKind[] | undefined> {
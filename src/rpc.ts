@@ -0,0 +1,124 @@
+// Per-network RPC endpoints with failover and simple health tracking.
+
+import { type Chain, HttpRequestError, LimitExceededRpcError, TimeoutError, type Transport, custom, http } from "viem";
+
+export const RPC_COOLDOWN_MS = 30_000; // a failing endpoint is tried last for this long
+
+export type RpcUrls = Partial<Record<string, string | string[]>>;
+
+type EndpointHealth = {
+  consecutiveFailures: number;
+  failedAt?: number;
+  lastError?: string;
+};
+
+export type RpcEndpointStatus = EndpointHealth & { url: string; healthy: boolean };
+
+/**
+ * The RPC endpoints configured per network. Endpoints that failed within the
+ * cooldown are moved behind the healthy ones; order is otherwise as configured.
+ */
+export class RpcPool {
+  private readonly urls = new Map<string, string[]>();
+  private health = new Map<string, EndpointHealth>();
+  private readonly cooldownMs: number;
+
+  constructor(urls: RpcUrls = {}, options: { cooldownMs?: number } = {}) {
+    for (const [network, value] of Object.entries(urls)) {
+      const list = (Array.isArray(value) ? value : value ? [value] : []).filter(Boolean);
+      if (list.length > 0) this.urls.set(network, list);
+    }
+    this.cooldownMs = options.cooldownMs ?? RPC_COOLDOWN_MS;
+  }
+
+  has(network: string): boolean {
+    return this.urls.has(network);
+  }
+
+  /**
+   * Endpoints to try for `network`: healthy ones first, then cooling-down ones, oldest failure first.
+   */
+  order(network: string): string[] {
+    const list = this.urls.get(network) ?? [];
+    const healthy = list.filter((u) => this.isHealthy(u));
+    const cooling = list
+      .filter((u) => !this.isHealthy(u))
+      .sort((a, b) => (this.health.get(a)?.failedAt ?? 0) - (this.health.get(b)?.failedAt ?? 0));
+    return [...healthy, ...cooling];
+  }
+
+  recordSuccess(url: string): void {
+    this.health.delete(url);
+  }
+
+  recordFailure(url: string, error?: string): void {
+    const prev = this.health.get(url);
+    this.health.set(url, {
+      consecutiveFailures: (prev?.consecutiveFailures ?? 0) + 1,
+      failedAt: Date.now(),
+      lastError: error,
+    });
+  }
+
+  status(network: string): RpcEndpointStatus[] {
+    return (this.urls.get(network) ?? []).map((url) => ({
+      url,
+      healthy: this.isHealthy(url),
+      consecutiveFailures: 0,
+      ...this.health.get(url),
+    }));
+  }
+
+  private isHealthy(url: string): boolean {
+    const h = this.health.get(url);
+    return !h?.failedAt || Date.now() - h.failedAt >= this.cooldownMs;
+  }
+}
+
+/**
+ * Whether an RPC error means the endpoint (rather than the request) is at fault,
+ * so the request may be sent to the next endpoint.
+ */
+export function isEndpointError(error: unknown): boolean {
+  return error instanceof HttpRequestError || error instanceof TimeoutError || error instanceof LimitExceededRpcError;
+}
+
+/**
+ * viem transport sending each request to the pool's endpoints for `network` in
+ * order, failing over on endpoint errors and recording the outcome.
+ */
+export function createRpcTransport(pool: RpcPool, network: string, chain?: Chain): Transport {
+  const clients = new Map<string, ReturnType<Transport>>();
+  const clientFor = (url: string) => {
+    let client = clients.get(url);
+    if (!client) {
+      client = http(url)({ chain, retryCount: 0 });
+      clients.set(url, client);
+    }
+    return client;
+  };
+
+  return custom(
+    {
+      async request({ method, params }) {
+        const urls = pool.order(network);
+        if (urls.length === 0) throw new Error(`No RPC endpoint configured for ${network}`);
+        let lastError: unknown;
+        for (const url of urls) {
+          try {
+            const result = await clientFor(url).request({ method, params });
+            pool.recordSuccess(url);
+            return result;
+          } catch (e: unknown) {
+            if (!isEndpointError(e)) throw e;
+            pool.recordFailure(url, e instanceof Error ? e.message : String(e));
+            lastError = e;
+          }
+        }
+        throw lastError;
+      },
+    },
+    // Failover replaces viem's retries of the same endpoint
+    { retryCount: 0 }
+  );
+}
@@ -0,0 +1,74 @@
+// Screening of payers and recipients against sanctions or abuse lists before verify and settle.
+
+import fs from "node:fs";
+import { normalizeAddress } from "./policy.js";
+
+export type ScreeningSubject = {
+  network: string;
+  /** Undefined when the payer cannot be read from the payload. */
+  payer?: string;
+  payTo: string;
+};
+
+export type ScreeningDecision = { allow: true } | { allow: false; reason: string };
+
+/**
+ * Decides whether a payment may be handled. A thrown error fails the request
+ * without a decision, so the gateway may try another node.
+ */
+export type ScreeningHook = (subject: ScreeningSubject) => ScreeningDecision | Promise<ScreeningDecision>;
+
+/**
+ * Denylist read from a text file with one address per line, optionally followed
+ * by a reason (`0xabc… sanctioned`); `#` starts a comment. The file is re-read
+ * when it changes, and the last good contents are kept if it becomes unreadable.
+ * Payers and recipients are both screened.
+ */
+export class FileScreeningList {
+  private entries = new Map<string, string>();
+  private stamp = "";
+
+  constructor(private readonly filePath: string) {
+    // Fail at startup rather than serving without the list
+    this.load(true);
+  }
+
+  get size(): number {
+    this.load();
+    return this.entries.size;
+  }
+
+  readonly screen: ScreeningHook = ({ payer, payTo }) => {
+    this.load();
+    for (const [role, address] of [
+      ["payer", payer],
+      ["payTo", payTo],
+    ] as const) {
+      const reason = address === undefined ? undefined : this.entries.get(normalizeAddress(address));
+      if (reason === undefined) continue;
+      return { allow: false, reason: reason ? `${role} listed: ${reason}` : `${role} listed` };
+    }
+    return { allow: true };
+  };
+
+  private load(required = false): void {
+    let contents: string;
+    let stamp: string;
+    try {
+      const st = fs.statSync(this.filePath);
+      stamp = `${st.ino}:${st.mtimeMs}:${st.size}`;
+      if (stamp === this.stamp) return;
+      contents = fs.readFileSync(this.filePath, "utf8");
+    } catch (e) {
+      if (required) throw e;
+      return;
+    }
+    const entries = new Map<string, string>();
+    for (const line of contents.split("\n")) {
+      const [address, ...reason] = line.replace(/#.*/, "").trim().split(/\s+/);
+      if (address) entries.set(normalizeAddress(address), reason.join(" "));
+    }
+    this.entries = entries;
+    this.stamp = stamp;
+  }
+}
@@ -0,0 +1,237 @@
+// Serializes settlement transactions per (network, signer): nonces are assigned locally
+// so concurrent settles from one key do not race on the account nonce.
+
+import type { Abi, Address, Chain, Hex } from "viem";
+import { type Logger, type LoggingOptions, resolveLogger } from "./logger.js";
+
+export type SettlementQueueOptions = LoggingOptions & {
+  /** Submitted but not yet mined transactions per (network, signer); later settles wait. Default 4. */
+  maxInFlight?: number;
+  /** A transaction not mined after this long is resubmitted with the same nonce and higher fees. Default 30s. */
+  resubmitAfterMs?: number;
+  /** Resubmissions of a stuck transaction before its settle fails. Default 3. */
+  maxResubmits?: number;
+  /** Fee increase per resubmission, in percent; nodes replace a pending transaction for 10% or more. Default 20. */
+  feeBumpPercent?: number;
+  /** How often receipts are polled. Default 1s. */
+  pollingIntervalMs?: number;
+};
+
+export type ContractCall = { address: Address; abi: Abi; functionName: string; args: readonly unknown[] };
+
+export type FeeValues = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint };
+
+type FeeName = "maxFeePerGas" | "maxPriorityFeePerGas" | "gasPrice";
+
+export type MinedTransaction = { transaction: Hex; status: "success" | "reverted" };
+
+/** The chain calls the queue makes; a settlement signer (wallet client with public actions) provides them. */
+export type SettlementClient = {
+  account: { address: Address };
+  chain: Chain;
+  getTransactionCount(args: { address: Address; blockTag: "pending" }): Promise<number>;
+  estimateFeesPerGas(args?: { type: "legacy" }): Promise<Partial<Record<FeeName, bigint>>>;
+  getTransactionReceipt(args: { hash: Hex }): Promise<{ status: "success" | "reverted" }>;
+  writeContract(args: ContractCall & FeeValues & { chain: Chain; nonce: number }): Promise<Hex>;
+};
+
+export type SettlementLaneStatus = {
+  network: string;
+  signer: Address;
+  /** Settles waiting for an in-flight slot. */
+  waiting: number;
+  /** Transactions submitted (or being submitted) and not yet mined. */
+  inFlight: number;
+  /** Nonce the next transaction gets; absent until it is read from the chain. */
+  nextNonce?: number;
+};
+
+class Lane {
+  nextNonce?: number;
+  inFlight = 0;
+  readonly waiting: (() => void)[] = [];
+  // Submissions run one at a time, so nonces reach the chain in order
+  submitting: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly network: string,
+    readonly signer: Address
+  ) {}
+}
+
+function bump(fees: FeeValues, percent: number): FeeValues {
+  const up = (fee: bigint) => (fee * BigInt(100 + percent) + 99n) / 100n;
+  return "gasPrice" in fees
+    ? { gasPrice: up(fees.gasPrice) }
+    : { maxFeePerGas: up(fees.maxFeePerGas), maxPriorityFeePerGas: up(fees.maxPriorityFeePerGas) };
+}
+
+async function estimateFees(client: SettlementClient): Promise<FeeValues> {
+  try {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas();
+    if (maxFeePerGas !== undefined && maxPriorityFeePerGas !== undefined) return { maxFeePerGas, maxPriorityFeePerGas };
+  } catch {
+    // Chains without EIP-1559 fall through to a legacy gas price
+  }
+  const { gasPrice } = await client.estimateFeesPerGas({ type: "legacy" });
+  if (gasPrice === undefined) throw new Error("Could not estimate fees");
+  return { gasPrice };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Submits settlement transactions through one lane per (network, signer): each lane
+ * assigns nonces locally, caps how many of its transactions are in flight and
+ * resubmits stuck ones with bumped fees.
+ */
+export class SettlementQueue {
+  private readonly lanes = new Map<string, Lane>();
+  private readonly maxInFlight: number;
+  private readonly resubmitAfterMs: number;
+  private readonly maxResubmits: number;
+  private readonly feeBumpPercent: number;
+  private readonly pollingIntervalMs: number;
+  private readonly log: Logger;
+
+  constructor(options: SettlementQueueOptions = {}) {
+    this.maxInFlight = Math.max(1, options.maxInFlight ?? 4);
+    this.resubmitAfterMs = options.resubmitAfterMs ?? 30_000;
+    this.maxResubmits = options.maxResubmits ?? 3;
+    this.feeBumpPercent = Math.max(10, options.feeBumpPercent ?? 20);
+    this.pollingIntervalMs = options.pollingIntervalMs ?? 1_000;
+    this.log = resolveLogger(options, "settlement-queue");
+  }
+
+  /** Settles waiting for a slot plus transactions in flight, over all lanes. */
+  get depth(): number {
+    let depth = 0;
+    for (const lane of this.lanes.values()) depth += lane.waiting.length + lane.inFlight;
+    return depth;
+  }
+
+  describe(): SettlementLaneStatus[] {
+    return [...this.lanes.values()].map(({ network, signer, waiting, inFlight, nextNonce }) => ({
+      network,
+      signer,
+      waiting: waiting.length,
+      inFlight,
+      nextNonce,
+    }));
+  }
+
+  /**
+   * Submits `call` from the client's account on its lane and resolves once it is
+   * mined. Throws when it could not be submitted, or is still not mined after
+   * `maxResubmits` resubmissions.
+   */
+  async submit(client: SettlementClient, network: string, call: ContractCall): Promise<MinedTransaction> {
+    const lane = this.lane(network, client.account.address);
+    await this.acquire(lane);
+    try {
+      const sent = lane.submitting.then(() => this.send(client, lane, call));
+      lane.submitting = sent.catch(() => undefined);
+      const { nonce, fees, hash } = await sent;
+      return await this.waitForReceipt(client, lane, call, nonce, fees, hash);
+    } finally {
+      this.release(lane);
+    }
+  }
+
+  private lane(network: string, signer: Address): Lane {
+    const key = `${network}:${signer.toLowerCase()}`;
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = new Lane(network, signer);
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private acquire(lane: Lane): Promise<void> {
+    if (lane.inFlight < this.maxInFlight) {
+      lane.inFlight++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => lane.waiting.push(resolve));
+  }
+
+  // Hands the slot straight to the next waiting settle
+  private release(lane: Lane): void {
+    const next = lane.waiting.shift();
+    if (next) next();
+    else lane.inFlight--;
+  }
+
+  private async send(client: SettlementClient, lane: Lane, call: ContractCall) {
+    lane.nextNonce ??= await client.getTransactionCount({ address: lane.signer, blockTag: "pending" });
+    const nonce = lane.nextNonce;
+    const fees = await estimateFees(client);
+    let hash: Hex;
+    try {
+      hash = await client.writeContract({ ...call, ...fees, chain: client.chain, nonce });
+    } catch (error) {
+      // Whether the nonce was used is unknown (e.g. the RPC failed after broadcasting): re-read it
+      lane.nextNonce = undefined;
+      throw error;
+    }
+    lane.nextNonce = nonce + 1;
+    this.log.debug({ network: lane.network, signer: lane.signer, nonce, transaction: hash }, "submitted settlement");
+    return { nonce, fees, hash };
+  }
+
+  private async waitForReceipt(
+    client: SettlementClient,
+    lane: Lane,
+    call: ContractCall,
+    nonce: number,
+    fees: FeeValues,
+    hash: Hex
+  ): Promise<MinedTransaction> {
+    // Any of the submissions may be the one that gets mined
+    const hashes = [hash];
+    let latest = hash;
+    for (let resubmits = 0; ; resubmits++) {
+      const mined = await this.poll(client, hashes);
+      if (mined) return mined;
+      const fields = { network: lane.network, signer: lane.signer, nonce, transaction: latest };
+      if (resubmits === this.maxResubmits) {
+        this.log.error({ ...fields, resubmits }, "settlement transaction not mined; giving up");
+        // If the transaction gets dropped, its nonce must be reused or later ones wait behind the gap forever
+        this.resyncNonce(lane);
+        throw new Error(`Settlement transaction ${latest} not mined after ${resubmits} resubmissions`);
+      }
+      fees = bump(fees, this.feeBumpPercent);
+      try {
+        latest = await client.writeContract({ ...call, ...fees, chain: client.chain, nonce });
+        hashes.push(latest);
+        this.log.warn({ ...fields, replacement: latest }, "resubmitted stuck settlement with higher fees");
+      } catch (error) {
+        // Usually "nonce too low": an earlier submission was mined meanwhile, which the next poll finds
+        const message = error instanceof Error ? error.message : String(error);
+        this.log.warn({ ...fields, error: message }, "resubmitting stuck settlement failed");
+      }
+    }
+  }
+
+  /** Makes the lane's next submission read the nonce from the chain, after the ones already being sent. */
+  private resyncNonce(lane: Lane): void {
+    lane.submitting = lane.submitting.then(() => {
+      lane.nextNonce = undefined;
+    });
+  }
+
+  private async poll(client: SettlementClient, hashes: Hex[]): Promise<MinedTransaction | undefined> {
+    const deadline = Date.now() + this.resubmitAfterMs;
+    while (Date.now() < deadline) {
+      await sleep(Math.min(this.pollingIntervalMs, deadline - Date.now()));
+      for (const hash of hashes) {
+        const receipt = await client.getTransactionReceipt({ hash }).catch(() => undefined);
+        if (receipt) return { transaction: hash, status: receipt.status };
+      }
+    }
+    return undefined;
+  }
+}
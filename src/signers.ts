@@ -0,0 +1,190 @@
+// Where the facilitator gets its signing keys: raw keys in memory, or a remote JSON-RPC signer.
+
+import {
+  type Network,
+  type Signer,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+  createSigner,
+  evm,
+  isSvmSignerWallet,
+} from "x402/types";
+import {
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  createWalletClient,
+  formatTransactionRequest,
+  http,
+  numberToHex,
+  publicActions,
+  toHex,
+} from "viem";
+import { privateKeyToAccount, toAccount } from "viem/accounts";
+import { type RpcUrls, RpcPool, createRpcTransport } from "./rpc.js";
+
+export const REMOTE_SIGNER_TIMEOUT_MS = 10_000;
+
+/**
+ * Supplies the signers the facilitator settles (and, on SVM, verifies) with, so
+ * keys can live outside the process.
+ */
+export interface SignerProvider {
+  /**
+   * Whether a signer is available for `network`. `chain` is the configured viem
+   * chain for EVM networks x402 has no built-in config for.
+   */
+  supports(network: Network, chain?: Chain): boolean;
+  getSigner(network: Network, chain?: Chain): Promise<Signer>;
+  /** Address that pays fees on `network`, advertised as `feePayer` for SVM kinds. */
+  getAddress(network: Network): Promise<string | undefined>;
+}
+
+export type RawKeySignerOptions = {
+  evmPrivateKey?: `0x${string}`;
+  svmPrivateKey?: string;
+  /** EVM transactions go through these endpoints where configured, else the chain's public RPC. */
+  rpc?: RpcPool;
+};
+
+/**
+ * Wallet client for `account` on `network`, sending through `rpc` when it has endpoints for it.
+ */
+function createEvmSigner(network: Network, account: Account, rpc?: RpcPool, chain?: Chain): Signer {
+  chain ??= evm.getChainFromNetwork(network);
+  const transport = rpc?.has(network) ? createRpcTransport(rpc, network, chain) : http();
+  return createWalletClient({ account, chain, transport }).extend(publicActions) as unknown as Signer;
+}
+
+/**
+ * Signs with private keys held in process memory.
+ */
+export function createRawKeySignerProvider(options: RawKeySignerOptions): SignerProvider {
+  const signers = new Map<Network, Promise<Signer>>();
+  const keyFor = (network: Network) =>
+    SupportedSVMNetworks.includes(network) ? options.svmPrivateKey : options.evmPrivateKey;
+
+  const provider: SignerProvider = {
+    supports: (network) => keyFor(network) !== undefined,
+    getSigner(network, chain) {
+      const key = keyFor(network);
+      if (!key) return Promise.reject(new Error(`No private key configured for ${network}`));
+      let signer = signers.get(network);
+      if (!signer) {
+        signer =
+          (chain || options.rpc?.has(network)) && !SupportedSVMNetworks.includes(network)
+            ? Promise.resolve(createEvmSigner(network, privateKeyToAccount(key as `0x${string}`), options.rpc, chain))
+            : createSigner(network, key);
+        signers.set(network, signer);
+      }
+      return signer;
+    },
+    async getAddress(network) {
+      if (!SupportedSVMNetworks.includes(network) && options.evmPrivateKey) {
+        return privateKeyToAccount(options.evmPrivateKey).address;
+      }
+      const signer = await provider.getSigner(network);
+      return isSvmSignerWallet(signer) ? signer.address : undefined;
+    },
+  };
+  return provider;
+}
+
+export type RemoteSignerOptions = {
+  /** JSON-RPC endpoint of the signer (Web3Signer, Clef, or a KMS/HSM proxy). */
+  url: string;
+  /** Account to sign with; defaults to the first of `eth_accounts`. */
+  address?: Address;
+  /** Sent with every call, e.g. an authorization header for the proxy. */
+  headers?: Record<string, string>;
+  /** EVM networks to settle on; defaults to every network x402 supports plus the configured chains. */
+  networks?: Network[];
+  /** RPC endpoints used to submit transactions, per network; defaults to the chain's public RPC. */
+  rpcUrls?: RpcUrls;
+  timeoutMs?: number;
+};
+
+type JsonRpcResponse<T> = { result?: T; error?: { code?: number; message?: string } };
+
+/**
+ * Signs EVM transactions and typed data through a remote signer speaking the
+ * standard Ethereum JSON-RPC signing methods (`eth_accounts`, `eth_signTransaction`,
+ * `eth_signTypedData_v4`, `personal_sign`). The private key never enters this process.
+ *
+ * SVM is not supported: x402's Solana settlement signs with an in-memory key pair.
+ */
+export function createRemoteSignerProvider(options: RemoteSignerOptions): SignerProvider {
+  const timeoutMs = options.timeoutMs ?? REMOTE_SIGNER_TIMEOUT_MS;
+  const rpc = new RpcPool(options.rpcUrls);
+  let nextId = 1;
+  let address: Promise<Address> | undefined;
+
+  async function call<T>(method: string, params: unknown[]): Promise<T> {
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(options.url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...options.headers },
+        body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new Error(`Remote signer returned ${res.status} for ${method}`);
+      const body = (await res.json()) as JsonRpcResponse<T>;
+      if (body.error) throw new Error(`Remote signer error for ${method}: ${body.error.message ?? body.error.code}`);
+      return body.result as T;
+    } finally {
+      clearTimeout(t);
+    }
+  }
+
+  function getAccountAddress(): Promise<Address> {
+    if (options.address) return Promise.resolve(options.address);
+    address ??= call<Address[]>("eth_accounts", []).then((accounts) => {
+      if (!accounts?.[0]) throw new Error("Remote signer has no accounts");
+      return accounts[0];
+    });
+    // Let a failed lookup be retried on the next call
+    address.catch(() => (address = undefined));
+    return address;
+  }
+
+  const supports = (network: Network, chain?: Chain) =>
+    (chain !== undefined || SupportedEVMNetworks.includes(network)) && (options.networks?.includes(network) ?? true);
+
+  return {
+    supports,
+    async getSigner(network, chain) {
+      if (!supports(network, chain)) throw new Error(`Remote signer does not support ${network}`);
+      const from = await getAccountAddress();
+      const account = toAccount({
+        address: from,
+        signMessage: ({ message }) => {
+          const raw = typeof message === "string" ? toHex(message) : message.raw;
+          const data = typeof raw === "string" ? raw : toHex(raw);
+          return call<Hex>("personal_sign", [data, from]);
+        },
+        async signTransaction(transaction) {
+          const request = {
+            ...formatTransactionRequest(transaction as Parameters<typeof formatTransactionRequest>[0]),
+            from,
+            chainId: transaction.chainId === undefined ? undefined : numberToHex(transaction.chainId),
+          };
+          // Web3Signer answers with the raw transaction, Clef with `{ raw, tx }`
+          const signed = await call<Hex | { raw: Hex }>("eth_signTransaction", [request]);
+          return typeof signed === "string" ? signed : signed.raw;
+        },
+        signTypedData: (typedData) =>
+          call<Hex>("eth_signTypedData_v4", [
+            from,
+            JSON.stringify(typedData, (_k, v) => (typeof v === "bigint" ? v.toString() : v)),
+          ]),
+      });
+      return createEvmSigner(network, account, rpc, chain);
+    },
+    async getAddress(network) {
+      return supports(network) ? getAccountAddress() : undefined;
+    },
+  };
+}
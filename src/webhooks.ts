@@ -0,0 +1,388 @@
+// Settlement webhooks: merchants subscribe per `payTo` and are told when a settlement
+// confirms or fails, with signed deliveries retried until they are accepted.
+
+import { type Logger, type LoggingOptions, resolveLogger } from "./logger.js";
+import { normalizeAddress } from "./policy.js";
+import { type LedgerEntry, getLedgerPaymentFields } from "./ledger.js";
+import { type GatewayStateStore, MemoryStateStore } from "./gateway/store.js";
+import { REGISTRATION_MAX_SKEW_MS, verifyRegistration } from "./gateway/auth.js";
+import { digestsEqual, hmacSha256Hex, randomHex } from "./hmac.js";
+
+export const WEBHOOK_MAX_SKEW_MS = 5 * 60_000; // deliveries are accepted for ±5 minutes
+
+export type WebhookEventType = "settlement.confirmed" | "settlement.failed";
+
+export type WebhookSubscription = {
+  id: string;
+  /** Recipient whose settlements are delivered. */
+  payTo: string;
+  url: string;
+  /** Key of the HMAC-SHA256 delivery signature. */
+  secret: string;
+  /** Event types delivered; every type when absent. */
+  events?: WebhookEventType[];
+  /** ISO 8601. Set on subscriptions added with `subscribe`, which are dropped after it unless renewed. */
+  expiresAt?: string;
+};
+
+export type WebhookSubscriptionInput = Omit<WebhookSubscription, "id" | "secret" | "expiresAt"> & {
+  id?: string;
+  /** Generated when absent. */
+  secret?: string;
+};
+
+/**
+ * Body of a delivery. `id` is the same on every attempt, so receivers can drop duplicates.
+ */
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType;
+  /** ISO 8601. */
+  createdAt: string;
+  data: Pick<LedgerEntry, "network" | "payer" | "payTo" | "asset" | "amount" | "transaction" | "node"> & {
+    errorReason?: string;
+  };
+};
+
+/**
+ * A delivery given up after `maxAttempts`.
+ */
+export type WebhookDeadLetter = {
+  event: WebhookEvent;
+  subscriptionId: string;
+  url: string;
+  attempts: number;
+  lastError: string;
+  /** ISO 8601. */
+  failedAt: string;
+};
+
+/**
+ * Who may subscribe through a gateway's `POST /webhooks`. Bodies are signed like a
+ * registration (see `signRegistration`), with a secret that is not the nodes' one.
+ */
+export type WebhookSubscribeAuth = {
+  /** Operator secret(s); a body signed with one may subscribe any `payTo`. */
+  secret?: string | string[];
+  /** Secret(s) per `payTo`, handed to its merchant; they only subscribe that `payTo`. */
+  payToSecrets?: Record<string, string | string[]>;
+  /** Accepted clock difference between merchant and gateway. */
+  maxSkewMs?: number;
+};
+
+export type WebhookOptions = LoggingOptions & {
+  /** Subscriptions from configuration; more can be added with `subscribe`. */
+  subscriptions?: WebhookSubscriptionInput[];
+  /** Where subscriptions added with `subscribe` are kept; share it between gateway replicas. */
+  store?: GatewayStateStore;
+  /** Serves `POST /webhooks` on a gateway; without it subscriptions come from configuration only. */
+  subscribeAuth?: WebhookSubscribeAuth;
+  /** Subscriptions `subscribe` keeps per `payTo`. Default 10. */
+  maxSubscriptionsPerPayTo?: number;
+  /** Lifetime of a subscription added with `subscribe`; subscribing its url again renews it. Default 30 days. */
+  subscriptionTtlMs?: number;
+  /** Let `subscribe` deliver to private, loopback and link-local addresses, e.g. on an internal network. */
+  allowPrivateUrls?: boolean;
+  /** Attempts per delivery before it is dead-lettered. Default 8. */
+  maxAttempts?: number;
+  /** Wait before the first retry, doubled for each further one. Default 1s. */
+  initialBackoffMs?: number;
+  /** Longest wait between retries. Default 10 minutes. */
+  maxBackoffMs?: number;
+  /** Timeout of one delivery request. Default 5s. */
+  timeoutMs?: number;
+  /** Dead letters kept, oldest dropped first. Default 1000. */
+  maxDeadLetters?: number;
+};
+
+const SUBSCRIPTION_PREFIX = "webhook:";
+const NONCE_PREFIX = "webhook-nonce:";
+const EVENT_TYPES: readonly WebhookEventType[] = ["settlement.confirmed", "settlement.failed"];
+
+/**
+ * A `subscribe` over `maxSubscriptionsPerPayTo`; answered with 409.
+ */
+export class WebhookSubscriptionLimitError extends Error {
+  readonly status = 409;
+
+  constructor(readonly limit: number) {
+    super(`At most ${limit} webhook subscriptions per payTo`);
+    this.name = "WebhookSubscriptionLimitError";
+  }
+}
+
+function asList(secret: string | string[] | undefined): string[] {
+  if (secret === undefined) return [];
+  return Array.isArray(secret) ? secret : [secret];
+}
+
+/**
+ * Rejects urls into the server's own network. Loaded on first use, so the gateway core
+ * does not pull `node:dns` into runtimes without it unless subscriptions are checked there.
+ */
+async function checkPublicUrl(url: string): Promise<void> {
+  const { checkPublicUrl: check } = await import("./publicUrl.js");
+  await check(url);
+}
+
+function sign(secret: string, timestamp: string, body: string): Promise<string> {
+  return hmacSha256Hex(secret, `${timestamp}.${body}`);
+}
+
+/**
+ * `X-Webhook-Timestamp` and `X-Webhook-Signature` headers for posting `body`, as
+ * checked by `verifyWebhookSignature`.
+ */
+export async function signWebhookBody(secret: string, body: string): Promise<Record<string, string>> {
+  const timestamp = String(Date.now());
+  return { "x-webhook-timestamp": timestamp, "x-webhook-signature": `sha256=${await sign(secret, timestamp, body)}` };
+}
+
+/**
+ * Checks a delivery's `X-Webhook-Signature` (`sha256=<hex>`, an HMAC-SHA256 of
+ * `<X-Webhook-Timestamp>.<raw body>`) and that its timestamp is recent.
+ */
+export async function verifyWebhookSignature(args: {
+  secret: string;
+  body: string;
+  timestamp: string | null | undefined;
+  signature: string | null | undefined;
+  maxSkewMs?: number;
+}): Promise<boolean> {
+  const { secret, body, timestamp, signature } = args;
+  if (!timestamp || !signature?.startsWith("sha256=")) return false;
+  if (!(Math.abs(Date.now() - Number(timestamp)) <= (args.maxSkewMs ?? WEBHOOK_MAX_SKEW_MS))) return false;
+  return digestsEqual(signature.slice("sha256=".length).toLowerCase(), await sign(secret, timestamp, body));
+}
+
+function checkSubscription(input: WebhookSubscriptionInput): void {
+  if (typeof input.payTo !== "string" || !input.payTo) throw new Error("Invalid payTo");
+  if (typeof input.url !== "string" || !/^https?:\/\//i.test(input.url)) throw new Error("Invalid url");
+  if (input.secret !== undefined && (typeof input.secret !== "string" || !input.secret)) {
+    throw new Error("Invalid secret");
+  }
+  if (input.events !== undefined) {
+    const valid = Array.isArray(input.events) && input.events.every((e) => EVENT_TYPES.includes(e));
+    if (!valid) throw new Error("Invalid events");
+  }
+}
+
+function toSubscription(input: WebhookSubscriptionInput): WebhookSubscription {
+  checkSubscription(input);
+  return {
+    id: input.id ?? crypto.randomUUID(),
+    payTo: input.payTo,
+    url: input.url,
+    secret: input.secret ?? randomHex(32),
+    events: input.events,
+  };
+}
+
+/**
+ * Delivers settlement events to the subscriptions of the payment's `payTo`.
+ * Deliveries are POSTed as JSON with `X-Webhook-Id`, `X-Webhook-Timestamp` and
+ * `X-Webhook-Signature` headers; anything but a `2xx` is retried with exponential
+ * backoff, and dead-lettered after `maxAttempts`.
+ */
+export class WebhookDispatcher {
+  readonly subscribeAuth?: WebhookSubscribeAuth;
+  private readonly configured: WebhookSubscription[];
+  private readonly store: GatewayStateStore;
+  private readonly payToSecrets: Map<string, string[]>;
+  private readonly maxPerPayTo: number;
+  private readonly ttlMs: number;
+  private readonly allowPrivateUrls: boolean;
+  private readonly maxAttempts: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly timeoutMs: number;
+  private readonly maxDeadLetters: number;
+  private readonly dead: WebhookDeadLetter[] = [];
+  private readonly retries = new Set<NodeJS.Timeout>();
+  private readonly log: Logger;
+
+  constructor(options: WebhookOptions = {}) {
+    this.configured = (options.subscriptions ?? []).map(toSubscription);
+    this.store = options.store ?? new MemoryStateStore();
+    this.subscribeAuth = options.subscribeAuth;
+    this.payToSecrets = new Map(
+      Object.entries(options.subscribeAuth?.payToSecrets ?? {}).map(([k, v]) => [normalizeAddress(k), asList(v)])
+    );
+    this.maxPerPayTo = options.maxSubscriptionsPerPayTo ?? 10;
+    this.ttlMs = options.subscriptionTtlMs ?? 30 * 24 * 60 * 60_000;
+    this.allowPrivateUrls = options.allowPrivateUrls ?? false;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 8);
+    this.initialBackoffMs = options.initialBackoffMs ?? 1_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 10 * 60_000;
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+    this.maxDeadLetters = options.maxDeadLetters ?? 1_000;
+    this.log = resolveLogger(options, "webhooks");
+  }
+
+  /**
+   * Adds a subscription, kept in the store until `subscriptionTtlMs` passes. Subscribing a
+   * `payTo` and url again renews that subscription, keeping its id and, unless given, its secret.
+   * Throws on an invalid `payTo`, `url`, `secret` or `events`, on urls in a private network, and
+   * a `WebhookSubscriptionLimitError` when the `payTo` has `maxSubscriptionsPerPayTo` already.
+   */
+  async subscribe(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    checkSubscription(input);
+    if (!this.allowPrivateUrls) await checkPublicUrl(input.url);
+    const stored = await this.store.scan<WebhookSubscription>(SUBSCRIPTION_PREFIX);
+    const sameTo = stored.map(([, s]) => s).filter((s) => normalizeAddress(s.payTo) === normalizeAddress(input.payTo));
+    const renewed = sameTo.find((s) => s.url === input.url);
+    if (!renewed && sameTo.length >= this.maxPerPayTo) throw new WebhookSubscriptionLimitError(this.maxPerPayTo);
+    const subscription: WebhookSubscription = {
+      ...toSubscription({ ...input, id: input.id ?? renewed?.id, secret: input.secret ?? renewed?.secret }),
+      expiresAt: new Date(Date.now() + this.ttlMs).toISOString(),
+    };
+    if (renewed && renewed.id !== subscription.id) await this.store.delete(SUBSCRIPTION_PREFIX + renewed.id);
+    await this.store.set(SUBSCRIPTION_PREFIX + subscription.id, subscription, this.ttlMs);
+    return subscription;
+  }
+
+  /**
+   * Checks a `POST /webhooks` body against `subscribeAuth`: signed with an operator secret,
+   * or with a secret of the `payTo` it subscribes, and with a nonce not seen before.
+   */
+  async authorizeSubscription(body: unknown): Promise<{ ok: true } | { ok: false; error: string }> {
+    const auth = this.subscribeAuth;
+    if (!auth) return { ok: false, error: "Webhook subscriptions are not enabled" };
+    const payTo = (body as { payTo?: unknown } | undefined)?.payTo;
+    const secrets = [
+      ...asList(auth.secret),
+      ...(typeof payTo === "string" ? this.payToSecrets.get(normalizeAddress(payTo)) ?? [] : []),
+    ];
+    if (secrets.length === 0) return { ok: false, error: "Unknown payTo" };
+    const check = await verifyRegistration(body, { secret: secrets, maxSkewMs: auth.maxSkewMs }, "subscription");
+    if (!check.ok) return check;
+    // Nonces only need remembering while their timestamp is still inside the window
+    const window = 2 * (auth.maxSkewMs ?? REGISTRATION_MAX_SKEW_MS);
+    if (!(await this.store.setIfAbsent(NONCE_PREFIX + check.nonce, true, window))) {
+      return { ok: false, error: "Replayed subscription" };
+    }
+    return { ok: true };
+  }
+
+  /** Removes a subscription added with `subscribe`; false when there is none with this id. */
+  async unsubscribe(id: string): Promise<boolean> {
+    const key = SUBSCRIPTION_PREFIX + id;
+    if ((await this.store.get(key)) === undefined) return false;
+    await this.store.delete(key);
+    return true;
+  }
+
+  async subscriptions(): Promise<WebhookSubscription[]> {
+    const stored = await this.store.scan<WebhookSubscription>(SUBSCRIPTION_PREFIX);
+    return [...this.configured, ...stored.map(([, s]) => s)];
+  }
+
+  /** Deliveries given up on, oldest first. */
+  deadLetters(): WebhookDeadLetter[] {
+    return [...this.dead];
+  }
+
+  /**
+   * Delivers every dead letter again, starting over with its attempts; letters of removed
+   * subscriptions are dropped. Returns how many were redelivered.
+   */
+  async retryDeadLetters(): Promise<number> {
+    const subscriptions = await this.subscriptions();
+    let retried = 0;
+    for (const letter of this.dead.splice(0)) {
+      const subscription = subscriptions.find((s) => s.id === letter.subscriptionId);
+      if (!subscription) continue;
+      void this.deliver(subscription, letter.event, 1);
+      retried++;
+    }
+    return retried;
+  }
+
+  /**
+   * Queues `type` for every subscription of the payment's `payTo`; `body` is the
+   * verify/settle body the event describes. Returns the event, or undefined when no
+   * subscription wants it. Never rejects: a failed subscription lookup is logged.
+   */
+  async notify(
+    type: WebhookEventType,
+    body: unknown,
+    details: { transaction?: string; errorReason?: string; node?: string } = {}
+  ): Promise<WebhookEvent | undefined> {
+    const { network, payer, payTo, asset, amount } = getLedgerPaymentFields(body);
+    if (!payTo) return undefined;
+    let subscriptions: WebhookSubscription[];
+    try {
+      subscriptions = await this.subscriptions();
+    } catch (e: unknown) {
+      const error = e instanceof Error ? e.message : String(e);
+      this.log.error({ type, payTo, error }, "webhook subscriptions unavailable; event dropped");
+      return undefined;
+    }
+    const targets = subscriptions.filter(
+      (s) => normalizeAddress(s.payTo) === normalizeAddress(payTo) && (!s.events || s.events.includes(type))
+    );
+    if (targets.length === 0) return undefined;
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data: { network, payer, payTo, asset, amount, ...details },
+    };
+    for (const subscription of targets) void this.deliver(subscription, event, 1);
+    return event;
+  }
+
+  /** Cancels scheduled retries. */
+  close(): void {
+    for (const timer of this.retries) clearTimeout(timer);
+    this.retries.clear();
+  }
+
+  private async deliver(subscription: WebhookSubscription, event: WebhookEvent, attempt: number): Promise<void> {
+    const body = JSON.stringify(event);
+    const fields = { event: event.id, type: event.type, subscription: subscription.id, url: subscription.url, attempt };
+    let error: string;
+    try {
+      // Its host may resolve elsewhere by now than when it subscribed
+      if (!this.allowPrivateUrls && !this.configured.includes(subscription)) await checkPublicUrl(subscription.url);
+      const res = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-webhook-id": event.id,
+          ...(await signWebhookBody(subscription.secret, body)),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (res.ok) {
+        this.log.debug(fields, "webhook delivered");
+        return;
+      }
+      error = `responded ${res.status}`;
+    } catch (e: unknown) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    if (attempt >= this.maxAttempts) {
+      this.log.error({ ...fields, error }, "webhook delivery failed; dead-lettered");
+      this.dead.push({
+        event,
+        subscriptionId: subscription.id,
+        url: subscription.url,
+        attempts: attempt,
+        lastError: error,
+        failedAt: new Date().toISOString(),
+      });
+      if (this.dead.length > this.maxDeadLetters) this.dead.shift();
+      return;
+    }
+    const delayMs = Math.min(this.maxBackoffMs, this.initialBackoffMs * 2 ** (attempt - 1));
+    this.log.warn({ ...fields, error, retryInMs: delayMs }, "webhook delivery failed; retrying");
+    const timer = setTimeout(() => {
+      this.retries.delete(timer);
+      void this.deliver(subscription, event, attempt + 1);
+    }, delayMs);
+    timer.unref?.();
+    this.retries.add(timer);
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { PeerRegistry, handleGatewayRegister } from "../src/gateway/core";
+
+const kind = { x402Version: 1, scheme: "exact", network: "base-sepolia" } as const;
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((r) => server.listen(0, () => r(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+}
+
+describe("registration challenge", () => {
+  let nodeServer: http.Server;
+  let brokenServer: http.Server;
+  let nodeUrl: string;
+  let brokenUrl: string;
+
+  beforeAll(async () => {
+    // Behaves like a node: serves its kinds and echoes challenge nonces
+    nodeServer = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (c) => (raw += c));
+      req.on("end", () => {
+        res.writeHead(200, { "content-type": "application/json" });
+        if (req.url === "/challenge") res.end(JSON.stringify({ nonce: JSON.parse(raw).nonce }));
+        else res.end(JSON.stringify({ kinds: [kind] }));
+      });
+    });
+    // Serves /supported but ignores the nonce
+    brokenServer = http.createServer((req, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(req.url === "/challenge" ? { nonce: "wrong" } : { kinds: [kind] }));
+    });
+    [nodeUrl, brokenUrl] = await Promise.all([listen(nodeServer), listen(brokenServer)]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([
+      new Promise<void>((r) => nodeServer.close(() => r())),
+      new Promise<void>((r) => brokenServer.close(() => r())),
+    ]);
+  });
+
+  it("keeps a registered peer pending until its challenge passes", async () => {
+    const registry = new PeerRegistry(false, { challenge: { echo: true } });
+    const r = await handleGatewayRegister(registry, { url: nodeUrl, kinds: [kind] });
+    expect(r.body).toEqual({ ok: true, status: "pending" });
+    expect(await registry.getActivePeers([])).toEqual([]);
+    expect((await registry.describePeers([]))[0]).toMatchObject({ url: nodeUrl, status: "pending" });
+
+    await registry.whenChallenged(nodeUrl);
+    expect(await registry.getActivePeers([])).toEqual([nodeUrl]);
+    expect(await registry.getKinds(nodeUrl)).toEqual([kind]);
+    expect(await registry.register(nodeUrl, [kind])).toBe("active");
+    registry.destroy();
+  });
+
+  it("rejects peers that cannot prove the advertised URL or kinds", async () => {
+    const registry = new PeerRegistry(false, { challenge: { echo: true } });
+    await registry.register(brokenUrl, [kind]);
+    await registry.register(nodeUrl, [{ ...kind, network: "base" }]);
+    await registry.register("http://127.0.0.1:1", [kind]);
+    await Promise.all([brokenUrl, nodeUrl, "http://127.0.0.1:1"].map((u) => registry.whenChallenged(u)));
+
+    expect(await registry.getActivePeers([])).toEqual([]);
+    const details = Object.fromEntries((await registry.describePeers([])).map((d) => [d.url, d]));
+    expect(details[brokenUrl]).toMatchObject({ status: "failed", challengeError: "nonce echo challenge failed" });
+    expect(details[nodeUrl].challengeError).toBe("claimed kinds not served by /supported: exact/base");
+    expect(details["http://127.0.0.1:1"].challengeError).toMatch(/^\/supported unreachable/);
+
+    // A heartbeat before the retry interval does not re-run the challenge
+    expect(await registry.register(brokenUrl, [kind])).toBe("failed");
+    registry.destroy();
+  });
+});
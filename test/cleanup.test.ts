@@ -18,12 +18,12 @@ describe("StickyRouter cleanup", () => {
     router.destroy();
   });
 
-  it("removes expired entries on cleanup()", () => {
+  it("removes expired entries on cleanup()", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
     // Record a selection
-    router.recordSelection(
+    await router.recordSelection(
       "http://peer1:3000",
       {
         paymentPayload: {
@@ -33,25 +33,25 @@ describe("StickyRouter cleanup", () => {
       { payer: "0x1111" }
     );
 
-    expect(router.size.payers).toBe(1);
+    expect((await router.size()).payers).toBe(1);
 
     // Advance time past TTL
     vi.setSystemTime(now + SELECTION_TTL_MS + 1000);
 
     // Run cleanup
-    router.cleanup();
+    await router.cleanup();
 
-    expect(router.size.payers).toBe(0);
-    expect(router.size.headers).toBe(0);
+    expect((await router.size()).payers).toBe(0);
+    expect((await router.size()).headers).toBe(0);
 
     vi.useRealTimers();
   });
 
-  it("retains non-expired entries", () => {
+  it("retains non-expired entries", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
-    router.recordSelection(
+    await router.recordSelection(
       "http://peer1:3000",
       {
         paymentPayload: {
@@ -61,20 +61,20 @@ describe("StickyRouter cleanup", () => {
       { payer: "0x2222" }
     );
 
-    expect(router.size.payers).toBe(1);
+    expect((await router.size()).payers).toBe(1);
 
     // Advance time but stay within TTL
     vi.setSystemTime(now + SELECTION_TTL_MS - 1000);
 
-    router.cleanup();
+    await router.cleanup();
 
-    expect(router.size.payers).toBe(1);
+    expect((await router.size()).payers).toBe(1);
 
     vi.useRealTimers();
   });
 
-  it("destroy() clears all state", () => {
-    router.recordSelection(
+  it("destroy() clears all state", async () => {
+    await router.recordSelection(
       "http://peer1:3000",
       {
         paymentPayload: {
@@ -84,25 +84,25 @@ describe("StickyRouter cleanup", () => {
       { payer: "0x3333" }
     );
 
-    router.recordSelection(
+    await router.recordSelection(
       "http://peer2:3000",
       { paymentHeader: "header123" },
       {}
     );
 
-    expect(router.size.payers).toBeGreaterThan(0);
+    expect((await router.size()).payers).toBeGreaterThan(0);
 
     router.destroy();
 
-    expect(router.size.payers).toBe(0);
-    expect(router.size.headers).toBe(0);
+    expect((await router.size()).payers).toBe(0);
+    expect((await router.size()).headers).toBe(0);
   });
 
-  it("getPreferredPeer returns undefined for expired entries", () => {
+  it("getPreferredPeer returns undefined for expired entries", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
-    router.recordSelection(
+    await router.recordSelection(
       "http://peer1:3000",
       {
         paymentPayload: {
@@ -118,13 +118,13 @@ describe("StickyRouter cleanup", () => {
         payload: { authorization: { from: "0x4444" } },
       } as any,
     };
-    expect(router.getPreferredPeer(body)).toBe("http://peer1:3000");
+    expect(await router.getPreferredPeer(body)).toBe("http://peer1:3000");
 
     // Advance past TTL
     vi.setSystemTime(now + SELECTION_TTL_MS + 1);
 
     // Should not find the peer anymore
-    expect(router.getPreferredPeer(body)).toBeUndefined();
+    expect(await router.getPreferredPeer(body)).toBeUndefined();
 
     vi.useRealTimers();
   });
@@ -142,66 +142,66 @@ describe("PeerRegistry cleanup", () => {
     registry.destroy();
   });
 
-  it("removes stale peers on cleanup()", () => {
+  it("removes stale peers on cleanup()", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
-    registry.register("http://peer1:3000", [
+    await registry.register("http://peer1:3000", [
       { x402Version: 1, scheme: "exact", network: "base-sepolia" },
     ]);
 
-    expect(registry.size).toBe(1);
+    expect(await registry.size()).toBe(1);
 
     // Advance time past TTL
     vi.setSystemTime(now + REGISTRY_TTL_MS + 1000);
 
-    registry.cleanup();
+    await registry.cleanup();
 
-    expect(registry.size).toBe(0);
+    expect(await registry.size()).toBe(0);
 
     vi.useRealTimers();
   });
 
-  it("retains recently registered peers", () => {
+  it("retains recently registered peers", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
-    registry.register("http://peer1:3000");
+    await registry.register("http://peer1:3000");
 
-    expect(registry.size).toBe(1);
+    expect(await registry.size()).toBe(1);
 
     // Advance time but stay within TTL
     vi.setSystemTime(now + REGISTRY_TTL_MS - 1000);
 
-    registry.cleanup();
+    await registry.cleanup();
 
-    expect(registry.size).toBe(1);
+    expect(await registry.size()).toBe(1);
 
     vi.useRealTimers();
   });
 
-  it("destroy() clears all state", () => {
-    registry.register("http://peer1:3000");
-    registry.register("http://peer2:3000");
+  it("destroy() clears all state", async () => {
+    await registry.register("http://peer1:3000");
+    await registry.register("http://peer2:3000");
 
-    expect(registry.size).toBe(2);
+    expect(await registry.size()).toBe(2);
 
     registry.destroy();
 
-    expect(registry.size).toBe(0);
+    expect(await registry.size()).toBe(0);
   });
 
-  it("getActivePeers filters out stale peers", () => {
+  it("getActivePeers filters out stale peers", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
-    registry.register("http://dynamic1:3000");
-    registry.register("http://dynamic2:3000");
+    await registry.register("http://dynamic1:3000");
+    await registry.register("http://dynamic2:3000");
 
     const staticPeers = ["http://static:3000"];
 
     // All should be active initially
-    let active = registry.getActivePeers(staticPeers);
+    let active = await registry.getActivePeers(staticPeers);
     expect(active).toContain("http://static:3000");
     expect(active).toContain("http://dynamic1:3000");
     expect(active).toContain("http://dynamic2:3000");
@@ -211,7 +211,7 @@ describe("PeerRegistry cleanup", () => {
     vi.setSystemTime(now + REGISTRY_TTL_MS + 1);
 
     // Dynamic peers should be filtered out
-    active = registry.getActivePeers(staticPeers);
+    active = await registry.getActivePeers(staticPeers);
     expect(active).toContain("http://static:3000");
     expect(active).not.toContain("http://dynamic1:3000");
     expect(active).not.toContain("http://dynamic2:3000");
@@ -220,23 +220,23 @@ describe("PeerRegistry cleanup", () => {
     vi.useRealTimers();
   });
 
-  it("re-registration refreshes lastSeenMs", () => {
+  it("re-registration refreshes lastSeenMs", async () => {
     const now = Date.now();
     vi.setSystemTime(now);
 
-    registry.register("http://peer1:3000");
+    await registry.register("http://peer1:3000");
 
     // Advance time close to TTL
     vi.setSystemTime(now + REGISTRY_TTL_MS - 1000);
 
     // Re-register (heartbeat)
-    registry.register("http://peer1:3000");
+    await registry.register("http://peer1:3000");
 
     // Advance time past original TTL but within new TTL
     vi.setSystemTime(now + REGISTRY_TTL_MS + 1000);
 
     // Should still be active due to re-registration
-    const active = registry.getActivePeers([]);
+    const active = await registry.getActivePeers([]);
     expect(active).toContain("http://peer1:3000");
 
     vi.useRealTimers();
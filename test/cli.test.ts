@@ -0,0 +1,119 @@
+import { describe, it, expect, afterAll } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { loadConfig, toFacilitatorConfig, toGatewayOptions } from "../src/cli/config";
+import { FileStateStore } from "../src/gateway/fileStore";
+import { createServer, listen } from "../src/cli/server";
+import { silentLogger } from "../src/logger";
+
+const key = `0x${"aa".repeat(32)}`;
+
+describe("CLI config", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-"));
+  const write = (name: string, contents: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, contents);
+    return file;
+  };
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads a YAML node config with ${VAR} references", () => {
+    const file = write(
+      "node.yaml",
+      [
+        "port: 4200",
+        "evmPrivateKey: ${NODE_KEY}",
+        "evmNetworks:",
+        "  - base-sepolia",
+        "  - { id: 424242, name: Test Chain, network: my-chain, rpcUrl: 'http://127.0.0.1:8545' }",
+        "policy:",
+        "  maxAmount: '5000000'",
+        "register:",
+        "  gatewayUrls: [http://gw:8080/facilitator]",
+        "  nodeBaseUrl: http://node:4200/facilitator",
+      ].join("\n")
+    );
+    const config = loadConfig("node", file, { NODE_KEY: key });
+
+    expect(config).toMatchObject({ port: 4200, basePath: "/facilitator", logLevel: "info", evmPrivateKey: key });
+    expect(config.register?.gatewayUrls).toEqual(["http://gw:8080/facilitator"]);
+
+    const facilitatorConfig = toFacilitatorConfig(config);
+    expect(facilitatorConfig.evmNetworks?.map((n) => ("chain" in n ? [n.network, n.chain.id] : n))).toEqual([
+      ["base-sepolia", 84532],
+      ["my-chain", 424242],
+    ]);
+    expect(facilitatorConfig.policy).toEqual({ maxAmount: "5000000" });
+  });
+
+  it("reads JSON and lets environment variables override the file", () => {
+    const file = write("gateway.json", JSON.stringify({ port: 9000, httpPeers: ["http://a:4101/facilitator"] }));
+    const config = loadConfig("gateway", file, {
+      PORT: "9100",
+      X402_HTTP_PEERS: "http://b:4101/facilitator, http://c:4101/facilitator",
+      X402_REGISTRATION_SECRET: "s3cret",
+    });
+
+    expect(config.port).toBe(9100);
+    expect(config.httpPeers).toEqual(["http://b:4101/facilitator", "http://c:4101/facilitator"]);
+    expect(config.registrationAuth).toEqual({ secret: "s3cret" });
+  });
+
+  it("runs from environment variables alone", () => {
+    const config = loadConfig("register", undefined, {
+      X402_GATEWAY_URLS: "http://gw:8080/facilitator",
+      X402_NODE_BASE_URL: "http://node:4101/facilitator",
+    });
+    expect(config).toMatchObject({ gatewayUrls: ["http://gw:8080/facilitator"], logLevel: "info" });
+  });
+
+  it("maps a state file onto a FileStateStore", () => {
+    const config = loadConfig("gateway", write("state.yaml", `stateFile: ${path.join(dir, "state.json")}`), {});
+    expect(toGatewayOptions(config).store).toBeInstanceOf(FileStateStore);
+  });
+
+  it("lists every invalid field", () => {
+    const file = write("bad.yaml", "port: nope\nevmPrivateKey: 0x1234\nunknownOption: 1\n");
+    expect(() => loadConfig("node", file, {})).toThrowError(
+      /port: Expected number[\s\S]*evmPrivateKey: Expected a 0x-prefixed 32-byte hex key[\s\S]*unknownOption/
+    );
+  });
+
+  it("fails on unset ${VAR} references", () => {
+    const file = write("missing.yaml", "evmPrivateKey: ${MISSING_KEY}\n");
+    expect(() => loadConfig("node", file, {})).toThrowError(
+      "evmPrivateKey: environment variable MISSING_KEY is not set"
+    );
+  });
+
+  it("rejects a register config without gateways", () => {
+    expect(() => loadConfig("register", undefined, { X402_NODE_BASE_URL: "http://node:4101" })).toThrowError(
+      /gatewayUrls: Required/
+    );
+  });
+});
+
+describe("CLI server", () => {
+  it("answers 413 to bodies over 100 kB without calling the handler", async () => {
+    let calls = 0;
+    const server = createServer(async (req) => {
+      calls++;
+      return Response.json({ length: (await req.text()).length });
+    }, silentLogger);
+    const url = await listen(server, 0, "127.0.0.1");
+    try {
+      const post = (size: number) => fetch(`${url}/verify`, { method: "POST", body: "x".repeat(size) });
+      expect(await (await post(1024)).json()).toEqual({ length: 1024 });
+      const r = await post(101 * 1024);
+      expect(r.status).toBe(413);
+      expect(await r.json()).toEqual({ error: "Request body exceeds 102400 bytes" });
+      expect(calls).toBe(1);
+    } finally {
+      await new Promise((r) => server.close(() => r(undefined)));
+    }
+  });
+});
@@ -1,11 +1,20 @@
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
 import http from "node:http";
 import type { AddressInfo } from "node:net";
 import {
   aggregateSupportedKinds,
   handleGatewayRegister,
+  handleGatewayDeregister,
+  handleGatewayVerify,
+  handleGatewaySettle,
+  handleGatewaySettlementStatus,
   PeerRegistry,
+  SettleTracker,
+  StickyRouter,
 } from "../src/gateway/core";
+import { getSettleKeys } from "../src/payment";
+import { MemoryLedger } from "../src/ledger";
+import { signRegistration } from "../src/gateway/auth";
 
 describe("aggregateSupportedKinds", () => {
   let healthyServer: http.Server;
@@ -48,45 +57,499 @@ describe("aggregateSupportedKinds", () => {
 });
 
 describe("PeerRegistry URL normalization", () => {
-  it("treats trailing-slash and non-slash registrations as the same peer", () => {
+  it("treats trailing-slash and non-slash registrations as the same peer", async () => {
     const registry = new PeerRegistry(false);
-    registry.register("http://peer1:3000/");
-    registry.register("http://peer1:3000");
-    expect(registry.size).toBe(1);
-    expect(registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
+    await registry.register("http://peer1:3000/");
+    await registry.register("http://peer1:3000");
+    expect(await registry.size()).toBe(1);
+    expect(await registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
     registry.destroy();
   });
 });
 
 describe("handleGatewayRegister", () => {
-  it("registers a peer with valid kinds", () => {
+  it("registers a peer with valid kinds", async () => {
     const registry = new PeerRegistry(false);
-    const r = handleGatewayRegister(registry, {
+    const r = await handleGatewayRegister(registry, {
       url: "http://peer1:3000",
       kinds: [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }],
     });
     expect(r.status).toBe(200);
-    expect(registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
+    expect(await registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
     registry.destroy();
   });
 
-  it("registers the peer but drops malformed kinds", () => {
+  it("registers the peer but drops malformed kinds", async () => {
     const registry = new PeerRegistry(false);
-    const r = handleGatewayRegister(registry, {
+    const r = await handleGatewayRegister(registry, {
       url: "http://peer1:3000",
       kinds: ["not-an-object"],
     });
     expect(r.status).toBe(200);
-    expect(registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
+    expect(await registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
     registry.destroy();
   });
 
-  it("rejects invalid urls", () => {
+  it("requires a valid signature when registrationAuth is set", async () => {
     const registry = new PeerRegistry(false);
-    expect(handleGatewayRegister(registry, { url: "ftp://nope" }).status).toBe(400);
-    expect(handleGatewayRegister(registry, {}).status).toBe(400);
-    expect(handleGatewayRegister(registry, undefined).status).toBe(400);
-    expect(registry.size).toBe(0);
+    const auth = { secret: "s3cret" };
+    const reg = { url: "http://peer1:3000", kinds: [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }] };
+
+    expect(await handleGatewayRegister(registry, reg, auth)).toEqual({
+      status: 401,
+      body: { error: "Missing registration signature" },
+    });
+    const forged = { ...(await signRegistration(reg, "wrong")), url: "http://peer1:3000" };
+    expect((await handleGatewayRegister(registry, forged, auth)).status).toBe(401);
+    const tampered = { ...(await signRegistration(reg, "s3cret")), url: "http://evil:3000" };
+    expect((await handleGatewayRegister(registry, tampered, auth)).body).toEqual({
+      error: "Invalid registration signature",
+    });
+    expect(await registry.size()).toBe(0);
+
+    const signed = await signRegistration(reg, "s3cret");
+    expect((await handleGatewayRegister(registry, signed, auth)).status).toBe(200);
+    expect(await registry.getActivePeers([])).toEqual(["http://peer1:3000"]);
+    registry.destroy();
+  });
+
+  it("rejects replayed and stale signed registrations", async () => {
+    const registry = new PeerRegistry(false);
+    const auth = { secret: ["new-secret", "old-secret"], maxSkewMs: 1_000 };
+    const signed = await signRegistration({ url: "http://peer1:3000" }, "old-secret");
+    expect((await handleGatewayRegister(registry, signed, auth)).status).toBe(200);
+    expect(await handleGatewayRegister(registry, signed, auth)).toEqual({
+      status: 401,
+      body: { error: "Replayed registration" },
+    });
+
+    const now = Date.now();
+    vi.setSystemTime(now - 5_000);
+    const stale = await signRegistration({ url: "http://peer2:3000" }, "new-secret");
+    vi.setSystemTime(now);
+    expect((await handleGatewayRegister(registry, stale, auth)).body).toEqual({
+      error: "Registration timestamp outside allowed window",
+    });
+    vi.useRealTimers();
+    registry.destroy();
+  });
+
+  it("rejects invalid urls", async () => {
+    const registry = new PeerRegistry(false);
+    expect((await handleGatewayRegister(registry, { url: "ftp://nope" })).status).toBe(400);
+    expect((await handleGatewayRegister(registry, {})).status).toBe(400);
+    expect((await handleGatewayRegister(registry, undefined)).status).toBe(400);
+    expect(await registry.size()).toBe(0);
+    registry.destroy();
+  });
+});
+
+describe("handleGatewayDeregister", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("removes a registered peer at once", async () => {
+    const registry = new PeerRegistry(false);
+    await handleGatewayRegister(registry, { url: "http://peer1:3000" });
+    expect(await handleGatewayDeregister(registry, { url: "http://peer1:3000/" })).toEqual({
+      status: 200,
+      body: { ok: true, removed: true },
+    });
+    expect(await registry.getActivePeers(["http://static:3000"])).toEqual(["http://static:3000"]);
+    const again = await handleGatewayDeregister(registry, { url: "http://peer1:3000" });
+    expect(again.body).toEqual({ ok: true, removed: false });
+    registry.destroy();
+  });
+
+  it("only accepts signed deregistrations when registrationAuth is set", async () => {
+    const registry = new PeerRegistry(false);
+    const auth = { secret: "s3cret" };
+    const registration = await signRegistration({ url: "http://peer1:3000" }, "s3cret");
+    expect((await handleGatewayRegister(registry, registration, auth)).status).toBe(200);
+
+    const unsigned = { url: "http://peer1:3000", action: "deregister" };
+    expect((await handleGatewayDeregister(registry, unsigned, auth)).status).toBe(401);
+    // A captured registration is no deregistration
+    const captured = await signRegistration({ url: "http://peer1:3000" }, "s3cret");
+    expect((await handleGatewayDeregister(registry, captured, auth)).body).toEqual({ error: "Not a deregistration" });
+    expect(await registry.size()).toBe(1);
+
+    const signed = await signRegistration({ url: "http://peer1:3000", action: "deregister" }, "s3cret");
+    expect((await handleGatewayDeregister(registry, signed, auth)).status).toBe(200);
+    expect(await registry.size()).toBe(0);
+    registry.destroy();
+  });
+
+  it("routes settles but no new verifies to a draining peer", async () => {
+    const registry = new PeerRegistry(false);
+    const sticky = new StickyRouter(false);
+    const calls: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      calls.push(String(input));
+      const reply = String(input).endsWith("/verify") ? { isValid: true } : { success: true };
+      return new Response(JSON.stringify(reply), { status: 200, headers: { "content-type": "application/json" } });
+    });
+    const kinds = [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }];
+    const inbound = {
+      paymentPayload: { scheme: "exact", network: "base-sepolia", payload: { authorization: { from: "0xpayer" } } },
+      paymentRequirements: { scheme: "exact", network: "base-sepolia" },
+    };
+    await handleGatewayRegister(registry, { url: "http://peer1:3000", kinds });
+    const opts = async () => ({ peers: await registry.getActivePeers([]), inbound, sticky, registry });
+    expect((await handleGatewayVerify(await opts())).status).toBe(200);
+
+    const draining = await handleGatewayRegister(registry, { url: "http://peer1:3000", kinds, status: "draining" });
+    expect(draining.body).toEqual({ ok: true, status: "active", draining: true });
+    expect((await registry.describePeers([]))[0]).toMatchObject({ url: "http://peer1:3000", draining: true });
+    expect(await handleGatewayVerify(await opts())).toEqual({
+      status: 503,
+      body: { error: "No peers accepting verifies" },
+    });
+    expect((await handleGatewaySettle(await opts())).status).toBe(200);
+    expect(calls).toEqual(["http://peer1:3000/verify", "http://peer1:3000/settle"]);
+
+    // A heartbeat without the status puts the peer back into rotation
+    await handleGatewayRegister(registry, { url: "http://peer1:3000", kinds });
+    expect(await registry.isDraining("http://peer1:3000")).toBe(false);
+    registry.destroy();
+    sticky.destroy();
+  });
+});
+
+describe("network-aware peer routing", () => {
+  let baseServer: http.Server;
+  let solanaServer: http.Server;
+  let baseUrl: string;
+  let solanaUrl: string;
+  const hits: string[] = [];
+
+  function createPeer(name: string, network: string): http.Server {
+    return http.createServer((req, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      if (req.method === "GET" && req.url === "/supported") {
+        res.end(JSON.stringify({ kinds: [{ x402Version: 1, scheme: "exact", network }] }));
+        return;
+      }
+      hits.push(`${name} ${req.url}`);
+      res.end(JSON.stringify({ isValid: true, peer: name }));
+    });
+  }
+
+  function body(network: string) {
+    return {
+      paymentPayload: { x402Version: 1, scheme: "exact", network, payload: {} } as any,
+      paymentRequirements: { scheme: "exact", network } as any,
+    };
+  }
+
+  beforeAll(async () => {
+    baseServer = createPeer("base", "base-sepolia");
+    solanaServer = createPeer("solana", "solana-devnet");
+    await Promise.all([
+      new Promise<void>((r) => baseServer.listen(0, () => r())),
+      new Promise<void>((r) => solanaServer.listen(0, () => r())),
+    ]);
+    baseUrl = `http://127.0.0.1:${(baseServer.address() as AddressInfo).port}`;
+    solanaUrl = `http://127.0.0.1:${(solanaServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await Promise.all([
+      new Promise<void>((r) => baseServer.close(() => r())),
+      new Promise<void>((r) => solanaServer.close(() => r())),
+    ]);
+  });
+
+  it("routes static peers by their probed /supported kinds", async () => {
+    const registry = new PeerRegistry(false);
+    const sticky = new StickyRouter(false);
+    hits.length = 0;
+    for (let i = 0; i < 5; i++) {
+      const r = await handleGatewayVerify({ peers: [baseUrl, solanaUrl], inbound: body("solana-devnet"), sticky, registry });
+      expect(r.status).toBe(200);
+      expect((r.body as any).peer).toBe("solana");
+    }
+    const s = await handleGatewaySettle({ peers: [baseUrl, solanaUrl], inbound: body("base-sepolia"), sticky, registry });
+    expect((s.body as any).peer).toBe("base");
+    expect(hits.every((h) => !h.startsWith("base /verify"))).toBe(true);
+    registry.destroy();
+    sticky.destroy();
+  });
+
+  it("routes registered peers by their registered kinds without probing", async () => {
+    const registry = new PeerRegistry(false);
+    const sticky = new StickyRouter(false);
+    // Registered kinds deliberately disagree with what the servers would report
+    await registry.register(baseUrl, [{ x402Version: 1, scheme: "exact", network: "solana-devnet" }]);
+    await registry.register(solanaUrl, [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }]);
+    const peers = await registry.getActivePeers([]);
+    const r = await handleGatewayVerify({ peers, inbound: body("solana-devnet"), sticky, registry });
+    expect((r.body as any).peer).toBe("base");
     registry.destroy();
+    sticky.destroy();
+  });
+
+  it("returns a clear error when no peer supports the network", async () => {
+    const registry = new PeerRegistry(false);
+    const sticky = new StickyRouter(false);
+    const v = await handleGatewayVerify({ peers: [baseUrl, solanaUrl], inbound: body("polygon"), sticky, registry });
+    expect(v.status).toBe(400);
+    expect((v.body as any).error).toBe("No peer supports network polygon with scheme exact (x402Version 1)");
+    const s = await handleGatewaySettle({ peers: [baseUrl, solanaUrl], inbound: body("polygon"), sticky, registry });
+    expect(s.status).toBe(400);
+    expect((s.body as any).success).toBe(false);
+    registry.destroy();
+    sticky.destroy();
+  });
+
+  it("keeps peers whose kinds cannot be determined", async () => {
+    const registry = new PeerRegistry(false);
+    const sticky = new StickyRouter(false);
+    const legacy = http.createServer((req, res) => {
+      if (req.url === "/supported") {
+        res.writeHead(404);
+        res.end("Not Found");
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ isValid: true, peer: "legacy" }));
+    });
+    await new Promise<void>((r) => legacy.listen(0, () => r()));
+    const legacyUrl = `http://127.0.0.1:${(legacy.address() as AddressInfo).port}`;
+
+    const r = await handleGatewayVerify({ peers: [baseUrl, legacyUrl], inbound: body("solana-devnet"), sticky, registry });
+    expect(r.status).toBe(200);
+    expect((r.body as any).peer).toBe("legacy");
+    expect(await registry.getKinds(legacyUrl)).toBeUndefined();
+
+    await new Promise<void>((r) => legacy.close(() => r()));
+    registry.destroy();
+    sticky.destroy();
+  });
+});
+
+describe("getSettleKeys", () => {
+  it("keys EVM payments by network, asset, payer and nonce", () => {
+    const keys = getSettleKeys({
+      paymentPayload: { payload: { authorization: { from: "0xAbC", nonce: "0x01" } } },
+      paymentRequirements: { network: "base-sepolia", asset: "0xToken" },
+    });
+    expect(keys).toEqual(["evm:base-sepolia:0xtoken:0xabc:0x01"]);
+  });
+
+  it("adds the Idempotency-Key and falls back to the raw SVM transaction", () => {
+    const keys = getSettleKeys(
+      { paymentPayload: { payload: { transaction: "not-base64" } }, paymentRequirements: { network: "solana-devnet" } },
+      " key-1 "
+    );
+    expect(keys).toEqual(["idem:key-1", "svm:solana-devnet:not-base64"]);
+  });
+});
+
+describe("idempotent gateway settlement", () => {
+  const peerA = "http://peer-a";
+  const peerB = "http://peer-b";
+  let calls: string[];
+
+  function body(nonce: string) {
+    return {
+      paymentPayload: { x402Version: 1, payload: { authorization: { from: "0x1111", nonce } } } as any,
+      paymentRequirements: { network: "base-sepolia", asset: "0xToken" } as any,
+    };
+  }
+
+  function json(status: number, payload: unknown): Response {
+    return new Response(JSON.stringify(payload), { status, headers: { "content-type": "application/json" } });
+  }
+
+  function abortError(): Error {
+    const e = new Error("This operation was aborted");
+    e.name = "AbortError";
+    return e;
+  }
+
+  /** Stubs fetch: each route maps "<peer><path>" to a response factory. */
+  function stubPeers(routes: Record<string, () => Response>) {
+    calls = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = String(input);
+      calls.push(url);
+      const route = routes[url];
+      if (!route) throw new TypeError("fetch failed");
+      return route();
+    });
+  }
+
+  async function settle(settles: SettleTracker, inbound: any, idempotencyKey?: string) {
+    const sticky = new StickyRouter(false);
+    await sticky.recordSelection(peerA, inbound, {});
+    return handleGatewaySettle({ peers: [peerA, peerB], inbound, sticky, settles, idempotencyKey });
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the original result for a duplicate settle without resubmitting", async () => {
+    stubPeers({ [`${peerA}/settle`]: () => json(200, { success: true, transaction: "0xA" }) });
+    const settles = new SettleTracker(false);
+    const first = await settle(settles, body("0x01"));
+    const second = await settle(settles, body("0x01"));
+    expect(first).toEqual({ status: 200, body: { success: true, transaction: "0xA" } });
+    expect(second).toEqual(first);
+    expect(calls.filter((c) => c.endsWith("/settle"))).toHaveLength(1);
+    settles.destroy();
+  });
+
+  it("replays by Idempotency-Key", async () => {
+    stubPeers({ [`${peerA}/settle`]: () => json(200, { success: true, transaction: "0xA" }) });
+    const settles = new SettleTracker(false);
+    await settle(settles, body("0x01"), "order-42");
+    const second = await settle(settles, body("0x02"), "order-42");
+    expect((second.body as any).transaction).toBe("0xA");
+    expect(calls).toHaveLength(1);
+    settles.destroy();
+  });
+
+  it("answers 409 while the same payment is still settling", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((r) => (release = r));
+    stubPeers({});
+    vi.mocked(globalThis.fetch).mockImplementation(async () => {
+      await gate;
+      return json(200, { success: true, transaction: "0xA" });
+    });
+    const settles = new SettleTracker(false);
+    const first = settle(settles, body("0x01"));
+    await vi.waitFor(() => expect(globalThis.fetch).toHaveBeenCalled());
+    const second = await settle(settles, body("0x01"));
+    expect(second.status).toBe(409);
+    release();
+    expect((await first).status).toBe(200);
+    settles.destroy();
+  });
+
+  it("allows a retry after a settle that reported failure", async () => {
+    stubPeers({ [`${peerA}/settle`]: () => json(200, { success: false, errorReason: "insufficient_funds" }) });
+    const settles = new SettleTracker(false);
+    await settle(settles, body("0x01"));
+    expect(await settles.size()).toBe(0);
+    await settle(settles, body("0x01"));
+    expect(calls).toHaveLength(2);
+    settles.destroy();
+  });
+
+  it("after a timeout, returns the original peer's settled outcome instead of failing over", async () => {
+    stubPeers({
+      [`${peerA}/settle`]: () => {
+        throw abortError();
+      },
+      [`${peerA}/settle/status`]: () => json(200, { status: "settled", response: { success: true, transaction: "0xA" } }),
+      [`${peerB}/settle`]: () => json(200, { success: true, transaction: "0xB" }),
+    });
+    const settles = new SettleTracker(false);
+    const r = await settle(settles, body("0x01"));
+    expect(r).toEqual({ status: 200, body: { success: true, transaction: "0xA" } });
+    expect(calls).not.toContain(`${peerB}/settle`);
+    settles.destroy();
+  });
+
+  it("after a timeout, fails over when the original peer never saw the payment", async () => {
+    stubPeers({
+      [`${peerA}/settle`]: () => {
+        throw abortError();
+      },
+      [`${peerA}/settle/status`]: () => json(200, { status: "unknown" }),
+      [`${peerB}/settle`]: () => json(200, { success: true, transaction: "0xB" }),
+    });
+    const r = await settle(new SettleTracker(false), body("0x01"));
+    expect((r.body as any).transaction).toBe("0xB");
+  });
+
+  it("after a timeout with no known outcome, returns 504 and keeps duplicates out", async () => {
+    stubPeers({
+      [`${peerA}/settle`]: () => {
+        throw abortError();
+      },
+      [`${peerB}/settle`]: () => json(200, { success: true, transaction: "0xB" }),
+    });
+    const settles = new SettleTracker(false);
+    const r = await settle(settles, body("0x01"));
+    expect(r.status).toBe(504);
+    const dup = await settle(settles, body("0x01"));
+    expect(dup.status).toBe(409);
+    expect(calls).not.toContain(`${peerB}/settle`);
+    settles.destroy();
+  });
+
+  it("forwards Prefer: respond-async and routes GET /settle/:id to the peer that accepted it", async () => {
+    stubPeers({
+      [`${peerA}/settle`]: () => json(202, { id: "s-1", status: "pending", network: "base-sepolia" }),
+      [`${peerA}/settle/s-1`]: () => json(200, { id: "s-1", status: "confirmed", transaction: "0xA" }),
+      [`${peerB}/settle/s-1`]: () => json(404, { error: "Unknown settlement" }),
+    });
+    const settles = new SettleTracker(false);
+    const sticky = new StickyRouter(false);
+    await sticky.recordSelection(peerA, body("0x01"), {});
+    const peers = [peerB, peerA];
+    const accepted = await handleGatewaySettle({ peers, inbound: body("0x01"), sticky, settles, respondAsync: true });
+    expect(accepted).toEqual({ status: 202, body: { id: "s-1", status: "pending", network: "base-sepolia" } });
+    const init = vi.mocked(globalThis.fetch).mock.calls[0][1];
+    expect((init?.headers as Record<string, string>).prefer).toBe("respond-async");
+
+    const status = await handleGatewaySettlementStatus({ peers, sticky, settles, settlementId: "s-1" });
+    expect(status).toEqual({ status: 200, body: { id: "s-1", status: "confirmed", transaction: "0xA" } });
+    expect(calls).toEqual([`${peerA}/settle`, `${peerA}/settle/s-1`]);
+    // A retry of the same payment asks the owner instead of settling elsewhere
+    expect(await settles.get(getSettleKeys(body("0x01")))).toEqual({ state: "unresolved", peer: peerA });
+    settles.destroy();
+  });
+
+  it("records settles in the ledger with the peer that handled them", async () => {
+    stubPeers({
+      [`${peerA}/settle`]: () => json(200, { success: true, transaction: "0xA" }),
+      [`${peerB}/settle`]: () => json(200, { success: false, errorReason: "invalid_exact_evm_payload_signature" }),
+    });
+    const ledger = new MemoryLedger();
+    const settles = new SettleTracker(false);
+    const sticky = new StickyRouter(false);
+    await sticky.recordSelection(peerA, body("0x01"), {});
+    const peers = [peerA, peerB];
+    await handleGatewaySettle({ peers, inbound: body("0x01"), sticky, settles, ledger, requestId: "r-1" });
+    await handleGatewaySettle({ peers, inbound: body("0x01"), sticky, settles, ledger });
+    await handleGatewaySettle({ peers: [peerB], inbound: body("0x02"), sticky, settles, ledger });
+
+    const { entries } = ledger.query({});
+    expect(entries.map(({ outcome, node, transaction }) => ({ outcome, node, transaction }))).toEqual([
+      { outcome: "failure", node: peerB, transaction: undefined },
+      { outcome: "replayed", node: peerA, transaction: "0xA" },
+      { outcome: "success", node: peerA, transaction: "0xA" },
+    ]);
+    expect(entries[2]).toMatchObject({
+      kind: "settle",
+      network: "base-sepolia",
+      payer: "0x1111",
+      asset: "0xToken",
+      requestId: "r-1",
+    });
+    expect(entries[0].reason).toBe("invalid_exact_evm_payload_signature");
+    settles.destroy();
+  });
+
+  it("asks every peer for a settlement it has no owner for", async () => {
+    stubPeers({
+      [`${peerA}/settle/s-2`]: () => json(404, { error: "Unknown settlement" }),
+      [`${peerB}/settle/s-2`]: () => json(200, { id: "s-2", status: "pending" }),
+    });
+    const sticky = new StickyRouter(false);
+    const peers = [peerA, peerB];
+    const found = await handleGatewaySettlementStatus({ peers, sticky, settlementId: "s-2" });
+    expect(found).toEqual({ status: 200, body: { id: "s-2", status: "pending" } });
+    const missing = await handleGatewaySettlementStatus({ peers, sticky, settlementId: "s-3" });
+    expect(missing.status).toBe(503);
+    stubPeers({ [`${peerA}/settle/s-3`]: () => json(404, {}), [`${peerB}/settle/s-3`]: () => json(404, {}) });
+    const unknown = await handleGatewaySettlementStatus({ peers, sticky, settlementId: "s-3" });
+    expect(unknown).toEqual({ status: 404, body: { error: "Unknown settlement" } });
   });
 });
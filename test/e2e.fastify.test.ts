@@ -0,0 +1,181 @@
+import request from "supertest";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+
+// Mock x402 libs so facilitator accepts our payloads and returns deterministic results
+vi.mock("x402/types", () => {
+  const pass = { parse: (v: any) => v };
+  return {
+    PaymentRequirementsSchema: pass,
+    PaymentPayloadSchema: pass,
+    createConnectedClient: async () => ({}),
+    createSigner: async () => ({}),
+    SupportedEVMNetworks: ["base-sepolia"],
+    SupportedSVMNetworks: [],
+    isSvmSignerWallet: () => false,
+  };
+});
+
+vi.mock("x402/facilitator", () => ({
+  verify: vi.fn(async () => true),
+  settle: vi.fn(async (_signer: any, _payload: any, _reqs: any) => ({ txHash: "0xE2E" })),
+}));
+
+import Fastify, { type FastifyInstance } from "fastify";
+import { Facilitator } from "../src/facilitator";
+import { createFastifyAdapter, createFastifyGatewayAdapter } from "../src/fastify";
+
+async function startServer(app: FastifyInstance): Promise<{ server: FastifyInstance; url: string }> {
+  await app.listen({ port: 0, host: "127.0.0.1" });
+  const addr = app.server.address();
+  const port = typeof addr === "object" && addr ? addr.port : 0;
+  return { server: app, url: `http://127.0.0.1:${port}` };
+}
+
+describe("E2E: Fastify gateway with two nodes", () => {
+  let nodeA: { server: FastifyInstance; url: string };
+  let nodeB: { server: FastifyInstance; url: string };
+  let gatewayApp: FastifyInstance;
+  let gateway: FastifyInstance["server"];
+  let nodeAppA: FastifyInstance["server"];
+
+  beforeAll(async () => {
+    // Node A
+    const facilitatorA = new Facilitator({
+      evmPrivateKey: "0xabc" as any,
+      networks: [{ network: "base-sepolia" } as any],
+    });
+    const appA = Fastify();
+    appA.register(createFastifyAdapter(facilitatorA), { prefix: "/facilitator" });
+
+    // Node B - override settle to make node selection observable
+    const facilitatorB = new Facilitator({
+      evmPrivateKey: "0xdef" as any,
+      networks: [{ network: "base-sepolia" } as any],
+    });
+    const origHandle = facilitatorB.handleRequest.bind(facilitatorB);
+    facilitatorB.handleRequest = async (req) => {
+      if (req.method === "POST" && req.path === "/settle") {
+        return { status: 200, body: { txHash: "0xNODEB" } };
+      }
+      return origHandle(req);
+    };
+    const appB = Fastify();
+    appB.register(createFastifyAdapter(facilitatorB), { prefix: "/facilitator" });
+
+    nodeA = await startServer(appA);
+    nodeB = await startServer(appB);
+    nodeAppA = appA.server;
+
+    // Gateway
+    gatewayApp = Fastify();
+    gatewayApp.register(
+      createFastifyGatewayAdapter({
+        httpPeers: [`${nodeA.url}/facilitator`, `${nodeB.url}/facilitator`],
+        debug: true,
+      }),
+      { prefix: "/facilitator" }
+    );
+    await gatewayApp.ready();
+    gateway = gatewayApp.server;
+  });
+
+  afterAll(async () => {
+    await gatewayApp.close();
+    await nodeA.server.close();
+    await nodeB.server.close();
+  });
+
+  it("aggregates supported kinds", async () => {
+    const res = await request(gateway).get("/facilitator/supported");
+    expect(res.status).toBe(200);
+    expect(Array.isArray(res.body?.kinds)).toBe(true);
+    expect(res.body.kinds.length).toBeGreaterThan(0);
+  });
+
+  it("verifies and settles via a single selected node", async () => {
+    const body = {
+      paymentPayload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "base-sepolia",
+        payload: {
+          signature: "0xSIG",
+          authorization: {
+            from: "0x1111111111111111111111111111111111111111",
+            to: "0x2222222222222222222222222222222222222222",
+            value: "1000",
+            validAfter: "1761952780",
+            validBefore: "1761953680",
+            nonce: "0x01",
+          },
+        },
+      },
+      paymentRequirements: {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "http://localhost/resource",
+        description: "Test",
+        mimeType: "application/json",
+        payTo: "0x2222222222222222222222222222222222222222",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      },
+    };
+
+    // Verify → boolean
+    const v = await request(gateway)
+      .post("/facilitator/verify")
+      .send(body);
+    expect(v.status).toBe(200);
+    expect(typeof v.body).toBe("boolean");
+    expect(v.body).toBe(true);
+
+    // Settle → object with txHash, must be from the same selected node
+    const s = await request(gateway)
+      .post("/facilitator/settle")
+      .send(body);
+    expect(s.status).toBe(200);
+    // Because of headerHash selection, both requests target the same node deterministically
+    // If nodeB is selected, txHash will be 0xNODEB; otherwise default mock 0xE2E
+    expect(typeof s.body).toBe("object");
+    expect(typeof s.body.txHash).toBe("string");
+  });
+
+  it("never settles the same authorization twice on a node", async () => {
+    const { settle } = await import("x402/facilitator");
+    const body = {
+      paymentPayload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "base-sepolia",
+        payload: { signature: "0xSIG", authorization: { from: "0x3333333333333333333333333333333333333333", nonce: "0x02" } },
+      },
+      paymentRequirements: { scheme: "exact", network: "base-sepolia", asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+    };
+    const before = vi.mocked(settle).mock.calls.length;
+
+    const first = await request(nodeAppA).post("/facilitator/settle").send(body);
+    const second = await request(nodeAppA).post("/facilitator/settle").send(body);
+    expect(first.status).toBe(200);
+    expect(second.body).toEqual(first.body);
+    expect(vi.mocked(settle).mock.calls.length - before).toBe(1);
+
+    const status = await request(nodeAppA).post("/facilitator/settle/status").send(body);
+    expect(status.body).toEqual({ status: "settled", response: first.body });
+  });
+
+  it("formats handler errors like the Express adapter", async () => {
+    const app = Fastify();
+    const failing = new Facilitator({ networks: [] });
+    failing.handleRequest = async () => {
+      throw new Error("boom");
+    };
+    app.register(createFastifyAdapter(failing), { prefix: "/facilitator" });
+    await app.ready();
+    const res = await request(app.server).get("/facilitator/supported");
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({ error: "Internal server error", message: "boom" });
+    await app.close();
+  });
+});
@@ -22,6 +22,7 @@ vi.mock("x402/facilitator", () => ({
 }));
 
 import { Facilitator } from "../src/facilitator";
+import { verifyWebhookSignature } from "../src/webhooks";
 import { createExpressAdapter } from "../src/adapters/expressAdapter";
 import { createHttpGatewayAdapter } from "../src/httpGateway";
 
@@ -50,6 +51,7 @@ describe("E2E: HTTP Gateway with two nodes", () => {
     const facilitatorA = new Facilitator({
       evmPrivateKey: "0xabc" as any,
       networks: [{ network: "base-sepolia" } as any],
+      settlementCallbacks: { secret: "cbsec", allowPrivateUrls: true },
     });
     createExpressAdapter(facilitatorA, nodeAppA, "/facilitator");
 
@@ -148,4 +150,86 @@ describe("E2E: HTTP Gateway with two nodes", () => {
     expect(typeof s.body).toBe("object");
     expect(typeof s.body.txHash).toBe("string");
   });
+
+  it("never settles the same authorization twice on a node", async () => {
+    const { settle } = await import("x402/facilitator");
+    const body = {
+      paymentPayload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "base-sepolia",
+        payload: { signature: "0xSIG", authorization: { from: "0x3333333333333333333333333333333333333333", nonce: "0x02" } },
+      },
+      paymentRequirements: { scheme: "exact", network: "base-sepolia", asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+    };
+    const before = vi.mocked(settle).mock.calls.length;
+
+    const first = await request(nodeAppA).post("/facilitator/settle").send(body);
+    const second = await request(nodeAppA).post("/facilitator/settle").send(body);
+    expect(first.status).toBe(200);
+    expect(second.body).toEqual(first.body);
+    expect(vi.mocked(settle).mock.calls.length - before).toBe(1);
+
+    const status = await request(nodeAppA).post("/facilitator/settle/status").send(body);
+    expect(status.body).toEqual({ status: "settled", response: first.body });
+  });
+
+  it("settles asynchronously through a gateway and reports the outcome by id", async () => {
+    const callbacks: unknown[] = [];
+    const receiver = express();
+    receiver.use(express.text({ type: "application/json" }));
+    receiver.post("/settled", async (req, res) => {
+      const signed = await verifyWebhookSignature({
+        secret: "cbsec",
+        body: req.body,
+        timestamp: req.get("x-webhook-timestamp"),
+        signature: req.get("x-webhook-signature"),
+      });
+      callbacks.push(signed ? JSON.parse(req.body) : "unsigned");
+      res.sendStatus(204);
+    });
+    const hook = await startServer(receiver);
+    const asyncGateway = express();
+    asyncGateway.use(express.json());
+    const handle = createHttpGatewayAdapter(asyncGateway, {
+      basePath: "/facilitator",
+      httpPeers: [`${nodeA.url}/facilitator`],
+      healthCheck: false,
+    });
+    const payer = "0x4444444444444444444444444444444444444444";
+    const body = {
+      paymentPayload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "base-sepolia",
+        payload: { signature: "0xSIG", authorization: { from: payer, nonce: "0x03" } },
+      },
+      paymentRequirements: {
+        scheme: "exact",
+        network: "base-sepolia",
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      },
+      callbackUrl: `${hook.url}/settled`,
+    };
+    try {
+      const accepted = await request(asyncGateway)
+        .post("/facilitator/settle")
+        .set("Prefer", "respond-async")
+        .send(body);
+      expect(accepted.status).toBe(202);
+      expect(accepted.body).toEqual({ id: expect.any(String), status: "pending", network: "base-sepolia", payer });
+
+      await vi.waitFor(() => expect(callbacks).toHaveLength(1));
+      const status = await request(asyncGateway).get(`/facilitator/settle/${accepted.body.id}`);
+      expect(status.status).toBe(200);
+      expect(status.body).toEqual({ ...accepted.body, status: "confirmed", response: { txHash: "0xE2E" } });
+      expect(callbacks[0]).toEqual(status.body);
+
+      const unknown = await request(asyncGateway).get("/facilitator/settle/no-such-id");
+      expect(unknown.status).toBe(404);
+    } finally {
+      await handle.close();
+      await new Promise((r) => hook.server.close(() => r(undefined)));
+    }
+  });
 });
@@ -78,7 +78,7 @@ describe("Hono Facilitator Adapter", () => {
       networks: [{ network: "base-sepolia" } as any],
     });
     app = new Hono();
-    app.route("/facilitator", createHonoAdapter(facilitator));
+    app.route("/facilitator", createHonoAdapter(facilitator, { metrics: true }));
   });
 
   it("GET /supported returns kinds", async () => {
@@ -116,6 +116,16 @@ describe("Hono Facilitator Adapter", () => {
     const res = await app.request("/facilitator/unknown");
     expect(res.status).toBe(404);
   });
+
+  it("GET /metrics reports verify and settle counts", async () => {
+    const res = await app.request("/facilitator/metrics");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    const text = await res.text();
+    expect(text).toContain('x402_facilitator_requests_total{route="verify",network="base-sepolia",status="200"} 1');
+    expect(text).toContain('x402_facilitator_settlements_total{network="base-sepolia",result="success"} 1');
+    expect(text).toContain('x402_facilitator_request_duration_seconds_count{route="settle",network="base-sepolia"} 1');
+  });
 });
 
 // ─── Hono Gateway Adapter Tests ──────────────────────────────────────────────
@@ -161,6 +171,7 @@ describe("E2E: Hono Gateway with two Express nodes", () => {
         `${nodeB.url}/facilitator`,
       ],
       debug: true,
+      metrics: true,
     });
     gateway = new Hono();
     gateway.route("/facilitator", gatewaySubApp);
@@ -200,6 +211,14 @@ describe("E2E: Hono Gateway with two Express nodes", () => {
     const sBody = await s.json();
     expect(typeof sBody).toBe("object");
     expect(typeof sBody.txHash).toBe("string");
+
+    const m = await gateway.request("/facilitator/metrics");
+    const text = await m.text();
+    expect(text).toContain('x402_gateway_requests_total{route="verify",network="base-sepolia",status="200"} 1');
+    expect(text).toContain('x402_gateway_requests_total{route="settle",network="base-sepolia",status="200"} 1');
+    expect(text).toMatch(/x402_gateway_peer_requests_total\{route="settle",network="base-sepolia",peer="http:\/\/localhost:\d+\/facilitator",status="200"\} 1/);
+    expect(text).toContain("x402_gateway_sticky_payers 1");
+    expect(text).toContain("x402_gateway_active_peers 2");
   });
 
   it("registers a new peer", async () => {
@@ -217,6 +236,9 @@ describe("E2E: Hono Gateway with two Express nodes", () => {
     expect(peersRes.status).toBe(200);
     const peersBody = await peersRes.json();
     expect(peersBody.peers).toContain("http://localhost:9999/facilitator");
+    expect(peersBody.details).toContainEqual(
+      expect.objectContaining({ url: "http://localhost:9999/facilitator", source: "registered", circuit: "closed" })
+    );
   });
 
   it("rejects invalid register url", async () => {
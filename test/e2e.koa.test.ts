@@ -0,0 +1,190 @@
+import request from "supertest";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+
+// Mock x402 libs so facilitator accepts our payloads and returns deterministic results
+vi.mock("x402/types", () => {
+  const pass = { parse: (v: any) => v };
+  return {
+    PaymentRequirementsSchema: pass,
+    PaymentPayloadSchema: pass,
+    createConnectedClient: async () => ({}),
+    createSigner: async () => ({}),
+    SupportedEVMNetworks: ["base-sepolia"],
+    SupportedSVMNetworks: [],
+    isSvmSignerWallet: () => false,
+  };
+});
+
+vi.mock("x402/facilitator", () => ({
+  verify: vi.fn(async () => true),
+  settle: vi.fn(async (_signer: any, _payload: any, _reqs: any) => ({ txHash: "0xE2E" })),
+}));
+
+import http from "node:http";
+import Koa from "koa";
+import { Facilitator } from "../src/facilitator";
+import { createKoaAdapter, createKoaGatewayAdapter } from "../src/koa";
+
+function startServer(app: Koa): Promise<{ server: http.Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      const addr = server.address();
+      const port = typeof addr === "object" && addr ? addr.port : 0;
+      resolve({ server, url: `http://localhost:${port}` });
+    });
+  });
+}
+
+describe("E2E: Koa gateway with two nodes", () => {
+  let nodeA: { server: http.Server; url: string };
+  let nodeB: { server: http.Server; url: string };
+  let gateway: ReturnType<Koa["callback"]>;
+  let nodeAppA: ReturnType<Koa["callback"]>;
+
+  beforeAll(async () => {
+    // Node A
+    const facilitatorA = new Facilitator({
+      evmPrivateKey: "0xabc" as any,
+      networks: [{ network: "base-sepolia" } as any],
+    });
+    const appA = new Koa();
+    appA.use(createKoaAdapter(facilitatorA, "/facilitator"));
+
+    // Node B - override settle to make node selection observable
+    const facilitatorB = new Facilitator({
+      evmPrivateKey: "0xdef" as any,
+      networks: [{ network: "base-sepolia" } as any],
+    });
+    const origHandle = facilitatorB.handleRequest.bind(facilitatorB);
+    facilitatorB.handleRequest = async (req) => {
+      if (req.method === "POST" && req.path === "/settle") {
+        return { status: 200, body: { txHash: "0xNODEB" } };
+      }
+      return origHandle(req);
+    };
+    const appB = new Koa();
+    appB.use(createKoaAdapter(facilitatorB, "/facilitator"));
+
+    nodeA = await startServer(appA);
+    nodeB = await startServer(appB);
+    nodeAppA = appA.callback();
+
+    // Gateway
+    const gatewayApp = new Koa();
+    gatewayApp.use(
+      createKoaGatewayAdapter({
+        basePath: "/facilitator",
+        httpPeers: [`${nodeA.url}/facilitator`, `${nodeB.url}/facilitator`],
+        debug: true,
+      })
+    );
+    gateway = gatewayApp.callback();
+  });
+
+  afterAll(async () => {
+    await new Promise((r) => nodeA.server.close(() => r(undefined)));
+    await new Promise((r) => nodeB.server.close(() => r(undefined)));
+  });
+
+  it("aggregates supported kinds", async () => {
+    const res = await request(gateway).get("/facilitator/supported");
+    expect(res.status).toBe(200);
+    expect(Array.isArray(res.body?.kinds)).toBe(true);
+    expect(res.body.kinds.length).toBeGreaterThan(0);
+  });
+
+  it("verifies and settles via a single selected node", async () => {
+    const body = {
+      paymentPayload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "base-sepolia",
+        payload: {
+          signature: "0xSIG",
+          authorization: {
+            from: "0x1111111111111111111111111111111111111111",
+            to: "0x2222222222222222222222222222222222222222",
+            value: "1000",
+            validAfter: "1761952780",
+            validBefore: "1761953680",
+            nonce: "0x01",
+          },
+        },
+      },
+      paymentRequirements: {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "http://localhost/resource",
+        description: "Test",
+        mimeType: "application/json",
+        payTo: "0x2222222222222222222222222222222222222222",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      },
+    };
+
+    // Verify → boolean
+    const v = await request(gateway)
+      .post("/facilitator/verify")
+      .send(body);
+    expect(v.status).toBe(200);
+    expect(typeof v.body).toBe("boolean");
+    expect(v.body).toBe(true);
+
+    // Settle → object with txHash, must be from the same selected node
+    const s = await request(gateway)
+      .post("/facilitator/settle")
+      .send(body);
+    expect(s.status).toBe(200);
+    // Because of headerHash selection, both requests target the same node deterministically
+    // If nodeB is selected, txHash will be 0xNODEB; otherwise default mock 0xE2E
+    expect(typeof s.body).toBe("object");
+    expect(typeof s.body.txHash).toBe("string");
+  });
+
+  it("never settles the same authorization twice on a node", async () => {
+    const { settle } = await import("x402/facilitator");
+    const body = {
+      paymentPayload: {
+        x402Version: 1,
+        scheme: "exact",
+        network: "base-sepolia",
+        payload: { signature: "0xSIG", authorization: { from: "0x3333333333333333333333333333333333333333", nonce: "0x02" } },
+      },
+      paymentRequirements: { scheme: "exact", network: "base-sepolia", asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+    };
+    const before = vi.mocked(settle).mock.calls.length;
+
+    const first = await request(nodeAppA).post("/facilitator/settle").send(body);
+    const second = await request(nodeAppA).post("/facilitator/settle").send(body);
+    expect(first.status).toBe(200);
+    expect(second.body).toEqual(first.body);
+    expect(vi.mocked(settle).mock.calls.length - before).toBe(1);
+
+    const status = await request(nodeAppA).post("/facilitator/settle/status").send(body);
+    expect(status.body).toEqual({ status: "settled", response: first.body });
+  });
+
+  it("formats handler errors like the Express adapter", async () => {
+    const app = new Koa();
+    const failing = new Facilitator({ networks: [] });
+    failing.handleRequest = async () => {
+      throw new Error("boom");
+    };
+    app.use(createKoaAdapter(failing, "/facilitator"));
+    const res = await request(app.callback()).get("/facilitator/supported");
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({ error: "Internal server error", message: "boom" });
+    expect((await request(app.callback()).get("/elsewhere")).status).toBe(404);
+  });
+
+  it("answers 413 to bodies over 100 kB", async () => {
+    const oversized = { padding: "x".repeat(101 * 1024) };
+    const node = await request(nodeAppA).post("/facilitator/verify").send(oversized);
+    expect(node.status).toBe(413);
+    expect(node.body).toEqual({ error: "Request body exceeds 102400 bytes" });
+    const gw = await request(gateway).post("/facilitator/settle").send(oversized);
+    expect(gw.status).toBe(413);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import { defineChain, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { verifyExactEvm, type ExactEvmClient } from "../src/exactEvm";
+import { Facilitator } from "../src/facilitator";
+
+const account = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const payTo = "0x2222222222222222222222222222222222222222";
+const asset = "0x3333333333333333333333333333333333333333";
+
+const devnet = defineChain({
+  id: 424242,
+  name: "Devnet",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: ["http://127.0.0.1:1"] } },
+});
+
+// Token contract reads answered in memory; signatures checked offline
+function stubClient(balance: bigint, reads: string[] = []): ExactEvmClient {
+  return {
+    chain: devnet,
+    readContract: (async ({ functionName }: { functionName: string }) => {
+      reads.push(functionName);
+      if (functionName === "name") return "Token";
+      if (functionName === "version") return "1";
+      return balance;
+    }) as unknown as ExactEvmClient["readContract"],
+    verifyTypedData: ((args: Parameters<typeof verifyTypedData>[0]) =>
+      verifyTypedData(args)) as unknown as ExactEvmClient["verifyTypedData"],
+  };
+}
+
+async function payment(opts: { to?: `0x${string}`; value?: string; extra?: Record<string, string> } = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from: account.address,
+    to: opts.to ?? payTo,
+    value: opts.value ?? "1000",
+    validAfter: String(now - 60),
+    validBefore: String(now + 600),
+    nonce: `0x${"ab".repeat(32)}` as `0x${string}`,
+  };
+  const signature = await account.signTypedData({
+    domain: { name: "Token", version: "1", chainId: devnet.id, verifyingContract: asset },
+    types: {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    },
+    primaryType: "TransferWithAuthorization",
+    message: {
+      ...authorization,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+    },
+  });
+  const network = "eip155:424242" as any;
+  return {
+    paymentPayload: { x402Version: 1, scheme: "exact" as const, network, payload: { signature, authorization } },
+    paymentRequirements: {
+      scheme: "exact" as const,
+      network,
+      maxAmountRequired: "1000",
+      resource: "https://example.com/r",
+      description: "",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 60,
+      asset,
+      extra: opts.extra,
+    },
+  };
+}
+
+describe("verifyExactEvm", () => {
+  it("accepts a valid authorization, reading the token domain from the contract", async () => {
+    const reads: string[] = [];
+    const { paymentPayload, paymentRequirements } = await payment();
+    const r = await verifyExactEvm(stubClient(5000n, reads), paymentPayload, paymentRequirements);
+    expect(r).toEqual({ isValid: true, invalidReason: undefined, payer: account.address });
+    expect(reads).toContain("name");
+    expect(reads).toContain("balanceOf");
+  });
+
+  it("rejects with x402's invalid reasons", async () => {
+    const client = stubClient(5000n);
+    const reason = async (p: Awaited<ReturnType<typeof payment>>, c = client) =>
+      (await verifyExactEvm(c, p.paymentPayload, p.paymentRequirements)).invalidReason;
+    expect(await reason(await payment({ extra: { name: "Other", version: "1" } }))).toBe(
+      "invalid_exact_evm_payload_signature"
+    );
+    expect(await reason(await payment({ to: "0x4444444444444444444444444444444444444444" }))).toBe(
+      "invalid_exact_evm_payload_recipient_mismatch"
+    );
+    expect(await reason(await payment({ value: "999" }))).toBe("invalid_exact_evm_payload_authorization_value");
+    expect(await reason(await payment(), stubClient(10n))).toBe("insufficient_funds");
+  });
+});
+
+describe("Facilitator with chains x402 does not know", () => {
+  const evmPrivateKey = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+  it("advertises configured chains by chain id or their configured slug", async () => {
+    const facilitator = new Facilitator({
+      evmPrivateKey,
+      evmNetworks: [devnet, { chain: { ...devnet, id: 7 }, network: "my-chain" }],
+    });
+    const r = await facilitator.handleRequest({ method: "GET", path: "/supported" });
+    expect(r.body).toEqual({
+      kinds: [
+        { x402Version: 1, scheme: "exact", network: "eip155:424242" },
+        { x402Version: 1, scheme: "exact", network: "my-chain" },
+      ],
+    });
+  });
+
+  it("parses payments for configured chains and needs a key to serve them", async () => {
+    const facilitator = new Facilitator({ evmNetworks: [devnet] });
+    const r = await facilitator.handleRequest({ method: "POST", path: "/settle", body: await payment() });
+    expect(r).toEqual({ status: 400, body: { error: "Missing evmPrivateKey for EVM settlement" } });
+    const unknown = await facilitator.handleRequest({ method: "GET", path: "/supported" });
+    expect(unknown.body).toEqual({ kinds: [] });
+  });
+
+  it("settles through the settlement queue when configured", async () => {
+    vi.useFakeTimers();
+    const sent: number[] = [];
+    // Verify reads answered by `stubClient`; the queue's chain calls by this wallet
+    const wallet = {
+      ...stubClient(5000n),
+      account,
+      getTransactionCount: async () => 5,
+      estimateFeesPerGas: async () => ({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n }),
+      getTransactionReceipt: async () => ({ status: "success" }),
+      writeContract: async ({ nonce }: { nonce: number }) => {
+        sent.push(nonce);
+        return `0x${"cd".repeat(32)}`;
+      },
+    };
+    const signerProvider = {
+      supports: () => true,
+      getSigner: async () => wallet as any,
+      getAddress: async () => account.address,
+    };
+    const facilitator = new Facilitator({ evmNetworks: [devnet], signerProvider, settlementQueue: true });
+    try {
+      const settling = facilitator.handleRequest({ method: "POST", path: "/settle", body: await payment() });
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(await settling).toEqual({
+        status: 200,
+        body: {
+          success: true,
+          errorReason: undefined,
+          transaction: `0x${"cd".repeat(32)}`,
+          network: "eip155:424242",
+          payer: account.address,
+        },
+      });
+      expect(sent).toEqual([5]);
+      expect(facilitator.renderMetrics()).toContain("x402_facilitator_settlement_queue_depth 0");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
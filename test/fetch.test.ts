@@ -0,0 +1,139 @@
+import fs from "node:fs";
+import { builtinModules } from "node:module";
+import path from "node:path";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createFetchHandler, createGatewayFetchHandler } from "../src/fetch";
+import { Facilitator } from "../src/facilitator";
+import { MemoryLedger } from "../src/ledger";
+
+const payTo = "0x2222222222222222222222222222222222222222";
+const body = {
+  paymentPayload: {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"11".repeat(65)}`,
+      authorization: {
+        from: "0x1111111111111111111111111111111111111111",
+        to: payTo,
+        value: "1000",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"ab".repeat(32)}`,
+      },
+    },
+  },
+  paymentRequirements: {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/r",
+    description: "",
+    mimeType: "application/json",
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  },
+};
+
+const facilitator = new Facilitator({
+  evmPrivateKey: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  evmNetworks: [{ network: "base-sepolia" } as any],
+  // Refuses every payment before any RPC call
+  policy: { maxAmount: 1 },
+});
+const node = createFetchHandler(facilitator, { basePath: "/facilitator", metrics: true });
+
+const post = (url: string, payload: unknown) =>
+  new Request(url, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(payload) });
+
+describe("createFetchHandler", () => {
+  it("serves the node routes under the base path", async () => {
+    const supported = await node(new Request("http://node/facilitator/supported"));
+    expect(supported.status).toBe(200);
+    expect(await supported.json()).toMatchObject({ kinds: [{ network: "base-sepolia" }] });
+
+    const verified = await node(post("http://node/facilitator/verify", body));
+    expect(await verified.json()).toMatchObject({ isValid: false, invalidReason: "policy_amount_too_high" });
+
+    const metrics = await node(new Request("http://node/facilitator/metrics"));
+    expect(metrics.headers.get("content-type")).toContain("text/plain");
+    expect(await metrics.text()).toContain('x402_facilitator_requests_total{route="verify",network="base-sepolia"');
+  });
+
+  it("serves the ledger on GET /ledger when enabled", async () => {
+    const ledger = new MemoryLedger();
+    const withLedger = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      policy: { maxAmount: 1 },
+      ledger,
+    });
+    const handler = createFetchHandler(withLedger, { basePath: "/facilitator", ledger: true });
+    await handler(post("http://node/facilitator/verify", body));
+
+    const page = await handler(new Request("http://node/facilitator/ledger?kind=verify"));
+    expect(await page.json()).toMatchObject({ entries: [{ kind: "verify", outcome: "rejected", amount: "1000" }] });
+    const csv = await handler(new Request("http://node/facilitator/ledger?format=csv"));
+    expect(csv.headers.get("content-type")).toBe("text/csv; charset=utf-8");
+    expect((await csv.text()).split("\r\n")[1]).toContain(",verify,rejected,base-sepolia,");
+    expect((await node(new Request("http://node/facilitator/ledger"))).status).toBe(404);
+  });
+
+  it("answers 404 outside the base path and 400 for unparseable bodies", async () => {
+    expect((await node(new Request("http://node/supported"))).status).toBe(404);
+    expect((await node(new Request("http://node/facilitator/verify", { method: "DELETE" }))).status).toBe(404);
+    const bad = await node(new Request("http://node/facilitator/verify", { method: "POST", body: "{" }));
+    expect(bad.status).toBe(400);
+  });
+});
+
+describe("createGatewayFetchHandler", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("routes verify to a peer served by a fetch handler", async () => {
+    const forwarded: Array<string | null> = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const request = new Request(input, init);
+      forwarded.push(request.headers.get("x-request-id"));
+      return node(request);
+    });
+    const gateway = createGatewayFetchHandler({
+      httpPeers: ["http://node/facilitator"],
+      basePath: "/gw",
+      healthCheck: false,
+    });
+
+    const supported = await gateway(new Request("http://gw/gw/supported"));
+    expect(await supported.json()).toMatchObject({ kinds: [{ network: "base-sepolia" }] });
+    const verified = await gateway(post("http://gw/gw/verify", body));
+    expect(verified.status).toBe(200);
+    expect(await verified.json()).toMatchObject({ invalidReason: "policy_amount_too_high" });
+    expect(forwarded.at(-1)).toMatch(/^[0-9a-f-]{36}$/);
+
+    const peers = await gateway(new Request("http://gw/gw/peers"));
+    expect(await peers.json()).toMatchObject({ peers: ["http://node/facilitator"] });
+    expect((await gateway(new Request("http://gw/gw/metrics"))).status).toBe(404);
+  });
+
+  it("imports no Node built-ins, so it runs in Workers-style runtimes", () => {
+    // Static imports only: type imports are erased, and dynamic ones load on first use
+    const importPattern = /^(?:import|export)\s+(?!type\b)[^;]*?from\s+"([^"]+)"/gm;
+    const builtins = new Set(builtinModules);
+    const seen = new Set<string>();
+    const offending: string[] = [];
+    const visit = (file: string) => {
+      if (seen.has(file)) return;
+      seen.add(file);
+      for (const [, specifier] of fs.readFileSync(file, "utf8").matchAll(importPattern)) {
+        if (specifier.startsWith(".")) visit(path.resolve(path.dirname(file), specifier.replace(/\.js$/, ".ts")));
+        else if (specifier.startsWith("node:") || builtins.has(specifier)) offending.push(`${file}: ${specifier}`);
+      }
+    };
+    visit(path.resolve(__dirname, "../src/fetch.ts"));
+    expect(seen.size).toBeGreaterThan(10);
+    expect(offending).toEqual([]);
+  });
+});
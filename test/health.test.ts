@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { PeerHealth, HealthProber } from "../src/gateway/health";
+import { PeerRegistry, StickyRouter, handleGatewayVerify } from "../src/gateway/core";
+
+describe("PeerHealth circuit breaker", () => {
+  it("opens after consecutive failures, half-opens after the open period, closes on success", () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+    const health = new PeerHealth({ failureThreshold: 2, openDurationMs: 1_000 });
+
+    health.recordFailure("http://a", "boom");
+    expect(health.getState("http://a")).toBe("closed");
+    health.recordFailure("http://a", "boom");
+    expect(health.getState("http://a")).toBe("open");
+    expect(health.isAvailable("http://a")).toBe(false);
+
+    vi.setSystemTime(now + 1_000);
+    expect(health.getState("http://a")).toBe("half-open");
+    expect(health.isAvailable("http://a")).toBe(true);
+
+    health.recordSuccess("http://a");
+    expect(health.snapshot("http://a")).toMatchObject({ circuit: "closed", consecutiveFailures: 0 });
+
+    vi.useRealTimers();
+  });
+
+  it("re-opens on a single failure while half-open", () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+    const health = new PeerHealth({ failureThreshold: 3, openDurationMs: 1_000 });
+    for (let i = 0; i < 3; i++) health.recordFailure("http://a");
+    vi.setSystemTime(now + 1_000);
+    expect(health.getState("http://a")).toBe("half-open");
+    health.recordFailure("http://a", "still down");
+    expect(health.getState("http://a")).toBe("open");
+    expect(health.snapshot("http://a").lastError).toBe("still down");
+
+    vi.useRealTimers();
+  });
+
+  it("lets a single trial request through while half-open", () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+    const health = new PeerHealth({ failureThreshold: 1, openDurationMs: 1_000 });
+    expect(health.acquire("http://a")).toBe(true);
+    expect(health.acquire("http://a")).toBe(true);
+    health.recordFailure("http://a");
+    expect(health.acquire("http://a")).toBe(false);
+
+    vi.setSystemTime(now + 1_000);
+    expect(health.acquire("http://a")).toBe(true);
+    expect(health.acquire("http://a")).toBe(false);
+    expect(health.isAvailable("http://a")).toBe(false);
+    expect(health.getState("http://a")).toBe("half-open");
+
+    health.recordSuccess("http://a");
+    expect(health.acquire("http://a")).toBe(true);
+    expect(health.acquire("http://a")).toBe(true);
+
+    vi.useRealTimers();
+  });
+});
+
+describe("half-open routing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends one trial verify to a half-open peer and the rest to healthy peers", async () => {
+    const calls: string[] = [];
+    let answerTrial = () => {};
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = String(input);
+      calls.push(url);
+      if (url.startsWith("http://flaky")) await new Promise<void>((resolve) => (answerTrial = resolve));
+      return new Response(JSON.stringify({ isValid: true }), { headers: { "content-type": "application/json" } });
+    });
+    const health = new PeerHealth({ failureThreshold: 1, openDurationMs: 0 });
+    health.recordFailure("http://flaky");
+    const sticky = new StickyRouter(false);
+    const opts = {
+      peers: ["http://flaky", "http://healthy"],
+      inbound: { paymentHeader: "h" },
+      sticky,
+      health,
+      routing: { name: "fixed", order: (peers: string[]) => peers },
+    };
+
+    const trial = handleGatewayVerify(opts);
+    const others = await Promise.all([handleGatewayVerify(opts), handleGatewayVerify(opts)]);
+    expect(others.map((r) => r.status)).toEqual([200, 200]);
+    expect(calls).toEqual(["http://flaky/verify", "http://healthy/verify", "http://healthy/verify"]);
+
+    answerTrial();
+    expect((await trial).status).toBe(200);
+    expect(health.getState("http://flaky")).toBe("closed");
+    sticky.destroy();
+  });
+});
+
+describe("health checks and routing", () => {
+  let upServer: http.Server;
+  let downServer: http.Server;
+  let upUrl: string;
+  let downUrl: string;
+
+  beforeAll(async () => {
+    upServer = http.createServer((_req, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ kinds: [], isValid: true }));
+    });
+    downServer = http.createServer((_req, res) => {
+      res.writeHead(503);
+      res.end();
+    });
+    await Promise.all([
+      new Promise<void>((r) => upServer.listen(0, () => r())),
+      new Promise<void>((r) => downServer.listen(0, () => r())),
+    ]);
+    upUrl = `http://127.0.0.1:${(upServer.address() as AddressInfo).port}`;
+    downUrl = `http://127.0.0.1:${(downServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await Promise.all([
+      new Promise<void>((r) => upServer.close(() => r())),
+      new Promise<void>((r) => downServer.close(() => r())),
+    ]);
+  });
+
+  it("prober opens the circuit of a failing peer, which drops out of getActivePeers", async () => {
+    const health = new PeerHealth({ failureThreshold: 2 });
+    const registry = new PeerRegistry(false, { health });
+    const prober = new HealthProber(health, () => registry.getKnownPeers([upUrl, downUrl]));
+
+    await prober.checkAll();
+    await prober.checkAll();
+
+    expect(await registry.getActivePeers([upUrl, downUrl])).toEqual([upUrl]);
+    const details = await registry.describePeers([upUrl, downUrl]);
+    expect(details.find((d) => d.url === downUrl)).toMatchObject({
+      source: "static",
+      circuit: "open",
+      lastError: "health check returned 503",
+    });
+    expect(details.find((d) => d.url === upUrl)?.circuit).toBe("closed");
+    registry.destroy();
+  });
+
+  it("live request errors count against the peer", async () => {
+    const health = new PeerHealth({ failureThreshold: 1 });
+    const sticky = new StickyRouter(false);
+    const r = await handleGatewayVerify({
+      peers: [downUrl],
+      inbound: { paymentHeader: "h" },
+      sticky,
+      health,
+    });
+    expect(r.status).toBe(503);
+    expect(health.getState(downUrl)).toBe("open");
+
+    await handleGatewayVerify({ peers: [upUrl], inbound: { paymentHeader: "h" }, sticky, health });
+    expect(health.getState(upUrl)).toBe("closed");
+    sticky.destroy();
+  });
+});
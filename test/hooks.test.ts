@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("x402/facilitator", () => ({
+  verify: vi.fn(async () => ({ isValid: true, payer: "0x1111111111111111111111111111111111111111" })),
+  settle: vi.fn(async () => ({ success: true, transaction: "0xTX", network: "base-sepolia" })),
+}));
+
+import { verify, settle } from "x402/facilitator";
+import { Facilitator } from "../src/facilitator";
+import type { FacilitatorHookContext } from "../src/hooks";
+import { silentLogger, type LogFields } from "../src/logger";
+
+const payer = "0x1111111111111111111111111111111111111111";
+const payTo = "0x2222222222222222222222222222222222222222";
+
+function body(nonce: string) {
+  return {
+    paymentPayload: {
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        signature: `0x${"11".repeat(65)}`,
+        authorization: {
+          from: payer,
+          to: payTo,
+          value: "1000",
+          validAfter: "0",
+          validBefore: "9999999999",
+          nonce: `0x${nonce.repeat(32)}`,
+        },
+      },
+    },
+    paymentRequirements: {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "1000",
+      resource: "https://example.com/r",
+      description: "",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 60,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    },
+  };
+}
+
+const evmPrivateKey = `0x${"01".repeat(32)}` as const;
+
+describe("Facilitator hooks", () => {
+  beforeEach(() => {
+    vi.mocked(verify).mockClear();
+    vi.mocked(settle).mockClear();
+  });
+
+  it("lets a before hook answer a verify and an after hook replace the response", async () => {
+    const calls: string[] = [];
+    const facilitator = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      hooks: [
+        {
+          beforeVerify: (ctx) => {
+            calls.push(`quota ${ctx.payer}`);
+            ctx.metadata.tenant = "acme";
+            if (ctx.requestId === "over-quota") return { status: 429, body: { error: "Quota exceeded" } };
+          },
+        },
+        {
+          beforeVerify: () => void calls.push("audit"),
+          afterVerify: (ctx, response) => ({ ...response, body: { ...(response.body as object), ...ctx.metadata } }),
+        },
+      ],
+    });
+
+    const refused = await facilitator.handleRequest({
+      method: "POST",
+      path: "/verify",
+      body: body("ab"),
+      requestId: "over-quota",
+    });
+    expect(refused).toEqual({ status: 429, body: { error: "Quota exceeded" } });
+    expect(calls).toEqual([`quota ${payer}`]);
+    expect(verify).not.toHaveBeenCalled();
+
+    const r = await facilitator.handleRequest({ method: "POST", path: "/verify", body: body("ab") });
+    expect(r).toEqual({ status: 200, body: { isValid: true, payer, tenant: "acme" } });
+    expect(calls).toEqual([`quota ${payer}`, `quota ${payer}`, "audit"]);
+  });
+
+  it("runs settle hooks around settlements but not their replays", async () => {
+    const seen: { route: string; status: number; body: unknown }[] = [];
+    const infos: LogFields[] = [];
+    const facilitator = new Facilitator({
+      evmPrivateKey,
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      logger: { ...silentLogger, info: (fields) => void infos.push(fields) },
+      hooks: {
+        beforeSettle: (ctx) => {
+          ctx.metadata.auditId = "a-1";
+        },
+        afterSettle: (ctx, response) => void seen.push({ route: ctx.route, ...response }),
+      },
+    });
+    const first = await facilitator.handleRequest({ method: "POST", path: "/settle", body: body("cd") });
+    expect(first).toEqual({ status: 200, body: { success: true, transaction: "0xTX", network: "base-sepolia" } });
+    expect(seen).toEqual([{ route: "settle", ...first }]);
+    expect(infos[infos.length - 1]).toMatchObject({ route: "settle", metadata: { auditId: "a-1" } });
+
+    const replay = await facilitator.handleRequest({ method: "POST", path: "/settle", body: body("cd") });
+    expect(replay).toEqual(first);
+    expect(seen).toHaveLength(1);
+    expect(settle).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the settle result when an afterSettle hook throws", async () => {
+    const logged: string[] = [];
+    const errors: unknown[] = [];
+    const facilitator = new Facilitator({
+      evmPrivateKey,
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      logger: { ...silentLogger, error: (_f: LogFields, m?: string) => void logged.push(m ?? "") },
+      hooks: {
+        afterSettle: () => {
+          throw new Error("audit sink down");
+        },
+        onError: (_ctx, error) => void errors.push(error),
+      },
+    });
+    const r = await facilitator.handleRequest({ method: "POST", path: "/settle", body: body("12") });
+    expect(r).toEqual({ status: 200, body: { success: true, transaction: "0xTX", network: "base-sepolia" } });
+    expect(logged).toEqual(["afterSettle hook failed"]);
+    expect(errors).toEqual([]);
+  });
+
+  it("passes errors to onError, which may replace the response", async () => {
+    vi.mocked(verify).mockRejectedValueOnce(new Error("rpc unavailable"));
+    const errors: unknown[] = [];
+    const logged: string[] = [];
+    const facilitator = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      logger: { ...silentLogger, error: (_f: LogFields, m?: string) => void logged.push(m ?? "") },
+      hooks: [
+        {
+          onError: (ctx: FacilitatorHookContext, error, response) => {
+            errors.push(error);
+            return { status: 503, body: { ...(response.body as object), route: ctx.route } };
+          },
+        },
+        {
+          onError: () => {
+            throw new Error("audit sink down");
+          },
+        },
+      ],
+    });
+    const r = await facilitator.handleRequest({ method: "POST", path: "/verify", body: body("ef") });
+    expect(r).toEqual({ status: 503, body: { error: "rpc unavailable", route: "verify" } });
+    expect(errors).toEqual([new Error("rpc unavailable")]);
+    expect(logged).toEqual(["onError hook failed"]);
+
+    // An invalid body is answered before any hook runs
+    const invalid = await facilitator.handleRequest({ method: "POST", path: "/verify", body: {} });
+    expect(invalid.status).toBe(400);
+    expect(errors).toHaveLength(1);
+  });
+});
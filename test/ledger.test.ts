@@ -0,0 +1,267 @@
+import express from "express";
+import Fastify from "fastify";
+import Koa from "koa";
+import request from "supertest";
+import { describe, it, expect, afterAll } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { type LedgerEntry, MemoryLedger, serveLedger } from "../src/ledger";
+import { JsonlFileLedger } from "../src/fileLedger";
+import { Facilitator } from "../src/facilitator";
+import { createExpressAdapter } from "../src/adapters/expressAdapter";
+import { createFastifyAdapter } from "../src/adapters/fastifyAdapter";
+import { createKoaAdapter } from "../src/adapters/koaAdapter";
+import { silentLogger, type LogFields } from "../src/logger";
+
+const payer = "0x1111111111111111111111111111111111111111";
+const payTo = "0x2222222222222222222222222222222222222222";
+
+async function collect<T>(items: string | AsyncIterable<T>): Promise<T[]> {
+  if (typeof items === "string") throw new Error("expected a streamed body");
+  const collected: T[] = [];
+  for await (const item of items) collected.push(item);
+  return collected;
+}
+
+function entry(n: number, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id: `e-${n}`,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, n)).toISOString(),
+    kind: n % 2 ? "settle" : "verify",
+    outcome: "success",
+    network: "base-sepolia",
+    payer,
+    payTo,
+    amount: "1000",
+    latencyMs: 5,
+    ...overrides,
+  };
+}
+
+describe("MemoryLedger", () => {
+  it("filters entries and pages through them newest first", () => {
+    const ledger = new MemoryLedger();
+    for (let n = 0; n < 10; n++) ledger.record(entry(n));
+    ledger.record(entry(10, { payer: "0x3333333333333333333333333333333333333333" }));
+
+    const first = ledger.query({ kind: "settle", payer: payer.toUpperCase().replace("0X", "0x"), limit: 3 });
+    expect(first.entries.map((e) => e.id)).toEqual(["e-9", "e-7", "e-5"]);
+    const second = ledger.query({ kind: "settle", payer, limit: 3, cursor: first.nextCursor });
+    expect(second.entries.map((e) => e.id)).toEqual(["e-3", "e-1"]);
+    expect(second.nextCursor).toBeUndefined();
+
+    const range = ledger.query({ fromMs: Date.UTC(2026, 0, 1, 0, 2), toMs: Date.UTC(2026, 0, 1, 0, 4) });
+    expect(range.entries.map((e) => e.id)).toEqual(["e-3", "e-2"]);
+  });
+
+  it("keeps cursors valid when old entries are dropped", async () => {
+    const ledger = new MemoryLedger(4);
+    for (let n = 0; n < 4; n++) ledger.record(entry(n));
+    const first = ledger.query({ limit: 1 });
+    for (let n = 4; n < 6; n++) ledger.record(entry(n));
+    expect(ledger.size).toBe(4);
+    expect(ledger.query({ cursor: first.nextCursor })).toEqual({ entries: [entry(2)] });
+    expect(ledger.query({}).entries.map((e) => e.id)).toEqual(["e-5", "e-4", "e-3", "e-2"]);
+    expect(await collect(ledger.export({ cursor: first.nextCursor }))).toEqual([entry(2)]);
+  });
+
+  it("exports matching entries below the cursor oldest first", async () => {
+    const ledger = new MemoryLedger();
+    for (let n = 0; n < 5; n++) ledger.record(entry(n));
+    expect(await collect(ledger.export({ kind: "verify", limit: 1 }))).toEqual([entry(0), entry(2), entry(4)]);
+    expect(await collect(ledger.export({ cursor: "2" }))).toEqual([entry(0), entry(1)]);
+  });
+});
+
+describe("JsonlFileLedger", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ledger-"));
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends entries that survive a restart and skips unreadable lines", async () => {
+    const file = path.join(dir, "nested", "ledger.jsonl");
+    const ledger = new JsonlFileLedger(file);
+    expect(await ledger.query({})).toEqual({ entries: [] });
+    await ledger.record(entry(0));
+    fs.appendFileSync(file, '{"id":"torn\n');
+    await ledger.record(entry(1, { outcome: "failure" }));
+    expect((await ledger.query({})).entries.map((e) => e.id)).toEqual(["e-1", "e-0"]);
+
+    const reopened = new JsonlFileLedger(file);
+    expect((await reopened.query({ outcome: "failure" })).entries).toEqual([entry(1, { outcome: "failure" })]);
+  });
+
+  it("pages through the file newest first", async () => {
+    const ledger = new JsonlFileLedger(path.join(dir, "paged.jsonl"));
+    await Promise.all([0, 1, 2, 3, 4].map((n) => ledger.record(entry(n))));
+    const first = await ledger.query({ kind: "verify", limit: 2 });
+    expect(first).toEqual({ entries: [entry(4), entry(2)], nextCursor: "2" });
+    expect(await ledger.query({ kind: "verify", limit: 2, cursor: first.nextCursor })).toEqual({ entries: [entry(0)] });
+    const memory = new MemoryLedger();
+    for (let n = 0; n < 5; n++) memory.record(entry(n));
+    expect(await ledger.query({ limit: 3, cursor: "4" })).toEqual(memory.query({ limit: 3, cursor: "4" }));
+  });
+
+  it("exports the file oldest first in one pass", async () => {
+    const file = path.join(dir, "export.jsonl");
+    const ledger = new JsonlFileLedger(file);
+    expect(await collect(ledger.export({}))).toEqual([]);
+    for (let n = 0; n < 5; n++) await ledger.record(entry(n));
+    expect(await collect(ledger.export({ kind: "settle" }))).toEqual([entry(1), entry(3)]);
+    expect(await collect(ledger.export({ cursor: "3" }))).toEqual([entry(0), entry(1), entry(2)]);
+  });
+});
+
+describe("serveLedger", () => {
+  const ledger = new MemoryLedger();
+  for (let n = 0; n < 3; n++) ledger.record(entry(n));
+  ledger.record(entry(3, { outcome: "failure", reason: '=HYPERLINK("x"), "quoted"' }));
+
+  it("answers a page of entries as JSON", async () => {
+    const r = await serveLedger(ledger, new URLSearchParams({ kind: "verify", limit: "1" }));
+    expect(r.status).toBe(200);
+    expect(r.contentType).toBe("application/json");
+    expect(JSON.parse(r.body)).toEqual({ entries: [entry(2)], nextCursor: "2" });
+  });
+
+  it("exports every matching entry as CSV or JSON Lines", async () => {
+    const csv = await serveLedger(ledger, new URLSearchParams({ format: "csv", limit: "1" }));
+    expect(csv.contentType).toBe("text/csv; charset=utf-8");
+    const lines = (await collect(csv.body)).join("").trimEnd().split("\r\n");
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toBe(
+      "timestamp,kind,outcome,network,payer,payTo,asset,amount,transaction,node,latencyMs,reason,requestId,id"
+    );
+    expect(lines[4]).toContain(`,failure,base-sepolia,${payer},`);
+    expect(lines[4]).toContain(`,"'=HYPERLINK(""x""), ""quoted""",`);
+
+    const jsonl = await serveLedger(ledger, new URLSearchParams({ format: "jsonl", outcome: "success" }));
+    expect(jsonl.contentType).toBe("application/x-ndjson");
+    const ids = (await collect(jsonl.body)).join("").trimEnd().split("\n").map((line) => JSON.parse(line).id);
+    expect(ids).toEqual(["e-0", "e-1", "e-2"]);
+  });
+
+  it("streams large exports in chunks and answers 500 when the ledger cannot be read", async () => {
+    const large = new MemoryLedger();
+    for (let n = 0; n < 1_000; n++) large.record(entry(n));
+    const chunks = await collect((await serveLedger(large, new URLSearchParams({ format: "jsonl" }))).body);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("").trimEnd().split("\n")).toHaveLength(1_000);
+
+    const broken = new JsonlFileLedger(path.join(os.tmpdir()));
+    expect((await serveLedger(broken, new URLSearchParams({ format: "csv" }))).status).toBe(500);
+  });
+
+  it("rejects invalid parameters and answers 404 without a ledger", async () => {
+    const invalid = [{ kind: "refund" }, { from: "yesterday" }, { limit: "-1" }, { cursor: "x" }, { format: "xml" }];
+    for (const params of invalid) {
+      expect((await serveLedger(ledger, new URLSearchParams(params))).status).toBe(400);
+    }
+    expect((await serveLedger(undefined, new URLSearchParams())).status).toBe(404);
+  });
+});
+
+describe("Facilitator ledger", () => {
+  const body = {
+    paymentPayload: {
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        signature: `0x${"11".repeat(65)}`,
+        authorization: {
+          from: payer,
+          to: payTo,
+          value: "5000",
+          validAfter: "0",
+          validBefore: "9999999999",
+          nonce: `0x${"ab".repeat(32)}`,
+        },
+      },
+    },
+    paymentRequirements: {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "5000",
+      resource: "https://example.com/r",
+      description: "",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 60,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    },
+  };
+
+  it("records verifies and settles with their payment and outcome", async () => {
+    const ledger = new MemoryLedger();
+    const facilitator = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      policy: { maxAmount: 1000 },
+      ledger,
+      nodeName: "https://node-1.example.com",
+    });
+    await facilitator.handleRequest({ method: "POST", path: "/verify", body, requestId: "r1" });
+    await facilitator.handleRequest({ method: "POST", path: "/settle", body, requestId: "r2" });
+    await facilitator.handleRequest({ method: "POST", path: "/settle", body: {} });
+
+    const { entries } = ledger.query({});
+    expect(entries.map(({ kind, outcome, reason }) => ({ kind, outcome, reason }))).toEqual([
+      { kind: "settle", outcome: "error", reason: expect.any(String) },
+      { kind: "settle", outcome: "rejected", reason: "policy_amount_too_high" },
+      { kind: "verify", outcome: "rejected", reason: "policy_amount_too_high" },
+    ]);
+    expect(entries[2]).toMatchObject({
+      network: "base-sepolia",
+      payer,
+      payTo,
+      asset: body.paymentRequirements.asset,
+      amount: "5000",
+      node: "https://node-1.example.com",
+      requestId: "r1",
+    });
+    expect(entries[2].latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("answers requests when the ledger fails, logging the failure", async () => {
+    const errors: string[] = [];
+    const logger = { ...silentLogger, error: (_f: LogFields, m?: string) => void errors.push(m ?? "") };
+    const facilitator = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      policy: { maxAmount: 1000 },
+      logger,
+      ledger: {
+        record: () => Promise.reject(new Error("disk full")),
+        query: () => ({ entries: [] }),
+      },
+    });
+    const r = await facilitator.handleRequest({ method: "POST", path: "/verify", body });
+    expect(r.status).toBe(200);
+    expect(errors).toEqual(["ledger record failed"]);
+  });
+
+  it("streams exports from the Express, Koa and Fastify adapters", async () => {
+    const ledger = new MemoryLedger();
+    for (let n = 0; n < 1_000; n++) ledger.record(entry(n));
+    const facilitator = new Facilitator({ evmNetworks: [{ network: "base-sepolia" } as any], ledger });
+    const expressApp = express();
+    createExpressAdapter(facilitator, expressApp, "/facilitator", { ledger: true });
+    const koaApp = new Koa();
+    koaApp.use(createKoaAdapter(facilitator, "/facilitator", { ledger: true }));
+    const fastifyApp = Fastify();
+    fastifyApp.register(createFastifyAdapter(facilitator, { ledger: true }), { prefix: "/facilitator" });
+    await fastifyApp.ready();
+
+    for (const server of [expressApp, koaApp.callback(), fastifyApp.server]) {
+      const res = await request(server).get("/facilitator/ledger?format=jsonl&kind=settle");
+      expect(res.status).toBe(200);
+      expect(res.headers["content-type"]).toContain("application/x-ndjson");
+      const ids = res.text.trimEnd().split("\n").map((line) => JSON.parse(line).id);
+      expect(ids).toHaveLength(500);
+      expect(ids[0]).toBe("e-1");
+    }
+    await fastifyApp.close();
+  });
+});
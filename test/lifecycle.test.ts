@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import express from "express";
+import { createHttpGatewayAdapter } from "../src/httpGateway";
+import { SELECTION_TTL_MS, createGatewayContext, handleGatewaySettle, handleGatewayVerify } from "../src/gateway/core";
+
+const payer = "0x1111111111111111111111111111111111111111";
+
+const body = {
+  paymentPayload: {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: { authorization: { from: payer, nonce: `0x${"ab".repeat(32)}` } },
+  },
+  paymentRequirements: { scheme: "exact", network: "base-sepolia", payTo: payer, asset: "0xasset" },
+};
+
+function stubPeers(delayMs = 0) {
+  const calls: string[] = [];
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    calls.push(String(input));
+    if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+    const reply = String(input).endsWith("/verify")
+      ? { isValid: true, payer }
+      : { success: true, transaction: "0xabc", network: "base-sepolia", payer };
+    return new Response(JSON.stringify(reply), { status: 200, headers: { "content-type": "application/json" } });
+  });
+  return calls;
+}
+
+const gatewayOptions = { httpPeers: ["http://peer-a"], healthCheck: false as const };
+
+describe("gateway drain and close", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("refuses new verifies while draining but still settles verified payments", async () => {
+    vi.useFakeTimers();
+    stubPeers();
+    const gw = createGatewayContext(gatewayOptions);
+    const request = async () => ({ ...gw, peers: await gw.peers(), inbound: body });
+
+    expect((await handleGatewayVerify(await request())).status).toBe(200);
+    let drained = false;
+    const draining = gw.drain().then(() => (drained = true));
+    expect(gw.lifecycle.state).toBe("draining");
+
+    expect(await handleGatewayVerify(await request())).toEqual({ status: 503, body: { error: "Gateway is draining" } });
+    expect(await handleGatewaySettle(await request())).toMatchObject({ status: 200, body: { success: true } });
+
+    await vi.advanceTimersByTimeAsync(SELECTION_TTL_MS - 1_000);
+    expect(drained).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await draining;
+    expect(drained).toBe(true);
+    await gw.close();
+  });
+
+  it("drains at once when nothing was verified", async () => {
+    const gw = createGatewayContext(gatewayOptions);
+    await gw.drain();
+    expect(gw.lifecycle.state).toBe("draining");
+    await gw.close();
+  });
+
+  it("close waits for in-flight requests, then refuses everything", async () => {
+    const calls = stubPeers(50);
+    const gw = createGatewayContext(gatewayOptions);
+    const request = async () => ({ ...gw, peers: await gw.peers(), inbound: body });
+
+    const inflight = handleGatewaySettle(await request());
+    let closed = false;
+    const closing = gw.close().then(() => (closed = true));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(closed).toBe(false);
+    expect((await inflight).status).toBe(200);
+    await closing;
+
+    expect(await handleGatewaySettle(await request())).toMatchObject({
+      status: 503,
+      body: { error: "Gateway is closed" },
+    });
+    expect((await handleGatewayVerify(await request())).status).toBe(503);
+    expect(calls.filter((url) => !url.endsWith("/supported"))).toEqual(["http://peer-a/settle"]);
+  });
+
+  it("close cuts a drain short", async () => {
+    stubPeers();
+    const gw = createGatewayContext(gatewayOptions);
+    await handleGatewayVerify({ ...gw, peers: gw.peers(), inbound: body });
+    const draining = gw.drain();
+    await gw.close();
+    await draining;
+    expect(gw.lifecycle.state).toBe("closed");
+  });
+
+  it("the Express adapter returns a handle on the gateway", async () => {
+    stubPeers();
+    const router = express.Router();
+    const handle = createHttpGatewayAdapter(router, gatewayOptions);
+    await handle.registry.register("http://peer-b");
+    expect(await handle.registry.getActivePeers([])).toEqual(["http://peer-b"]);
+    expect(await handle.sticky.size()).toEqual({ payers: 0, headers: 0 });
+    expect(handle.state).toBe("running");
+    await handle.close();
+    expect(handle.state).toBe("closed");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { createConsoleLogger, resolveLogger, silentLogger, type Logger } from "../src/logger";
+import { StickyRouter, handleGatewayVerify } from "../src/gateway/core";
+
+function captureLogger(): Logger & { records: Array<{ level: string; msg?: string; [k: string]: unknown }> } {
+  const records: Array<{ level: string; msg?: string; [k: string]: unknown }> = [];
+  const at = (level: string) => (fields: Record<string, unknown>, msg?: string) => records.push({ level, msg, ...fields });
+  return { records, debug: at("debug"), info: at("info"), warn: at("warn"), error: at("error") };
+}
+
+describe("console logger", () => {
+  it("writes JSON lines at or above its level", () => {
+    const out = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const err = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const log = createConsoleLogger({ level: "info", name: "test" });
+    log.debug({ a: 1 }, "hidden");
+    log.info({ a: 2 }, "shown");
+    log.warn({ a: 3 }, "warned");
+    expect(out).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(out.mock.calls[0][0] as string)).toMatchObject({ level: "info", name: "test", msg: "shown", a: 2 });
+    expect(JSON.parse(err.mock.calls[0][0] as string)).toMatchObject({ level: "warn", a: 3 });
+    out.mockRestore();
+    err.mockRestore();
+  });
+
+  it("is silent unless a logger or level is configured", () => {
+    expect(resolveLogger({}, "x")).toBe(silentLogger);
+    const injected = captureLogger();
+    expect(resolveLogger({ logger: injected, debug: true }, "x")).toBe(injected);
+  });
+});
+
+describe("gateway request logging", () => {
+  let server: http.Server;
+  let url: string;
+  const seenRequestIds: Array<string | undefined> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      seenRequestIds.push(req.headers["x-request-id"] as string | undefined);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ isValid: true }));
+    });
+    await new Promise<void>((r) => server.listen(0, () => r()));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  it("emits structured records with request id and redacted payer, and forwards the id", async () => {
+    const logger = captureLogger();
+    const sticky = new StickyRouter(false);
+    const r = await handleGatewayVerify({
+      peers: [url],
+      sticky,
+      logger,
+      redactPayers: true,
+      requestId: "req-1",
+      inbound: {
+        paymentPayload: {
+          network: "base-sepolia",
+          payload: { authorization: { from: "0x1111111111111111111111111111111111112222" } },
+        },
+        paymentRequirements: { network: "base-sepolia" },
+      } as any,
+    });
+    expect(r.status).toBe(200);
+    expect(seenRequestIds).toEqual(["req-1"]);
+
+    const common = { requestId: "req-1", route: "verify", network: "base-sepolia", payer: "0x1111…2222" };
+    expect(logger.records[0]).toMatchObject({ ...common, level: "debug", peer: url, msg: "forwarding verify" });
+    expect(logger.records.at(-1)).toMatchObject({ ...common, level: "info", status: 200, msg: "verify completed" });
+    expect(typeof logger.records.at(-1)!.durationMs).toBe("number");
+    sticky.destroy();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { MetricsRegistry } from "../src/metrics";
+import { Facilitator } from "../src/facilitator";
+import { PeerRegistry, StickyRouter, handleGatewayVerify } from "../src/gateway/core";
+import { GatewayMetrics } from "../src/gateway/metrics";
+
+describe("MetricsRegistry", () => {
+  it("renders counters, histograms and gauges in Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("requests_total", "Requests.");
+    const histogram = registry.histogram("duration_seconds", "Durations.", [0.1, 1]);
+    let size = 3;
+    registry.gauge("queue_size", "Queue size.", () => size);
+
+    counter.inc({ route: "verify", peer: 'http://a/"x"' });
+    counter.inc({ peer: 'http://a/"x"', route: "verify" }, 2);
+    histogram.observe({ route: "settle" }, 0.5);
+    histogram.observe({ route: "settle" }, 5);
+    size = 4;
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests.",
+        "# TYPE requests_total counter",
+        'requests_total{route="verify",peer="http://a/\\"x\\""} 3',
+        "# HELP duration_seconds Durations.",
+        "# TYPE duration_seconds histogram",
+        'duration_seconds_bucket{route="settle",le="0.1"} 0',
+        'duration_seconds_bucket{route="settle",le="1"} 1',
+        'duration_seconds_bucket{route="settle",le="+Inf"} 2',
+        'duration_seconds_sum{route="settle"} 5.5',
+        'duration_seconds_count{route="settle"} 2',
+        "# HELP queue_size Queue size.",
+        "# TYPE queue_size gauge",
+        "queue_size 4",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("network labels", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const payment = (network: string) => ({
+    paymentPayload: { x402Version: 1, scheme: "exact", network, payload: {} },
+    paymentRequirements: { scheme: "exact", network },
+  });
+
+  it("labels networks the node is not configured for as other", async () => {
+    const facilitator = new Facilitator({ evmNetworks: [{ network: "base-sepolia" } as any] });
+    await facilitator.handleRequest({ method: "POST", path: "/verify", body: payment("base-sepolia") });
+    await facilitator.handleRequest({ method: "POST", path: "/verify", body: payment(`spam-${Math.random()}`) });
+    const text = facilitator.renderMetrics();
+    expect(text).toContain('x402_facilitator_requests_total{route="verify",network="base-sepolia",status="400"} 1');
+    expect(text).toContain('x402_facilitator_requests_total{route="verify",network="other",status="400"} 1');
+    expect(text).not.toContain("spam-");
+
+    const off = new Facilitator({ evmNetworks: [{ network: "base-sepolia" } as any], metrics: false });
+    await off.handleRequest({ method: "POST", path: "/verify", body: payment("base-sepolia") });
+    expect(off.renderMetrics()).not.toContain("x402_facilitator_requests_total{");
+  });
+
+  it("labels networks no gateway peer announced as other", async () => {
+    const peer = "http://peer1:3000";
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+      String(input).endsWith("/supported")
+        ? Response.json({ kinds: [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }] })
+        : Response.json({ isValid: true })
+    );
+    const registry = new PeerRegistry(false);
+    const sticky = new StickyRouter(false);
+    const metrics = new GatewayMetrics();
+    const opts = { peers: [peer], sticky, registry, metrics };
+    await handleGatewayVerify({ ...opts, inbound: payment("base-sepolia") });
+    await handleGatewayVerify({ ...opts, inbound: payment("spam-1") });
+    const text = await metrics.render();
+    expect(text).toContain('x402_gateway_requests_total{route="verify",network="base-sepolia",status="200"} 1');
+    expect(text).toContain('x402_gateway_requests_total{route="verify",network="other",status="400"} 1');
+    expect(text).not.toContain("spam-");
+    registry.destroy();
+    sticky.destroy();
+  });
+});
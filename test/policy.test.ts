@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { checkPolicy, describePolicy, type PaymentPolicy } from "../src/policy";
+import { Facilitator } from "../src/facilitator";
+
+const usdc = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const payTo = "0x2222222222222222222222222222222222222222";
+
+const requirements = (overrides: Record<string, unknown> = {}) =>
+  ({
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/r",
+    description: "",
+    mimeType: "application/json",
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: usdc,
+    ...overrides,
+  }) as any;
+
+const policy: PaymentPolicy = {
+  assets: { "base-sepolia": [usdc.toLowerCase()] },
+  denyPayTo: ["0x9999999999999999999999999999999999999999"],
+  minAmount: 100,
+  maxAmount: "1000000",
+  maxTimeoutSeconds: 300,
+};
+
+describe("checkPolicy", () => {
+  it("accepts requirements within the limits", () => {
+    expect(checkPolicy(policy, requirements())).toBeUndefined();
+    expect(checkPolicy(policy, requirements({ network: "base", asset: payTo }))).toBeUndefined();
+    expect(checkPolicy({}, requirements())).toBeUndefined();
+  });
+
+  it("names the first rule broken", () => {
+    expect(checkPolicy(policy, requirements({ asset: payTo }))).toBe("policy_asset_not_allowed");
+    expect(checkPolicy(policy, requirements({ payTo: "0x9999999999999999999999999999999999999999" }))).toBe(
+      "policy_pay_to_not_allowed"
+    );
+    expect(checkPolicy({ allowPayTo: [usdc] }, requirements())).toBe("policy_pay_to_not_allowed");
+    expect(checkPolicy(policy, requirements({ maxAmountRequired: "99" }))).toBe("policy_amount_too_low");
+    expect(checkPolicy(policy, requirements({ maxAmountRequired: "1000001" }))).toBe("policy_amount_too_high");
+    expect(checkPolicy(policy, requirements({ maxTimeoutSeconds: 301 }))).toBe("policy_timeout_too_long");
+  });
+
+  it("describes the limits for a network without denied recipients", () => {
+    expect(describePolicy(policy, "base-sepolia")).toEqual({
+      assets: [usdc.toLowerCase()],
+      minAmountRequired: "100",
+      maxAmountRequired: "1000000",
+      maxTimeoutSeconds: 300,
+    });
+    expect(describePolicy({ assets: { base: [usdc] } }, "base-sepolia")).toBeUndefined();
+  });
+});
+
+describe("Facilitator policy", () => {
+  const facilitator = new Facilitator({
+    evmPrivateKey: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+    evmNetworks: [{ network: "base-sepolia" } as any],
+    policy,
+  });
+  const body = {
+    paymentPayload: {
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        signature: `0x${"11".repeat(65)}`,
+        authorization: {
+          from: "0x1111111111111111111111111111111111111111",
+          to: payTo,
+          value: "5000000",
+          validAfter: "0",
+          validBefore: "9999999999",
+          nonce: `0x${"ab".repeat(32)}`,
+        },
+      },
+    },
+    paymentRequirements: requirements({ maxAmountRequired: "5000000" }),
+  };
+
+  it("refuses to verify or settle outside the policy", async () => {
+    const verified = await facilitator.handleRequest({ method: "POST", path: "/verify", body });
+    expect(verified).toEqual({
+      status: 200,
+      body: {
+        isValid: false,
+        invalidReason: "policy_amount_too_high",
+        payer: "0x1111111111111111111111111111111111111111",
+      },
+    });
+    const settled = await facilitator.handleRequest({ method: "POST", path: "/settle", body });
+    expect(settled.body).toMatchObject({ success: false, errorReason: "policy_amount_too_high", transaction: "" });
+    expect(facilitator.renderMetrics()).toContain(
+      'x402_facilitator_settlements_total{network="base-sepolia",result="rejected"} 1'
+    );
+  });
+
+  it("advertises the limits in /supported", async () => {
+    const r = await facilitator.handleRequest({ method: "GET", path: "/supported" });
+    expect(r.body).toEqual({
+      kinds: [
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network: "base-sepolia",
+          extra: { policy: describePolicy(policy, "base-sepolia") },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { Hono } from "hono";
+import { type GatewayRegistrationStatus, startGatewayRegistration } from "../src/registrar";
+import { dnsGatewayProvider } from "../src/discovery";
+import { createHonoGatewayAdapter } from "../src/adapters/honoGateway";
+
+/** Routes the registrar's fetch calls into in-process Hono gateways keyed by origin. */
+function routeFetchTo(gateways: Record<string, Hono>) {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+    const url = new URL(String(input));
+    const app = gateways[url.origin];
+    if (!app) throw new TypeError("fetch failed");
+    return app.request(url.pathname, init as RequestInit);
+  });
+}
+
+async function peersOf(app: Hono): Promise<string[]> {
+  const res = await app.request("/facilitator/peers");
+  return (await res.json()).peers;
+}
+
+function gatewayApp(secret?: string): Hono {
+  const app = new Hono();
+  app.route(
+    "/facilitator",
+    createHonoGatewayAdapter({
+      httpPeers: [],
+      healthCheck: false,
+      registrationAuth: secret ? { secret } : undefined,
+    })
+  );
+  return app;
+}
+
+describe("startGatewayRegistration", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("signs heartbeats so an authenticated gateway accepts them", async () => {
+    const secured = gatewayApp("shared-secret");
+    const fetchSpy = routeFetchTo({ "http://gw1": secured });
+
+    const stop = startGatewayRegistration({
+      gatewayUrls: ["http://gw1/facilitator"],
+      nodeBaseUrl: "http://node1:4101/facilitator/",
+      registrationSecret: "shared-secret",
+    });
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+    await vi.waitFor(async () => expect(await peersOf(secured)).toEqual(["http://node1:4101/facilitator"]));
+    stop();
+  });
+
+  it("unsigned heartbeats are rejected by an authenticated gateway", async () => {
+    const secured = gatewayApp("shared-secret");
+    const fetchSpy = routeFetchTo({ "http://gw1": secured });
+
+    const stop = startGatewayRegistration({
+      gatewayUrls: ["http://gw1/facilitator"],
+      nodeBaseUrl: "http://node1:4101/facilitator",
+    });
+    await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+    const res = await fetchSpy.mock.results[0].value;
+    expect(res.status).toBe(401);
+    expect(await peersOf(secured)).toEqual([]);
+    stop();
+  });
+
+  it("drain() marks the node draining and stop() deregisters it from every gateway", async () => {
+    const gw1 = gatewayApp("shared-secret");
+    const gw2 = gatewayApp("shared-secret");
+    routeFetchTo({ "http://gw1": gw1, "http://gw2": gw2 });
+
+    const registration = startGatewayRegistration({
+      gatewayUrls: ["http://gw1/facilitator", "http://gw2/facilitator"],
+      nodeBaseUrl: "http://node1:4101/facilitator",
+      registrationSecret: "shared-secret",
+    });
+    await vi.waitFor(async () => expect(await peersOf(gw2)).toEqual(["http://node1:4101/facilitator"]));
+
+    await registration.drain();
+    const res = await gw1.request("/facilitator/peers");
+    expect((await res.json()).details).toMatchObject([{ url: "http://node1:4101/facilitator", draining: true }]);
+
+    await registration();
+    expect(await peersOf(gw1)).toEqual([]);
+    expect(await peersOf(gw2)).toEqual([]);
+  });
+
+  it("stop() resolves when a gateway is unreachable", async () => {
+    routeFetchTo({});
+    const stop = startGatewayRegistration({
+      gatewayUrls: ["http://down/facilitator"],
+      nodeBaseUrl: "http://node1:4101/facilitator",
+    });
+    await expect(stop()).resolves.toBeUndefined();
+  });
+});
+
+describe("registrar resilience", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("backs off exponentially from a failing gateway while heartbeating the others", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5); // no jitter
+    const healthy = gatewayApp();
+    const attempts: Record<string, number[]> = { "http://up": [], "http://down": [] };
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      attempts[url.origin].push(Date.now());
+      if (url.origin === "http://down") throw new TypeError("fetch failed");
+      return healthy.request(url.pathname, init as RequestInit);
+    });
+    const statuses: GatewayRegistrationStatus[] = [];
+    const start = Date.now();
+
+    const stop = startGatewayRegistration({
+      gatewayUrls: ["http://up/facilitator", "http://down/facilitator"],
+      nodeBaseUrl: "http://node1:4101/facilitator",
+      intervalMs: 10_000,
+      onStatus: (status) => statuses.push(status),
+    });
+    await vi.advanceTimersByTimeAsync(20_000);
+
+    expect(attempts["http://down"].map((t) => t - start)).toEqual([0, 1_000, 3_000, 7_000, 15_000]);
+    expect(attempts["http://up"].map((t) => t - start)).toEqual([0, 10_000, 20_000]);
+    const [up, down] = stop.status();
+    expect(up).toMatchObject({ gateway: "http://up/facilitator", ok: true, httpStatus: 200, consecutiveFailures: 0 });
+    expect(up.lastSuccessMs).toBe(start + 20_000);
+    expect(down).toMatchObject({ ok: false, error: "fetch failed", consecutiveFailures: 5 });
+    expect(down.lastSuccessMs).toBeUndefined();
+    // Retries are capped at intervalMs, below the gateway's registry TTL
+    expect(down.nextAttemptMs).toBe(start + 25_000);
+    expect(statuses.filter((s) => s.gateway === "http://down/facilitator")).toHaveLength(5);
+
+    vi.useRealTimers();
+    await stop();
+  });
+
+  it("follows the gateways returned by a provider and deregisters from dropped ones", async () => {
+    vi.useFakeTimers();
+    const gw1 = gatewayApp();
+    const gw2 = gatewayApp();
+    routeFetchTo({ "http://gw1": gw1, "http://gw2": gw2 });
+    let fleet = ["http://gw1/facilitator"];
+
+    const stop = startGatewayRegistration({
+      gatewayProvider: async () => fleet,
+      nodeBaseUrl: "http://node1:4101/facilitator",
+      intervalMs: 10_000,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stop.status().map((s) => s.gateway)).toEqual(["http://gw1/facilitator"]);
+
+    fleet = ["http://gw2/facilitator"];
+    await vi.advanceTimersByTimeAsync(11_000);
+    expect(stop.status().map((s) => s.gateway)).toEqual(["http://gw2/facilitator"]);
+    expect(await peersOf(gw2)).toEqual(["http://node1:4101/facilitator"]);
+    expect(await peersOf(gw1)).toEqual([]);
+
+    vi.useRealTimers();
+    await stop();
+  });
+});
+
+describe("dnsGatewayProvider", () => {
+  it("builds gateway URLs from SRV records", async () => {
+    const resolver = {
+      resolveSrv: async () => [
+        { name: "gw1.example.com.", port: 443, priority: 10, weight: 5 },
+        { name: "gw2.example.com", port: 8443, priority: 10, weight: 5 },
+      ],
+      resolveTxt: async () => [],
+    };
+    const provider = dnsGatewayProvider({ name: "_x402-gateway._tcp.example.com", type: "srv", resolver });
+    expect(await provider()).toEqual([
+      "https://gw1.example.com/facilitator",
+      "https://gw2.example.com:8443/facilitator",
+    ]);
+  });
+
+  it("reads gateway URLs from TXT records", async () => {
+    const resolver = {
+      resolveSrv: async () => [],
+      resolveTxt: async () => [
+        ["https://gw1.example.com/facil", "itator"],
+        ["https://gw2.example.com/facilitator, http://gw3.internal:8080/facilitator"],
+        ["v=spf1 -all"],
+      ],
+    };
+    const provider = dnsGatewayProvider({ name: "gateways.example.com", type: "txt", resolver });
+    expect(await provider()).toEqual([
+      "https://gw1.example.com/facilitator",
+      "https://gw2.example.com/facilitator",
+      "http://gw3.internal:8080/facilitator",
+    ]);
+  });
+});
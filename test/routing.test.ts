@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { PeerStatsTracker, createRoutingStrategy } from "../src/gateway/routing";
+import { StickyRouter, handleGatewayVerify } from "../src/gateway/core";
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((r) => server.listen(0, () => r(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+}
+
+describe("routing strategies", () => {
+  it("round-robin starts one peer further along on each request", () => {
+    const rr = createRoutingStrategy("round-robin");
+    const stats = new PeerStatsTracker();
+    const firsts = [0, 1, 2, 3].map(() => rr.order(["http://c", "http://a", "http://b"], stats)[0]);
+    expect(firsts).toEqual(["http://a", "http://b", "http://c", "http://a"]);
+  });
+
+  it("least-inflight prefers the least busy peer", () => {
+    const stats = new PeerStatsTracker();
+    stats.begin("http://a");
+    stats.begin("http://a");
+    stats.begin("http://b");
+    expect(createRoutingStrategy("least-inflight").order(["http://a", "http://b", "http://c"], stats)).toEqual([
+      "http://c",
+      "http://b",
+      "http://a",
+    ]);
+  });
+
+  it("success-rate rarely starts with a failing peer", () => {
+    const stats = new PeerStatsTracker();
+    for (let i = 0; i < 50; i++) {
+      stats.begin("http://good")(true);
+      stats.begin("http://bad")(false);
+    }
+    const strategy = createRoutingStrategy("success-rate");
+    let good = 0;
+    for (let i = 0; i < 200; i++) if (strategy.order(["http://good", "http://bad"], stats)[0] === "http://good") good++;
+    expect(good).toBeGreaterThan(180);
+  });
+
+  it("rejects unknown strategy names", () => {
+    expect(() => createRoutingStrategy("fastest" as any)).toThrow("Unknown routing strategy: fastest");
+  });
+});
+
+describe("ewma-latency routing through the gateway", () => {
+  let fastServer: http.Server;
+  let slowServer: http.Server;
+  let fastUrl: string;
+  let slowUrl: string;
+
+  beforeAll(async () => {
+    const reply = (res: http.ServerResponse) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ isValid: true }));
+    };
+    fastServer = http.createServer((_req, res) => reply(res));
+    slowServer = http.createServer((_req, res) => void setTimeout(() => reply(res), 60));
+    [fastUrl, slowUrl] = await Promise.all([listen(fastServer), listen(slowServer)]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([
+      new Promise<void>((r) => fastServer.close(() => r())),
+      new Promise<void>((r) => slowServer.close(() => r())),
+    ]);
+  });
+
+  it("records per-peer stats and shifts traffic to the faster peer", async () => {
+    const sticky = new StickyRouter(false);
+    const stats = new PeerStatsTracker();
+    const routing = createRoutingStrategy("ewma-latency");
+    const opts = { peers: [fastUrl, slowUrl], sticky, stats, routing };
+
+    // Open connections first (outside the stats), so the first request's setup is not measured
+    for (const peer of [fastUrl, slowUrl]) {
+      await handleGatewayVerify({ peers: [peer], sticky, inbound: { paymentHeader: "w" } });
+    }
+    // Seed both averages so the comparison does not depend on which peer was tried first
+    await handleGatewayVerify({ ...opts, peers: [fastUrl], inbound: { paymentHeader: "h" } });
+    await handleGatewayVerify({ ...opts, peers: [slowUrl], inbound: { paymentHeader: "h" } });
+    expect(stats.get(slowUrl).ewmaLatencyMs!).toBeGreaterThan(stats.get(fastUrl).ewmaLatencyMs!);
+
+    for (let i = 0; i < 20; i++) await handleGatewayVerify({ ...opts, inbound: { paymentHeader: `h${i}` } });
+    expect(stats.get(fastUrl).requests).toBeGreaterThan(stats.get(slowUrl).requests);
+    expect(stats.get(fastUrl)).toMatchObject({ inflight: 0, failures: 0 });
+    sticky.destroy();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { createPublicClient } from "viem";
+import { RpcPool, createRpcTransport } from "../src/rpc";
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((r) => server.listen(0, () => r(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+}
+
+describe("RpcPool", () => {
+  it("moves failing endpoints behind healthy ones until their cooldown passes", () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+    const pool = new RpcPool(
+      { "base-sepolia": ["http://a", "http://b", "http://c"], solana: "http://s" },
+      { cooldownMs: 1_000 }
+    );
+    expect(pool.order("solana")).toEqual(["http://s"]);
+    expect(pool.has("base")).toBe(false);
+
+    pool.recordFailure("http://a", "down");
+    vi.setSystemTime(now + 10);
+    pool.recordFailure("http://b", "down");
+    expect(pool.order("base-sepolia")).toEqual(["http://c", "http://a", "http://b"]);
+    expect(pool.status("base-sepolia")[0]).toMatchObject({ url: "http://a", healthy: false, lastError: "down" });
+
+    vi.setSystemTime(now + 1_000);
+    expect(pool.order("base-sepolia")).toEqual(["http://a", "http://c", "http://b"]);
+    pool.recordSuccess("http://b");
+    expect(pool.order("base-sepolia")).toEqual(["http://a", "http://b", "http://c"]);
+
+    vi.useRealTimers();
+  });
+});
+
+describe("createRpcTransport", () => {
+  let downServer: http.Server;
+  let upServer: http.Server;
+  let downUrl: string;
+  let upUrl: string;
+  let upCalls = 0;
+
+  beforeAll(async () => {
+    downServer = http.createServer((_req, res) => {
+      res.writeHead(429);
+      res.end("rate limited");
+    });
+    upServer = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (c) => (raw += c));
+      req.on("end", () => {
+        upCalls++;
+        const { id, method } = JSON.parse(raw);
+        res.writeHead(200, { "content-type": "application/json" });
+        if (method === "eth_chainId") res.end(JSON.stringify({ jsonrpc: "2.0", id, result: "0x14a34" }));
+        else res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code: 3, message: "execution reverted" } }));
+      });
+    });
+    [downUrl, upUrl] = await Promise.all([listen(downServer), listen(upServer)]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([
+      new Promise<void>((r) => downServer.close(() => r())),
+      new Promise<void>((r) => upServer.close(() => r())),
+    ]);
+  });
+
+  it("fails over on endpoint errors and records them", async () => {
+    const pool = new RpcPool({ "base-sepolia": [downUrl, upUrl] });
+    const client = createPublicClient({ transport: createRpcTransport(pool, "base-sepolia") });
+
+    expect(await client.getChainId()).toBe(84532);
+    expect(pool.status("base-sepolia")).toMatchObject([
+      { url: downUrl, healthy: false, consecutiveFailures: 1 },
+      { url: upUrl, healthy: true },
+    ]);
+    // The failed endpoint is skipped while cooling down
+    expect(pool.order("base-sepolia")).toEqual([upUrl, downUrl]);
+  });
+
+  it("does not fail over on errors about the request itself", async () => {
+    const pool = new RpcPool({ "base-sepolia": [upUrl, downUrl] });
+    const client = createPublicClient({ transport: createRpcTransport(pool, "base-sepolia") });
+    const before = upCalls;
+    await expect(client.request({ method: "eth_call" as any, params: [] as any })).rejects.toThrow();
+    expect(upCalls - before).toBe(1);
+    expect(pool.status("base-sepolia").every((s) => s.healthy)).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, afterAll, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { FileScreeningList } from "../src/screening";
+import { Facilitator } from "../src/facilitator";
+import { handleGatewaySettle, handleGatewayVerify, StickyRouter } from "../src/gateway/core";
+import { silentLogger, type LogFields } from "../src/logger";
+
+const payer = "0x1111111111111111111111111111111111111111";
+const payTo = "0x2222222222222222222222222222222222222222";
+
+const body = {
+  paymentPayload: {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"11".repeat(65)}`,
+      authorization: {
+        from: payer,
+        to: payTo,
+        value: "1000",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"ab".repeat(32)}`,
+      },
+    },
+  },
+  paymentRequirements: {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/r",
+    description: "",
+    mimeType: "application/json",
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  },
+};
+
+function writeList(file: string, contents: string) {
+  // Replace atomically, as deployment tooling would, so the change is seen immediately
+  fs.writeFileSync(file + ".tmp", contents);
+  fs.renameSync(file + ".tmp", file);
+}
+
+describe("FileScreeningList", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "screening-"));
+  const file = path.join(dir, "denylist.txt");
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("denies listed payers and recipients and picks up changes to the file", () => {
+    writeList(file, "# sanctioned\n0xAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaa OFAC SDN\n\n");
+    const list = new FileScreeningList(file);
+    expect(list.screen({ network: "base", payer, payTo })).toEqual({ allow: true });
+    expect(list.screen({ network: "base", payer: "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa", payTo })).toEqual({
+      allow: false,
+      reason: "payer listed: OFAC SDN",
+    });
+
+    writeList(file, `${payTo}\n`);
+    expect(list.screen({ network: "base", payer, payTo })).toEqual({ allow: false, reason: "payTo listed" });
+    expect(list.size).toBe(1);
+  });
+
+  it("requires the file at startup and keeps the last list when it goes missing", () => {
+    expect(() => new FileScreeningList(path.join(dir, "missing.txt"))).toThrow();
+    writeList(file, `${payer}\n`);
+    const list = new FileScreeningList(file);
+    fs.rmSync(file);
+    expect(list.screen({ network: "base", payer, payTo }).allow).toBe(false);
+  });
+});
+
+describe("Facilitator screening", () => {
+  it("answers 403 screening_denied and logs the reason", async () => {
+    const logs: Array<[LogFields, string | undefined]> = [];
+    const logger = { ...silentLogger, warn: (f: LogFields, m?: string) => void logs.push([f, m]) };
+    const facilitator = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      logger,
+      screening: ({ payer: p }) => (p === payer ? { allow: false, reason: "abuse" } : { allow: true }),
+    });
+    const verified = await facilitator.handleRequest({ method: "POST", path: "/verify", body, requestId: "r1" });
+    expect(verified).toEqual({ status: 403, body: { isValid: false, invalidReason: "screening_denied", payer } });
+    const settled = await facilitator.handleRequest({ method: "POST", path: "/settle", body });
+    expect(settled.status).toBe(403);
+    expect(settled.body).toMatchObject({ success: false, errorReason: "screening_denied", transaction: "" });
+    expect(logs.find(([, m]) => m === "payment denied by screening")?.[0]).toMatchObject({
+      requestId: "r1",
+      route: "verify",
+      payer,
+      payTo,
+      reason: "abuse",
+    });
+  });
+});
+
+describe("gateway and screening denials", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns a node's denial instead of failing over", async () => {
+    const calls: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      calls.push(String(input));
+      const denial = String(input).endsWith("/verify")
+        ? { isValid: false, invalidReason: "screening_denied", payer }
+        : { success: false, errorReason: "screening_denied", transaction: "", network: "base-sepolia", payer };
+      return new Response(JSON.stringify(denial), { status: 403, headers: { "content-type": "application/json" } });
+    });
+    const opts = { peers: ["http://peer-a", "http://peer-b"], inbound: body, sticky: new StickyRouter(false) };
+    const verified = await handleGatewayVerify(opts);
+    expect(verified.status).toBe(403);
+    expect(calls).toHaveLength(1);
+    const settled = await handleGatewaySettle(opts);
+    expect(settled).toMatchObject({ status: 403, body: { errorReason: "screening_denied" } });
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { defineChain } from "viem";
+import { type ContractCall, type SettlementClient, SettlementQueue } from "../src/settlementQueue";
+
+const signer = "0x1111111111111111111111111111111111111111";
+const call: ContractCall = { address: signer, abi: [], functionName: "transferWithAuthorization", args: [] };
+
+const devnet = defineChain({
+  id: 424242,
+  name: "Devnet",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: ["http://127.0.0.1:1"] } },
+});
+
+type Sent = { hash: `0x${string}`; nonce: number; fees: Record<string, bigint> };
+
+// A chain in memory: the pending nonce counts submitted nonces, and nothing is mined until `mine`
+function stubChain(opts: { startNonce?: number; legacy?: boolean } = {}) {
+  const sent: Sent[] = [];
+  const mined = new Set<string>();
+  const dropped = new Set<number>();
+  const failures: Error[] = [];
+  let nonceReads = 0;
+  const client = {
+    account: { address: signer },
+    chain: devnet,
+    async getTransactionCount() {
+      nonceReads++;
+      return (opts.startNonce ?? 0) + new Set(sent.map((tx) => tx.nonce).filter((n) => !dropped.has(n))).size;
+    },
+    async estimateFeesPerGas(args?: { type: "legacy" }) {
+      if (args?.type === "legacy") return { gasPrice: 50n };
+      if (opts.legacy) throw new Error("Chain does not support EIP-1559 fees");
+      return { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+    },
+    async getTransactionReceipt({ hash }: { hash: string }) {
+      if (!mined.has(hash)) throw new Error("Transaction receipt not found");
+      return { status: "success" as const };
+    },
+    async writeContract({ nonce, ...rest }: Record<string, unknown> & { nonce: number }) {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      const hash = `0x${String(sent.length + 1).padStart(64, "0")}` as const;
+      const fees = Object.fromEntries(
+        Object.entries(rest).filter((entry): entry is [string, bigint] => typeof entry[1] === "bigint")
+      );
+      sent.push({ hash, nonce, fees });
+      return hash;
+    },
+  } as unknown as SettlementClient;
+  return {
+    client,
+    sent,
+    failures,
+    nonceReads: () => nonceReads,
+    mine: (...hashes: string[]) => hashes.forEach((hash) => mined.add(hash)),
+    /** Evicts every transaction with `nonce` from the mempool. */
+    drop: (nonce: number) => dropped.add(nonce),
+  };
+}
+
+describe("SettlementQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("assigns concurrent settles consecutive nonces, reading the nonce once", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain({ startNonce: 7 });
+    const queue = new SettlementQueue({ pollingIntervalMs: 100 });
+    const results = Promise.all([1, 2, 3].map(() => queue.submit(chain.client, "base", call)));
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(3));
+    expect(chain.sent.map((tx) => tx.nonce)).toEqual([7, 8, 9]);
+    expect(chain.nonceReads()).toBe(1);
+
+    chain.mine(...chain.sent.map((tx) => tx.hash));
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await results).toEqual(chain.sent.map((tx) => ({ transaction: tx.hash, status: "success" })));
+    expect(queue.describe()).toEqual([{ network: "base", signer, waiting: 0, inFlight: 0, nextNonce: 10 }]);
+  });
+
+  it("caps transactions in flight and reports queue depth", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain();
+    const queue = new SettlementQueue({ maxInFlight: 2, pollingIntervalMs: 100 });
+    const results = Promise.all([1, 2, 3].map(() => queue.submit(chain.client, "base", call)));
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(2));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(chain.sent).toHaveLength(2);
+    expect(queue.depth).toBe(3);
+    expect(queue.describe()).toEqual([{ network: "base", signer, waiting: 1, inFlight: 2, nextNonce: 2 }]);
+
+    chain.mine(chain.sent[0].hash);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(chain.sent.map((tx) => tx.nonce)).toEqual([0, 1, 2]);
+    chain.mine(chain.sent[1].hash, chain.sent[2].hash);
+    await vi.advanceTimersByTimeAsync(100);
+    await results;
+    expect(queue.depth).toBe(0);
+  });
+
+  it("keeps a lane per network and signer", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain();
+    const queue = new SettlementQueue({ maxInFlight: 1, pollingIntervalMs: 100 });
+    void queue.submit(chain.client, "base", call);
+    void queue.submit(chain.client, "avalanche", call);
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(2));
+    expect(queue.describe().map(({ network, inFlight }) => ({ network, inFlight }))).toEqual([
+      { network: "base", inFlight: 1 },
+      { network: "avalanche", inFlight: 1 },
+    ]);
+    chain.mine(...chain.sent.map((tx) => tx.hash));
+    await vi.advanceTimersByTimeAsync(100);
+  });
+
+  it("resubmits a stuck transaction with the same nonce and bumped fees", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain();
+    const queue = new SettlementQueue({ resubmitAfterMs: 1_000, pollingIntervalMs: 100 });
+    const result = queue.submit(chain.client, "base", call);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(chain.sent.map(({ nonce, fees }) => ({ nonce, fees }))).toEqual([
+      { nonce: 0, fees: { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n } },
+      { nonce: 0, fees: { maxFeePerGas: 120n, maxPriorityFeePerGas: 12n } },
+    ]);
+
+    chain.mine(chain.sent[1].hash);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await result).toEqual({ transaction: chain.sent[1].hash, status: "success" });
+  });
+
+  it("accepts the receipt of an earlier submission and bumps legacy gas prices", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain({ legacy: true });
+    const queue = new SettlementQueue({ resubmitAfterMs: 1_000, pollingIntervalMs: 100, feeBumpPercent: 10 });
+    const result = queue.submit(chain.client, "base", call);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(chain.sent.map((tx) => tx.fees)).toEqual([{ gasPrice: 50n }, { gasPrice: 55n }]);
+
+    chain.mine(chain.sent[0].hash);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await result).toEqual({ transaction: chain.sent[0].hash, status: "success" });
+  });
+
+  it("fails a settle whose transaction is not mined after the last resubmission", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain();
+    const queue = new SettlementQueue({ resubmitAfterMs: 1_000, maxResubmits: 1, pollingIntervalMs: 100 });
+    const result = queue.submit(chain.client, "base", call);
+    const failed = expect(result).rejects.toThrow(`Settlement transaction 0x${"2".padStart(64, "0")} not mined`);
+    await vi.advanceTimersByTimeAsync(2_000);
+    await failed;
+    expect(chain.sent).toHaveLength(2);
+    expect(queue.depth).toBe(0);
+  });
+
+  it("re-reads the nonce after a failed submission", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain({ startNonce: 3 });
+    const queue = new SettlementQueue({ pollingIntervalMs: 100 });
+    chain.failures.push(new Error("RPC unavailable"));
+    await expect(queue.submit(chain.client, "base", call)).rejects.toThrow("RPC unavailable");
+    expect(queue.describe()[0].nextNonce).toBeUndefined();
+
+    const result = queue.submit(chain.client, "base", call);
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(1));
+    expect(chain.sent[0].nonce).toBe(3);
+    expect(chain.nonceReads()).toBe(2);
+    chain.mine(chain.sent[0].hash);
+    await vi.advanceTimersByTimeAsync(100);
+    await result;
+  });
+
+  it("reuses the nonce of a transaction it gave up on once the chain dropped it", async () => {
+    vi.useFakeTimers();
+    const chain = stubChain();
+    const queue = new SettlementQueue({ resubmitAfterMs: 1_000, maxResubmits: 0, pollingIntervalMs: 100 });
+    const abandoned = queue.submit(chain.client, "base", call);
+    const failed = expect(abandoned).rejects.toThrow("not mined");
+    await vi.advanceTimersByTimeAsync(1_000);
+    await failed;
+    chain.drop(0);
+
+    const result = queue.submit(chain.client, "base", call);
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(2));
+    expect(chain.sent[1].nonce).toBe(0);
+    chain.mine(chain.sent[1].hash);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await result).toEqual({ transaction: chain.sent[1].hash, status: "success" });
+    expect(queue.describe()[0].nextNonce).toBe(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { hexToBigInt, hexToNumber, recoverTransactionAddress, verifyTypedData, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { createRemoteSignerProvider } from "../src/signers";
+import { Facilitator } from "../src/facilitator";
+
+const account = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+const typedData = {
+  domain: { name: "USDC", version: "2", chainId: 84532, verifyingContract: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+  types: {
+    TransferWithAuthorization: [
+      { name: "from", type: "address" },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  primaryType: "TransferWithAuthorization",
+  message: { from: "0x1111111111111111111111111111111111111111", value: 1000n },
+} as const;
+
+// Stand-in for a Web3Signer-style remote signer holding `account`'s key
+async function handle(method: string, params: any[]): Promise<unknown> {
+  switch (method) {
+    case "eth_accounts":
+      return [account.address];
+    case "eth_signTypedData_v4": {
+      const td = JSON.parse(params[1]);
+      return account.signTypedData({ ...td, message: { ...td.message, value: BigInt(td.message.value) } });
+    }
+    case "eth_signTransaction": {
+      const tx = params[0];
+      return account.signTransaction({
+        type: "eip1559",
+        chainId: hexToNumber(tx.chainId),
+        to: tx.to,
+        nonce: hexToNumber(tx.nonce),
+        gas: hexToBigInt(tx.gas),
+        value: hexToBigInt(tx.value ?? "0x0"),
+        maxFeePerGas: hexToBigInt(tx.maxFeePerGas),
+        maxPriorityFeePerGas: hexToBigInt(tx.maxPriorityFeePerGas),
+      });
+    }
+    default:
+      throw new Error(`method ${method} not allowed`);
+  }
+}
+
+describe("remote signer provider", () => {
+  let server: http.Server;
+  let url: string;
+  const authHeaders: Array<string | undefined> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      authHeaders.push(req.headers.authorization);
+      let raw = "";
+      req.on("data", (c) => (raw += c));
+      req.on("end", async () => {
+        const { id, method, params } = JSON.parse(raw);
+        res.writeHead(200, { "content-type": "application/json" });
+        try {
+          res.end(JSON.stringify({ jsonrpc: "2.0", id, result: await handle(method, params) }));
+        } catch (e: any) {
+          res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32601, message: e.message } }));
+        }
+      });
+    });
+    await new Promise<void>((r) => server.listen(0, () => r()));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((r) => server.close(() => r()));
+  });
+
+  it("signs typed data and transactions through the remote signer", async () => {
+    const provider = createRemoteSignerProvider({ url, headers: { authorization: "Bearer t" } });
+    expect(await provider.getAddress("base-sepolia")).toBe(account.address);
+
+    const signer = (await provider.getSigner("base-sepolia")) as any;
+    expect(signer.account.address).toBe(account.address);
+
+    const signature = await signer.account.signTypedData(typedData);
+    expect(await verifyTypedData({ ...typedData, address: account.address, signature })).toBe(true);
+
+    const serializedTransaction = (await signer.account.signTransaction({
+      type: "eip1559",
+      chainId: 84532,
+      to: "0x2222222222222222222222222222222222222222",
+      nonce: 7,
+      gas: 21_000n,
+      value: 1n,
+      maxFeePerGas: 2n,
+      maxPriorityFeePerGas: 1n,
+    })) as Hex;
+    expect(await recoverTransactionAddress({ serializedTransaction })).toBe(account.address);
+    expect(authHeaders.every((h) => h === "Bearer t")).toBe(true);
+  });
+
+  it("surfaces JSON-RPC errors and rejects unsupported networks", async () => {
+    const provider = createRemoteSignerProvider({ url, networks: ["base-sepolia"] });
+    const signer = (await provider.getSigner("base-sepolia")) as any;
+    await expect(signer.account.signMessage({ message: "hi" })).rejects.toThrow(
+      "Remote signer error for personal_sign: method personal_sign not allowed"
+    );
+    expect(provider.supports("base")).toBe(false);
+    expect(provider.supports("solana-devnet")).toBe(false);
+    await expect(provider.getSigner("base")).rejects.toThrow("Remote signer does not support base");
+  });
+
+  it("lets the facilitator advertise networks without a private key", async () => {
+    const facilitator = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      signerProvider: createRemoteSignerProvider({ url }),
+    });
+    const r = await facilitator.handleRequest({ method: "GET", path: "/supported" });
+    expect(r.body).toEqual({ kinds: [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }] });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { MemoryStateStore } from "../src/gateway/store";
+import { FileStateStore } from "../src/gateway/fileStore";
+import { StickyRouter, PeerRegistry, SELECTION_TTL_MS } from "../src/gateway/core";
+
+const payerBody = {
+  paymentPayload: {
+    payload: { authorization: { from: "0xAAAA" } },
+  } as any,
+};
+
+describe("MemoryStateStore", () => {
+  it("expires entries after their TTL and keeps entries without one", async () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+    const store = new MemoryStateStore();
+    await store.set("a:1", 1, 1_000);
+    await store.set("a:2", 2);
+    await store.set("b:1", 3, 1_000);
+
+    expect(await store.scan("a:")).toEqual([
+      ["a:1", 1],
+      ["a:2", 2],
+    ]);
+
+    vi.setSystemTime(now + 1_001);
+    expect(await store.get("a:1")).toBeUndefined();
+    expect(await store.get("a:2")).toBe(2);
+    expect(await store.scan("b:")).toEqual([]);
+    expect(await store.setIfAbsent("a:2", 4)).toBe(false);
+    expect(await store.setIfAbsent("a:1", 5)).toBe(true);
+    expect(await store.get("a:1")).toBe(5);
+
+    vi.useRealTimers();
+  });
+});
+
+describe("FileStateStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-open-store-"));
+    file = path.join(dir, "state.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists values, TTLs and deletes across instances", async () => {
+    const a = new FileStateStore(file);
+    const b = new FileStateStore(file);
+    await a.set("k:1", { peer: "x" });
+    await a.set("k:2", "short", -1);
+    await a.set("k:3", 3);
+    expect(await b.get("k:1")).toEqual({ peer: "x" });
+    expect(await b.get("k:2")).toBeUndefined();
+
+    await b.delete("k:1");
+    expect(await a.scan("k:")).toEqual([["k:3", 3]]);
+
+    // Compacts the journal to the live entries, which both instances still see
+    await a.purge();
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([{ key: "k:3", value: 3, expiresAt: null }]);
+    await b.set("k:4", 4);
+    expect(await a.scan("k:")).toEqual([
+      ["k:3", 3],
+      ["k:4", 4],
+    ]);
+  });
+
+  it("lets exactly one of several instances claim a key with setIfAbsent", async () => {
+    const stores = [new FileStateStore(file), new FileStateStore(file), new FileStateStore(file)];
+    const claims = await Promise.all(
+      stores.flatMap((s) => [s.setIfAbsent("nonce:1", true, 1_000), s.setIfAbsent("nonce:1", true)])
+    );
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(await stores[0].setIfAbsent("nonce:2", true, -1)).toBe(true);
+    // An expired entry is absent again
+    expect(await stores[1].setIfAbsent("nonce:2", true)).toBe(true);
+  });
+
+  it("shares sticky selections and registrations between gateway replicas", async () => {
+    const stickyA = new StickyRouter(false, { store: new FileStateStore(file) });
+    const stickyB = new StickyRouter(false, { store: new FileStateStore(file) });
+    const registryA = new PeerRegistry(false, { store: new FileStateStore(file) });
+    const registryB = new PeerRegistry(false, { store: new FileStateStore(file) });
+
+    await stickyA.recordSelection("http://peer1:3000", payerBody, { payer: "0xAAAA" });
+    await registryA.register("http://peer2:3000");
+
+    expect(await stickyB.getPreferredPeer(payerBody)).toBe("http://peer1:3000");
+    expect(await registryB.getActivePeers([])).toEqual(["http://peer2:3000"]);
+
+    // Destroying one replica must not wipe state the others depend on
+    stickyA.destroy();
+    registryA.destroy();
+    expect((await stickyB.size()).payers).toBe(1);
+    expect(await registryB.size()).toBe(1);
+  });
+
+  it("expires sticky selections shared through the file", async () => {
+    const now = Date.now();
+    vi.setSystemTime(now);
+    const sticky = new StickyRouter(false, { store: new FileStateStore(file) });
+    await sticky.recordSelection("http://peer1:3000", payerBody, { payer: "0xAAAA" });
+
+    vi.setSystemTime(now + SELECTION_TTL_MS + 1);
+    const other = new StickyRouter(false, { store: new FileStateStore(file) });
+    expect(await other.getPreferredPeer(payerBody)).toBeUndefined();
+
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,444 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+vi.mock("x402/facilitator", () => ({ verify: vi.fn(), settle: vi.fn() }));
+
+import { settle } from "x402/facilitator";
+import { WebhookDispatcher, type WebhookEvent, verifyWebhookSignature } from "../src/webhooks";
+import {
+  SETTLEMENT_POLL_INTERVAL_MS,
+  SettleTracker,
+  StickyRouter,
+  handleGatewaySettle,
+  handleGatewaySettlementStatus,
+  handleGatewayWebhookSubscribe,
+} from "../src/gateway/core";
+import { signRegistration } from "../src/gateway/auth";
+import { MemoryStateStore } from "../src/gateway/store";
+import { Facilitator } from "../src/facilitator";
+
+const payer = "0x1111111111111111111111111111111111111111";
+const payTo = "0x2222222222222222222222222222222222222222";
+
+const body = {
+  paymentPayload: {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"11".repeat(65)}`,
+      authorization: {
+        from: payer,
+        to: payTo,
+        value: "5000",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"ab".repeat(32)}`,
+      },
+    },
+  },
+  paymentRequirements: {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "5000",
+    resource: "https://example.com/r",
+    description: "",
+    mimeType: "application/json",
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  },
+};
+
+/** A public address, so runtime subscriptions need no DNS lookup in tests. */
+const merchantHook = "https://203.0.113.7/hook";
+
+type Delivery = { url: string; headers: Record<string, string>; raw: string; event: WebhookEvent };
+
+/** Stubs `fetch`, answering webhook URLs with `status` and anything else with `other`. */
+function stubFetch(status: (url: string) => number, other?: (url: string) => Response): Delivery[] {
+  const deliveries: Delivery[] = [];
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+    const url = String(input);
+    if (!url.startsWith("https://merchant.example.com") && !url.startsWith(merchantHook)) return other!(url);
+    const raw = String(init?.body);
+    deliveries.push({ url, headers: init?.headers as Record<string, string>, raw, event: JSON.parse(raw) });
+    return new Response(null, { status: status(url) });
+  });
+  return deliveries;
+}
+
+describe("WebhookDispatcher", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("signs deliveries so receivers can verify them", async () => {
+    const deliveries = stubFetch(() => 204);
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [{ payTo, url: "https://merchant.example.com/hook", secret: "whsec" }],
+    });
+    const event = await webhooks.notify("settlement.confirmed", body, { transaction: "0xT", node: "http://node-1" });
+    await vi.waitFor(() => expect(deliveries).toHaveLength(1));
+
+    const [{ headers, raw }] = deliveries;
+    expect(deliveries[0].event).toEqual({
+      id: event!.id,
+      type: "settlement.confirmed",
+      createdAt: expect.any(String),
+      data: {
+        network: "base-sepolia",
+        payer,
+        payTo,
+        asset: body.paymentRequirements.asset,
+        amount: "5000",
+        transaction: "0xT",
+        node: "http://node-1",
+      },
+    });
+    expect(headers["x-webhook-id"]).toBe(event!.id);
+    const signed = { body: raw, timestamp: headers["x-webhook-timestamp"], signature: headers["x-webhook-signature"] };
+    expect(await verifyWebhookSignature({ secret: "whsec", ...signed })).toBe(true);
+    expect(await verifyWebhookSignature({ secret: "other", ...signed })).toBe(false);
+    expect(await verifyWebhookSignature({ secret: "whsec", ...signed, body: raw.replace("5000", "9000") })).toBe(false);
+    const stale = String(Date.now() - 10 * 60_000);
+    expect(await verifyWebhookSignature({ secret: "whsec", ...signed, timestamp: stale })).toBe(false);
+  });
+
+  it("only notifies subscriptions of the payment's payTo that want the event", async () => {
+    const deliveries = stubFetch(() => 200);
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [
+        { payTo: payTo.toUpperCase().replace("0X", "0x"), url: "https://merchant.example.com/all", secret: "a" },
+        { payTo, url: "https://merchant.example.com/failed", secret: "b", events: ["settlement.failed"] },
+        { payTo: payer, url: "https://merchant.example.com/other", secret: "c" },
+      ],
+    });
+    await webhooks.notify("settlement.confirmed", body);
+    await webhooks.notify("settlement.failed", body, { errorReason: "insufficient_funds" });
+    await vi.waitFor(() => expect(deliveries).toHaveLength(3));
+    expect(deliveries.map((d) => `${d.event.type} ${d.url}`).sort()).toEqual([
+      "settlement.confirmed https://merchant.example.com/all",
+      "settlement.failed https://merchant.example.com/all",
+      "settlement.failed https://merchant.example.com/failed",
+    ]);
+    expect(await webhooks.notify("settlement.confirmed", { paymentRequirements: {} })).toBeUndefined();
+  });
+
+  it("retries with backoff, dead-letters after maxAttempts and redelivers on request", async () => {
+    vi.useFakeTimers();
+    let failing = true;
+    const deliveries = stubFetch(() => (failing ? 500 : 200));
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [{ id: "sub-1", payTo, url: "https://merchant.example.com/hook", secret: "s" }],
+      maxAttempts: 3,
+      initialBackoffMs: 1_000,
+    });
+    const event = (await webhooks.notify("settlement.confirmed", body))!;
+    await vi.advanceTimersByTimeAsync(0);
+    expect(deliveries).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(deliveries).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(deliveries).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(deliveries).toHaveLength(3);
+    expect(new Set(deliveries.map((d) => d.event.id))).toEqual(new Set([event.id]));
+
+    expect(webhooks.deadLetters()).toEqual([
+      {
+        event,
+        subscriptionId: "sub-1",
+        url: "https://merchant.example.com/hook",
+        attempts: 3,
+        lastError: "responded 500",
+        failedAt: expect.any(String),
+      },
+    ]);
+    failing = false;
+    expect(await webhooks.retryDeadLetters()).toBe(1);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(deliveries).toHaveLength(4);
+    expect(webhooks.deadLetters()).toEqual([]);
+    webhooks.close();
+  });
+
+  it("keeps subscribed endpoints in the store", async () => {
+    const store = new MemoryStateStore();
+    const webhooks = new WebhookDispatcher({ store });
+    const subscription = await webhooks.subscribe({ payTo, url: merchantHook });
+    expect(subscription.secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(await new WebhookDispatcher({ store }).subscriptions()).toEqual([subscription]);
+
+    await expect(webhooks.subscribe({ payTo, url: "ftp://merchant.example.com" })).rejects.toThrow("Invalid url");
+    await expect(
+      webhooks.subscribe({ payTo, url: "https://m.example.com", events: ["refund" as any] })
+    ).rejects.toThrow("Invalid events");
+    expect(await webhooks.unsubscribe(subscription.id)).toBe(true);
+    expect(await webhooks.unsubscribe(subscription.id)).toBe(false);
+    expect(await webhooks.subscriptions()).toEqual([]);
+  });
+});
+
+describe("gateway webhooks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("subscribes through POST /webhooks, signed with the payTo's or the operator's secret", async () => {
+    const other = "0x3333333333333333333333333333333333333333";
+    const input = { payTo, url: merchantHook, secret: "whsec" };
+    expect((await handleGatewayWebhookSubscribe(new WebhookDispatcher(), input)).status).toBe(404);
+
+    const webhooks = new WebhookDispatcher({
+      subscribeAuth: { secret: "operator", payToSecrets: { [payTo]: "merchant", [other]: "someone-else" } },
+    });
+    expect(await handleGatewayWebhookSubscribe(webhooks, input)).toEqual({
+      status: 401,
+      body: { error: "Missing subscription signature" },
+    });
+    const unknownPayTo = "0x4444444444444444444444444444444444444444";
+    const unknown = await signRegistration({ ...input, payTo: unknownPayTo }, "merchant");
+    expect((await handleGatewayWebhookSubscribe(webhooks, unknown)).status).toBe(401);
+    const foreign = await signRegistration(input, "someone-else");
+    expect((await handleGatewayWebhookSubscribe(webhooks, foreign)).body).toEqual({
+      error: "Invalid subscription signature",
+    });
+
+    const signed = await signRegistration(input, "merchant");
+    expect(await handleGatewayWebhookSubscribe(webhooks, signed)).toEqual({
+      status: 201,
+      body: { id: expect.any(String), ...input, events: undefined, expiresAt: expect.any(String) },
+    });
+    expect((await handleGatewayWebhookSubscribe(webhooks, signed)).body).toEqual({ error: "Replayed subscription" });
+    const byOperator = await signRegistration({ payTo: other, url: merchantHook }, "operator");
+    expect((await handleGatewayWebhookSubscribe(webhooks, byOperator)).status).toBe(201);
+    expect(await webhooks.subscriptions()).toHaveLength(2);
+  });
+
+  it("rejects subscriptions to private and loopback addresses", async () => {
+    const webhooks = new WebhookDispatcher({ subscribeAuth: { secret: "operator" } });
+    for (const url of [
+      "http://127.0.0.1:8080/hook",
+      "http://localhost/hook",
+      "https://10.1.2.3/hook",
+      "http://[::1]/hook",
+      "http://[::ffff:127.0.0.1]/hook",
+      "http://169.254.169.254/latest/meta-data",
+    ]) {
+      const signed = await signRegistration({ payTo, url }, "operator");
+      const r = await handleGatewayWebhookSubscribe(webhooks, signed);
+      expect(r).toEqual({ status: 400, body: { error: "Invalid url: private or loopback address" } });
+    }
+    expect(await webhooks.subscriptions()).toEqual([]);
+
+    const local = new WebhookDispatcher({ allowPrivateUrls: true });
+    await expect(local.subscribe({ payTo, url: "http://127.0.0.1:8080/hook" })).resolves.toBeDefined();
+  });
+
+  it("caps subscriptions per payTo, renews by url and expires them", async () => {
+    vi.useFakeTimers();
+    try {
+      const webhooks = new WebhookDispatcher({
+        subscribeAuth: { secret: "operator" },
+        maxSubscriptionsPerPayTo: 2,
+        subscriptionTtlMs: 60_000,
+      });
+      const subscribe = async (url: string) =>
+        handleGatewayWebhookSubscribe(webhooks, await signRegistration({ payTo, url }, "operator"));
+      const first = await subscribe(`${merchantHook}/1`);
+      expect((await subscribe(`${merchantHook}/2`)).status).toBe(201);
+      expect(await subscribe(`${merchantHook}/3`)).toEqual({
+        status: 409,
+        body: { error: "At most 2 webhook subscriptions per payTo" },
+      });
+
+      vi.advanceTimersByTime(30_000);
+      const renewed = await subscribe(`${merchantHook}/1`);
+      expect(renewed.status).toBe(201);
+      expect(renewed.body).toMatchObject({ id: (first.body as { id: string }).id });
+
+      vi.advanceTimersByTime(45_000);
+      expect((await webhooks.subscriptions()).map((s) => s.url)).toEqual([`${merchantHook}/1`]);
+      vi.advanceTimersByTime(30_000);
+      expect(await webhooks.subscriptions()).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("notifies subscribers of settles the peers answer, but not of replays", async () => {
+    const peer = "http://peer1:3000";
+    const deliveries = stubFetch(
+      () => 200,
+      () => Response.json({ success: true, transaction: "0xA", network: "base-sepolia", payer })
+    );
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [{ payTo, url: "https://merchant.example.com/hook", secret: "s" }],
+    });
+    const sticky = new StickyRouter(false);
+    const settles = new SettleTracker(false);
+    await handleGatewaySettle({ peers: [peer], inbound: body, sticky, settles, webhooks });
+    await handleGatewaySettle({ peers: [peer], inbound: body, sticky, settles, webhooks });
+    await vi.waitFor(() => expect(deliveries).toHaveLength(1));
+    expect(deliveries[0].event).toMatchObject({
+      type: "settlement.confirmed",
+      data: { payTo, transaction: "0xA", node: peer },
+    });
+    sticky.destroy();
+    settles.destroy();
+  });
+
+  it("does not notify of payments that did not verify", async () => {
+    const peer = "http://peer1:3000";
+    const deliveries = stubFetch(
+      () => 200,
+      () => Response.json({ success: false, errorReason: "invalid_exact_evm_payload_signature", transaction: "" })
+    );
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [{ payTo, url: "https://merchant.example.com/hook", secret: "s" }],
+    });
+    const sticky = new StickyRouter(false);
+    const settles = new SettleTracker(false);
+    expect((await handleGatewaySettle({ peers: [peer], inbound: body, sticky, settles, webhooks })).status).toBe(200);
+    await new Promise((r) => setTimeout(r, 20));
+    expect(deliveries).toEqual([]);
+    sticky.destroy();
+    settles.destroy();
+  });
+
+  it("notifies subscribers of an asynchronous settle once its status is final", async () => {
+    const peer = "http://peer1:3000";
+    const deliveries = stubFetch(
+      () => 200,
+      (url) =>
+        url === `${peer}/settle/s-1`
+          ? Response.json({ id: "s-1", status: "confirmed", transaction: "0xA", network: "base-sepolia" })
+          : Response.json({ id: "s-1", status: "pending", network: "base-sepolia" }, { status: 202 })
+    );
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [{ payTo, url: "https://merchant.example.com/hook", secret: "s" }],
+    });
+    const sticky = new StickyRouter(false);
+    const settles = new SettleTracker(false);
+    const settle = { peers: [peer], inbound: body, sticky, settles, webhooks, respondAsync: true };
+    const accepted = await handleGatewaySettle(settle);
+    expect(accepted.status).toBe(202);
+
+    const lookup = { peers: [peer], settlementId: "s-1", sticky, settles, webhooks };
+    expect((await handleGatewaySettlementStatus(lookup)).body).toMatchObject({ status: "confirmed" });
+    expect((await handleGatewaySettlementStatus(lookup)).status).toBe(200);
+    await vi.waitFor(() => expect(deliveries).toHaveLength(1));
+    expect(deliveries[0].event).toMatchObject({
+      type: "settlement.confirmed",
+      data: { payTo, transaction: "0xA", node: peer },
+    });
+    await new Promise((r) => setTimeout(r, 20));
+    expect(deliveries).toHaveLength(1);
+    sticky.destroy();
+    settles.destroy();
+  });
+
+  it("follows an asynchronous settle itself until it is final", async () => {
+    vi.useFakeTimers();
+    const peer = "http://peer1:3000";
+    const states = ["pending", "pending", "confirmed"];
+    const lookups: string[] = [];
+    const deliveries = stubFetch(
+      () => 200,
+      (url) => {
+        if (url !== `${peer}/settle/s-1`) {
+          return Response.json({ id: "s-1", status: "pending", network: "base-sepolia" }, { status: 202 });
+        }
+        const status = states[lookups.push(url) - 1] ?? "confirmed";
+        return Response.json({ id: "s-1", status, ...(status === "confirmed" && { transaction: "0xA" }) });
+      }
+    );
+    const webhooks = new WebhookDispatcher({
+      subscriptions: [{ payTo, url: "https://merchant.example.com/hook", secret: "s" }],
+    });
+    const sticky = new StickyRouter(false);
+    const settles = new SettleTracker(false);
+    try {
+      const settle = { peers: [peer], inbound: body, sticky, settles, webhooks, respondAsync: true };
+      expect((await handleGatewaySettle(settle)).status).toBe(202);
+      await vi.advanceTimersByTimeAsync(SETTLEMENT_POLL_INTERVAL_MS * 2);
+      expect(lookups).toHaveLength(2);
+      expect(deliveries).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(SETTLEMENT_POLL_INTERVAL_MS);
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0].event).toMatchObject({
+        type: "settlement.confirmed",
+        data: { transaction: "0xA", node: peer },
+      });
+      await vi.advanceTimersByTimeAsync(SETTLEMENT_POLL_INTERVAL_MS * 5);
+      expect(lookups).toHaveLength(3);
+    } finally {
+      sticky.destroy();
+      settles.destroy();
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("Facilitator webhooks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends settlement.failed only for settles that sent a transaction", async () => {
+    const deliveries = stubFetch(() => 200);
+    const facilitator = new Facilitator({
+      evmPrivateKey: `0x${"01".repeat(32)}`,
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      webhooks: { subscriptions: [{ payTo, url: "https://merchant.example.com/hook", secret: "s" }] },
+      nodeName: "https://node-1.example.com",
+    });
+    const failure = { success: false, network: "base-sepolia", payer };
+    vi.mocked(settle)
+      .mockResolvedValueOnce({ ...failure, errorReason: "invalid_exact_evm_payload_signature", transaction: "" })
+      .mockRejectedValueOnce(new Error("rpc unavailable"))
+      .mockResolvedValueOnce({ ...failure, errorReason: "invalid_transaction_state", transaction: "0xB" });
+    expect((await facilitator.handleRequest({ method: "POST", path: "/settle", body })).status).toBe(200);
+    expect((await facilitator.handleRequest({ method: "POST", path: "/settle", body })).status).toBe(400);
+    expect((await facilitator.handleRequest({ method: "POST", path: "/settle", body })).status).toBe(200);
+    await vi.waitFor(() => expect(deliveries).toHaveLength(1));
+    expect(deliveries[0].event).toMatchObject({
+      type: "settlement.failed",
+      data: {
+        payer,
+        payTo,
+        amount: "5000",
+        transaction: "0xB",
+        node: "https://node-1.example.com",
+        errorReason: "invalid_transaction_state",
+      },
+    });
+  });
+
+  it("refuses settle callback urls unless enabled, and those into the node's network", async () => {
+    const settle = (facilitator: Facilitator, callbackUrl: string) =>
+      facilitator.handleRequest({
+        method: "POST",
+        path: "/settle",
+        body: { ...body, callbackUrl },
+        respondAsync: true,
+      });
+    const disabled = new Facilitator({ evmNetworks: [{ network: "base-sepolia" } as any] });
+    expect(await settle(disabled, merchantHook)).toEqual({
+      status: 400,
+      body: { error: "callbackUrl is not enabled on this node" },
+    });
+    const enabled = new Facilitator({
+      evmNetworks: [{ network: "base-sepolia" } as any],
+      settlementCallbacks: { secret: "cbsec" },
+    });
+    for (const url of ["http://169.254.169.254/latest/meta-data", "http://127.0.0.1:3000/admin"]) {
+      expect(await settle(enabled, url)).toEqual({
+        status: 400,
+        body: { error: "Invalid callbackUrl: private or loopback address" },
+      });
+    }
+  });
+});